@@ -2,8 +2,14 @@ import { NextRequest, NextResponse } from 'next/server';
 import { db } from '@/lib/db/client-postgres';
 import { formConfigs } from '@/lib/db/schema';
 import { eq } from 'drizzle-orm';
+import { getCurrentUser } from '@/lib/auth';
+import { getCurrentFormUser } from '@/lib/form-auth';
+import { isFormUserAllowed } from '@/lib/form-access';
+import { parseFormAccess } from '@/lib/form-config';
+
+// GET /api/forms/[id]/public - Get form config for public display
+// No auth required unless the form restricts access to specific people
 
-// GET /api/forms/[id]/public - Get form config for public display (no auth required)
 export async function GET(
   request: NextRequest,
   { params }: { params: { id: string } }
@@ -17,6 +23,24 @@ export async function GET(
       return NextResponse.json({ error: 'Form not found' }, { status: 404 });
     }
 
+    const access = parseFormAccess(form.access);
+
+    if (access.mode !== 'workspace') {
+      const adminUser = await getCurrentUser();
+
+      if (!adminUser) {
+        const formUser = await getCurrentFormUser();
+
+        if (!formUser) {
+          return NextResponse.json({ error: 'Sign in to access this form' }, { status: 401 });
+        }
+
+        if (!isFormUserAllowed(access, formUser)) {
+          return NextResponse.json({ error: 'You do not have access to this form' }, { status: 403 });
+        }
+      }
+    }
+
     // Return only public-safe fields
     return NextResponse.json({
       form: {
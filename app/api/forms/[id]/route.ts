@@ -2,6 +2,8 @@ import { NextRequest, NextResponse } from 'next/server';
 import { db } from '@/lib/db/client-postgres';
 import { formConfigs } from '@/lib/db/schema';
 import { getCurrentUser } from '@/lib/auth';
+import { parseFormAccess } from '@/lib/form-config';
+import { FormAccessSchema } from '@/types/form';
 import { eq, and } from 'drizzle-orm';
 
 // GET /api/forms/[id] - Get a specific form
@@ -30,6 +32,7 @@ export async function GET(
       form: {
         ...form,
         config: JSON.parse(form.config),
+        access: parseFormAccess(form.access),
       },
     });
   } catch (error) {
@@ -65,7 +68,16 @@ export async function PUT(
     }
 
     const body = await request.json();
-    const { name, description, viewId, mode, config } = body;
+    const { name, description, viewId, mode, config, access } = body;
+
+    let accessJson: string | undefined;
+    if (access !== undefined) {
+      const parsedAccess = FormAccessSchema.safeParse(access);
+      if (!parsedAccess.success) {
+        return NextResponse.json({ error: 'Invalid access settings' }, { status: 400 });
+      }
+      accessJson = JSON.stringify(parsedAccess.data);
+    }
 
     const [updatedForm] = await db.update(formConfigs)
       .set({
@@ -74,6 +86,7 @@ export async function PUT(
         viewId: viewId !== undefined ? viewId : existingForm.viewId,
         mode: mode ?? existingForm.mode,
         config: config ? JSON.stringify(config) : existingForm.config,
+        access: accessJson !== undefined ? accessJson : existingForm.access,
         updatedAt: new Date(),
       })
       .where(eq(formConfigs.id, params.id))
@@ -83,6 +96,7 @@ export async function PUT(
       form: {
         ...updatedForm,
         config: JSON.parse(updatedForm.config),
+        access: parseFormAccess(updatedForm.access),
       },
     });
   } catch (error) {
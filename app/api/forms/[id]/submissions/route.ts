@@ -0,0 +1,56 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/lib/db/client-postgres';
+import { formConfigs } from '@/lib/db/schema';
+import { getCurrentUser } from '@/lib/auth';
+import { listSubmissions, listSubmitters } from '@/lib/submissions';
+import { eq, and } from 'drizzle-orm';
+
+// Parse a YYYY-MM-DD query param; end-of-day when `endOfDay` is set
+function parseDateParam(value: string | null, endOfDay: boolean): Date | undefined {
+  if (!value) return undefined;
+  const date = new Date(`${value}T${endOfDay ? '23:59:59.999' : '00:00:00.000'}Z`);
+  return isNaN(date.getTime()) ? undefined : date;
+}
+
+// GET /api/forms/[id]/submissions - List submissions made through a form
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  const user = await getCurrentUser();
+  if (!user) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const form = await db.query.formConfigs.findFirst({
+      where: and(
+        eq(formConfigs.id, params.id),
+        eq(formConfigs.userId, user.id)
+      ),
+    });
+
+    if (!form) {
+      return NextResponse.json({ error: 'Form not found' }, { status: 404 });
+    }
+
+    const searchParams = request.nextUrl.searchParams;
+
+    const [submissions, submitters] = await Promise.all([
+      listSubmissions(form.id, {
+        formUserId: searchParams.get('form_user_id') || undefined,
+        from: parseDateParam(searchParams.get('from'), false),
+        to: parseDateParam(searchParams.get('to'), true),
+      }),
+      listSubmitters(form.id),
+    ]);
+
+    return NextResponse.json({ submissions, submitters });
+  } catch (error) {
+    console.error('Error fetching submissions:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch submissions' },
+      { status: 500 }
+    );
+  }
+}
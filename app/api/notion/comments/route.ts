@@ -2,6 +2,44 @@ import { Client } from '@notionhq/client';
 import { NextRequest, NextResponse } from 'next/server';
 import { getCurrentUser } from '@/lib/auth';
 import { getCurrentFormUser } from '@/lib/form-auth';
+import { checkFormAccess, isRecordOwner } from '@/lib/form-access';
+import { pageBelongsToForm } from '@/lib/form-config';
+import { getNotionClient, notionErrorResponse } from '@/lib/notion';
+
+// Check the caller may see comments on a page through the given form. Like the
+// record itself, they are only shown by forms that list or edit records.
+async function checkPageAccess(
+  notion: Client,
+  formId: string | null | undefined,
+  pageId: string,
+  adminUser: Awaited<ReturnType<typeof getCurrentUser>>,
+  formUser: Awaited<ReturnType<typeof getCurrentFormUser>>
+): Promise<{ status: number; error: string } | null> {
+  const access = await checkFormAccess(formId, adminUser, formUser);
+
+  if (!access.allowed) {
+    return { status: access.status, error: access.error };
+  }
+
+  if (access.form) {
+    const { permissions } = access.form.config;
+    if (!permissions?.allowEdit && !permissions?.allowList) {
+      return { status: 403, error: 'This form does not allow viewing records' };
+    }
+
+    const page = await notion.pages.retrieve({ page_id: pageId });
+    if (!pageBelongsToForm(page, access.form)) {
+      return { status: 404, error: 'Page not found' };
+    }
+
+    const { ownerScope } = access.form.config;
+    if (ownerScope && !adminUser && formUser && !isRecordOwner(page, ownerScope, formUser)) {
+      return { status: 404, error: 'Page not found' };
+    }
+  }
+
+  return null;
+}
 
 // GET - Fetch comments for a page
 export async function GET(request: NextRequest) {
@@ -12,8 +50,8 @@ export async function GET(request: NextRequest) {
     return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
   }
 
-  const notionApiKey = process.env.NOTION_API_KEY;
-  if (!notionApiKey) {
+  const notion = getNotionClient();
+  if (!notion) {
     return NextResponse.json(
       { error: 'NOTION_API_KEY is not configured' },
       { status: 500 }
@@ -31,7 +69,10 @@ export async function GET(request: NextRequest) {
   }
 
   try {
-    const notion = new Client({ auth: notionApiKey });
+    const denied = await checkPageAccess(notion, searchParams.get('form_id'), pageId, adminUser, formUser);
+    if (denied) {
+      return NextResponse.json({ error: denied.error }, { status: denied.status });
+    }
 
     const response = await notion.comments.list({
       block_id: pageId,
@@ -56,15 +97,9 @@ export async function GET(request: NextRequest) {
     });
   } catch (error: any) {
     console.error('Error fetching comments:', error.message);
-
-    if (error.code === 'object_not_found') {
-      return NextResponse.json({ error: 'Page not found' }, { status: 404 });
-    }
-
-    return NextResponse.json(
-      { error: 'Failed to fetch comments' },
-      { status: 500 }
-    );
+    return notionErrorResponse(error, 'Failed to fetch comments', {
+      object_not_found: 'Page not found',
+    });
   }
 }
 
@@ -77,8 +112,8 @@ export async function POST(request: NextRequest) {
     return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
   }
 
-  const notionApiKey = process.env.NOTION_API_KEY;
-  if (!notionApiKey) {
+  const notion = getNotionClient();
+  if (!notion) {
     return NextResponse.json(
       { error: 'NOTION_API_KEY is not configured' },
       { status: 500 }
@@ -87,7 +122,7 @@ export async function POST(request: NextRequest) {
 
   try {
     const body = await request.json();
-    const { pageId, content, discussionId } = body;
+    const { formId, pageId, content, discussionId } = body;
 
     if (!pageId || !content) {
       return NextResponse.json(
@@ -96,7 +131,10 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    const notion = new Client({ auth: notionApiKey });
+    const denied = await checkPageAccess(notion, formId, pageId, adminUser, formUser);
+    if (denied) {
+      return NextResponse.json({ error: denied.error }, { status: denied.status });
+    }
 
     const commentData: any = {
       parent: { page_id: pageId },
@@ -126,28 +164,10 @@ export async function POST(request: NextRequest) {
     });
   } catch (error: any) {
     console.error('Error creating comment:', error.message);
-
-    if (error.code === 'object_not_found') {
-      return NextResponse.json({ error: 'Page not found' }, { status: 404 });
-    }
-
-    if (error.code === 'validation_error') {
-      return NextResponse.json(
-        { error: error.message || 'Validation error' },
-        { status: 400 }
-      );
-    }
-
-    if (error.code === 'unauthorized' || error.code === 'restricted_resource') {
-      return NextResponse.json(
-        { error: 'Integration does not have permission to create comments' },
-        { status: 403 }
-      );
-    }
-
-    return NextResponse.json(
-      { error: 'Failed to create comment' },
-      { status: 500 }
-    );
+    return notionErrorResponse(error, 'Failed to create comment', {
+      object_not_found: 'Page not found',
+      validation_error: error.message || 'Validation error',
+      restricted_resource: 'Integration does not have permission to create comments',
+    });
   }
 }
@@ -0,0 +1,210 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { getCurrentUser } from '@/lib/auth';
+import { getCurrentFormUser } from '@/lib/form-auth';
+import { buildListQuery, isInDateWindow } from '@/lib/list-query';
+import { fromNotionProperty } from '@/lib/property-codec';
+import { buildXlsx, formatExportValue, toCsvLine, ExportCell, ExportColumn, ExportFormat } from '@/lib/list-export';
+import { getNotionClient, notionErrorResponse } from '@/lib/notion';
+
+const ExportColumnsSchema = z.array(z.object({
+  propertyId: z.string(),
+  label: z.string(),
+})).min(1);
+
+const CONTENT_TYPES: Record<ExportFormat, string> = {
+  csv: 'text/csv; charset=utf-8',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+};
+
+function getPageTitle(page: any): string {
+  const titleProp: any = Object.values(page?.properties || {}).find((p: any) => p.type === 'title');
+  return titleProp?.title?.map((t: any) => t.plain_text).join('') || 'Untitled';
+}
+
+function toFileName(name: string, format: ExportFormat): string {
+  const base = name.replace(/[^\w\- ]+/g, '').trim().replace(/\s+/g, '-') || 'export';
+  return `${base}-${new Date().toISOString().slice(0, 10)}.${format}`;
+}
+
+// GET /api/notion/databases/[id]/export - Export all list rows as CSV or XLSX
+// Takes the same filter, search and sort params as the rows route, plus
+// `format` and `columns` (JSON array of { propertyId, label })
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  const adminUser = await getCurrentUser();
+  const formUser = await getCurrentFormUser();
+
+  if (!adminUser && !formUser) {
+    return NextResponse.json(
+      { error: 'Unauthorized' },
+      { status: 401 }
+    );
+  }
+
+  const notion = getNotionClient();
+
+  if (!notion) {
+    return NextResponse.json(
+      { error: 'NOTION_API_KEY is not configured' },
+      { status: 500 }
+    );
+  }
+
+  const searchParams = request.nextUrl.searchParams;
+  const format = searchParams.get('format') as ExportFormat;
+
+  if (format !== 'csv' && format !== 'xlsx') {
+    return NextResponse.json(
+      { error: 'format must be csv or xlsx' },
+      { status: 400 }
+    );
+  }
+
+  let columns: ExportColumn[];
+  try {
+    columns = ExportColumnsSchema.parse(JSON.parse(searchParams.get('columns') || ''));
+  } catch {
+    return NextResponse.json(
+      { error: 'Invalid columns parameter' },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const listQuery = await buildListQuery(notion, params.id, searchParams, adminUser, formUser);
+
+    if (!listQuery.allowed) {
+      return NextResponse.json(
+        { error: listQuery.error },
+        { status: listQuery.status }
+      );
+    }
+
+    const { form, query, dateWindow } = listQuery;
+
+    // Form users can only export the fields the form shows them
+    if (form) {
+      const visibleIds = new Set(
+        form.config.fields.filter(f => f.visible !== false).map(f => f.notionPropertyId)
+      );
+      if (columns.some(col => !visibleIds.has(col.propertyId))) {
+        return NextResponse.json(
+          { error: 'Exporting this property is not allowed' },
+          { status: 403 }
+        );
+      }
+    }
+
+    const relationColumns = columns.filter(col => listQuery.propertyIdToType[col.propertyId] === 'relation');
+    const relationTitles = new Map<string, string>();
+
+    // Look up titles of related pages not seen yet, one at a time to stay
+    // within Notion's rate limit
+    const resolveRelationTitles = async (pages: any[]) => {
+      for (const page of pages) {
+        for (const col of relationColumns) {
+          const prop: any = Object.values(page.properties).find((p: any) => p.id === col.propertyId);
+          for (const relation of prop?.relation || []) {
+            if (relationTitles.has(relation.id)) continue;
+            try {
+              relationTitles.set(relation.id, getPageTitle(await notion.pages.retrieve({ page_id: relation.id })));
+            } catch {
+              // Pages the integration can't read are exported by ID
+              relationTitles.set(relation.id, relation.id);
+            }
+          }
+        }
+      }
+    };
+
+    const toCells = (page: any): ExportCell[] => {
+      const byId = new Map(Object.values(page.properties).map((p: any) => [p.id, p]));
+      return columns.map(col => {
+        const prop: any = byId.get(col.propertyId);
+        return prop ? formatExportValue(prop.type, fromNotionProperty(prop), relationTitles) : null;
+      });
+    };
+
+    // Fetch one page of results, following the cursor from the previous one
+    const fetchBatch = async (cursor?: string): Promise<{ cells: ExportCell[][]; nextCursor: string | null }> => {
+      if (!query) return { cells: [], nextCursor: null };
+
+      const response = await notion.databases.query({
+        ...query,
+        page_size: 100,
+        ...(cursor ? { start_cursor: cursor } : {}),
+      } as any);
+
+      const pages = response.results.filter((page: any) => isInDateWindow(page, dateWindow));
+      await resolveRelationTitles(pages);
+
+      return {
+        cells: pages.map(toCells),
+        nextCursor: response.has_more ? response.next_cursor : null,
+      };
+    };
+
+    const header: ExportCell[] = columns.map(col => col.label);
+    const name = form?.name || listQuery.databaseTitle;
+    const headers = {
+      'Content-Type': CONTENT_TYPES[format],
+      'Content-Disposition': `attachment; filename="${toFileName(name, format)}"`,
+      'Cache-Control': 'no-store',
+    };
+
+    // Fetch the first batch up front so query errors still get a JSON response
+    const first = await fetchBatch();
+
+    if (format === 'xlsx') {
+      const rows = [header, ...first.cells];
+      let cursor = first.nextCursor;
+      while (cursor) {
+        const batch = await fetchBatch(cursor);
+        rows.push(...batch.cells);
+        cursor = batch.nextCursor;
+      }
+
+      return new NextResponse(buildXlsx(rows, name || 'Export'), { headers });
+    }
+
+    // CSV is streamed as each page of results arrives
+    const encoder = new TextEncoder();
+    let pending: ExportCell[][] | null = [header, ...first.cells];
+    let cursor = first.nextCursor;
+
+    const stream = new ReadableStream<Uint8Array>({
+      async pull(controller) {
+        try {
+          if (!pending) {
+            if (!cursor) {
+              controller.close();
+              return;
+            }
+            const batch = await fetchBatch(cursor);
+            pending = batch.cells;
+            cursor = batch.nextCursor;
+          }
+
+          // Byte order mark so spreadsheet apps read the file as UTF-8
+          const prefix = pending[0] === header ? '\uFEFF' : '';
+          controller.enqueue(encoder.encode(prefix + pending.map(toCsvLine).join('')));
+          pending = null;
+        } catch (error) {
+          console.error('Error exporting database rows:', error);
+          controller.error(error);
+        }
+      },
+    });
+
+    return new NextResponse(stream, { headers });
+  } catch (error: any) {
+    console.error('Error exporting database rows:', error);
+    return notionErrorResponse(error, 'Failed to export rows', {
+      object_not_found: 'Database not found',
+      validation_error: `Filter validation error: ${error.message}`,
+    });
+  }
+}
@@ -0,0 +1,87 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getCurrentUser } from '@/lib/auth';
+import { getNotionClient, notionErrorResponse } from '@/lib/notion';
+import { disableMirror, enableMirror, getMirrorStatus } from '@/lib/mirror';
+
+// GET /api/notion/databases/[id]/mirror - Local mirror status
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  const user = await getCurrentUser();
+  if (!user) {
+    return NextResponse.json(
+      { error: 'Unauthorized' },
+      { status: 401 }
+    );
+  }
+
+  try {
+    return NextResponse.json(await getMirrorStatus(params.id));
+  } catch (error) {
+    console.error('Error fetching mirror status:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch mirror status' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/notion/databases/[id]/mirror - Enable the mirror, or run a full sync
+// if it's already enabled
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  const user = await getCurrentUser();
+  if (!user) {
+    return NextResponse.json(
+      { error: 'Unauthorized' },
+      { status: 401 }
+    );
+  }
+
+  const notion = getNotionClient();
+
+  if (!notion) {
+    return NextResponse.json(
+      { error: 'NOTION_API_KEY is not configured' },
+      { status: 500 }
+    );
+  }
+
+  try {
+    await enableMirror(notion, params.id);
+    return NextResponse.json(await getMirrorStatus(params.id));
+  } catch (error) {
+    console.error('Error syncing mirror:', error);
+    return notionErrorResponse(error, 'Failed to sync mirror', {
+      object_not_found: 'Database not found',
+    });
+  }
+}
+
+// DELETE /api/notion/databases/[id]/mirror - Disable the mirror and drop its rows
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  const user = await getCurrentUser();
+  if (!user) {
+    return NextResponse.json(
+      { error: 'Unauthorized' },
+      { status: 401 }
+    );
+  }
+
+  try {
+    await disableMirror(params.id);
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error disabling mirror:', error);
+    return NextResponse.json(
+      { error: 'Failed to disable mirror' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,10 +1,13 @@
-import { Client } from '@notionhq/client';
 import { NextRequest, NextResponse } from 'next/server';
 import { getCurrentUser } from '@/lib/auth';
 import { getCurrentFormUser } from '@/lib/form-auth';
+import { checkFormAccess } from '@/lib/form-access';
+import { normalizeNotionId } from '@/lib/form-config';
+import { getDatabase, getNotionClient, notionErrorResponse } from '@/lib/notion';
 
 // GET /api/notion/databases/[id]/pages - Fetch pages for relation picker
-// Returns simplified page list with ID and title for use in relation selectors
+// Returns simplified page list with ID and title for use in relation selectors.
+// With a form, only databases its visible relation fields point at can be listed.
 export async function GET(
   request: NextRequest,
   { params }: { params: { id: string } }
@@ -20,9 +23,9 @@ export async function GET(
     );
   }
 
-  const notionApiKey = process.env.NOTION_API_KEY;
+  const notion = getNotionClient();
 
-  if (!notionApiKey) {
+  if (!notion) {
     return NextResponse.json(
       { error: 'NOTION_API_KEY is not configured' },
       { status: 500 }
@@ -30,20 +33,59 @@ export async function GET(
   }
 
   const searchParams = request.nextUrl.searchParams;
-  const search = searchParams.get('search') || '';
+
+  const access = await checkFormAccess(searchParams.get('form_id'), adminUser, formUser);
+
+  if (!access.allowed) {
+    return NextResponse.json(
+      { error: access.error },
+      { status: access.status }
+    );
+  }
+
+  const { form } = access;
+
+  if (form && !form.config.fields.some(f =>
+    f.visible !== false &&
+    f.notionPropertyType === 'relation' &&
+    !!f.relationDatabaseId &&
+    normalizeNotionId(f.relationDatabaseId) === normalizeNotionId(params.id)
+  )) {
+    return NextResponse.json(
+      { error: 'This form has no relation to that database' },
+      { status: 403 }
+    );
+  }
+
+  const search = (searchParams.get('search') || '').trim();
   const pageSize = Math.min(parseInt(searchParams.get('page_size') || '50'), 100);
+  const startCursor = searchParams.get('start_cursor') || undefined;
 
   try {
-    const notion = new Client({ auth: notionApiKey });
-
     // Query the database to get pages
     const queryParams: any = {
       database_id: params.id,
       page_size: pageSize,
     };
 
-    // If search term provided, we'll filter client-side since Notion doesn't support text search
-    // For better performance, you could use filter if you know the title property name
+    if (startCursor) {
+      queryParams.start_cursor = startCursor;
+    }
+
+    // Search on the title property in the query itself, so matches beyond
+    // the first page of results are found
+    if (search) {
+      const database = await getDatabase(notion, params.id);
+      const titleProperty = Object.values((database as any).properties)
+        .find((prop: any) => prop.type === 'title') as any;
+
+      if (titleProperty) {
+        queryParams.filter = {
+          property: titleProperty.id,
+          title: { contains: search },
+        };
+      }
+    }
 
     const response = await notion.databases.query(queryParams);
 
@@ -68,28 +110,15 @@ export async function GET(
       };
     });
 
-    // Filter by search term if provided (case-insensitive)
-    const filteredPages = search
-      ? pages.filter(p => p.title.toLowerCase().includes(search.toLowerCase()))
-      : pages;
-
     return NextResponse.json({
-      pages: filteredPages,
+      pages,
       hasMore: response.has_more,
+      nextCursor: response.next_cursor,
     });
   } catch (error: any) {
     console.error('Error fetching database pages:', error);
-
-    if (error.code === 'object_not_found') {
-      return NextResponse.json(
-        { error: 'Database not found' },
-        { status: 404 }
-      );
-    }
-
-    return NextResponse.json(
-      { error: 'Failed to fetch pages from Notion' },
-      { status: 500 }
-    );
+    return notionErrorResponse(error, 'Failed to fetch pages from Notion', {
+      object_not_found: 'Database not found',
+    });
   }
 }
@@ -1,6 +1,6 @@
-import { Client } from '@notionhq/client';
 import { NextRequest, NextResponse } from 'next/server';
 import { getCurrentUser } from '@/lib/auth';
+import { getDatabase, getNotionClient, notionErrorResponse } from '@/lib/notion';
 
 export async function GET(
   request: NextRequest,
@@ -15,9 +15,9 @@ export async function GET(
     );
   }
 
-  const notionApiKey = process.env.NOTION_API_KEY;
+  const notion = getNotionClient();
 
-  if (!notionApiKey) {
+  if (!notion) {
     return NextResponse.json(
       { error: 'NOTION_API_KEY is not configured' },
       { status: 500 }
@@ -25,11 +25,8 @@ export async function GET(
   }
 
   try {
-    const notion = new Client({ auth: notionApiKey });
-
-    const database = await notion.databases.retrieve({
-      database_id: params.id,
-    });
+    // The builder always loads the latest schema, which also refreshes the cache
+    const database = await getDatabase(notion, params.id, { fresh: true });
 
     const db = database as any;
 
@@ -54,17 +51,8 @@ export async function GET(
     });
   } catch (error: any) {
     console.error('Error fetching database:', error);
-
-    if (error.code === 'object_not_found') {
-      return NextResponse.json(
-        { error: 'Database not found' },
-        { status: 404 }
-      );
-    }
-
-    return NextResponse.json(
-      { error: 'Failed to fetch database from Notion' },
-      { status: 500 }
-    );
+    return notionErrorResponse(error, 'Failed to fetch database from Notion', {
+      object_not_found: 'Database not found',
+    });
   }
 }
@@ -1,184 +1,12 @@
-import { Client } from '@notionhq/client';
 import { NextRequest, NextResponse } from 'next/server';
 import { getCurrentUser } from '@/lib/auth';
 import { getCurrentFormUser } from '@/lib/form-auth';
-import { DesignTimeFilter, FilterOperator } from '@/types/form';
-
-// Convert our design-time filter to Notion's filter format
-function buildNotionFilter(filters: DesignTimeFilter[]): any {
-  if (filters.length === 0) return undefined;
-
-  const notionFilters = filters.map((filter) => {
-    const { propertyId, propertyType, operator, value } = filter;
-
-    // Map our operators to Notion's filter conditions
-    const condition = mapOperatorToCondition(propertyType, operator, value);
-    if (!condition) return null;
-
-    return {
-      property: propertyId,
-      [propertyType]: condition,
-    };
-  }).filter(Boolean);
-
-  if (notionFilters.length === 0) return undefined;
-  if (notionFilters.length === 1) return notionFilters[0];
-
-  return { and: notionFilters };
-}
-
-// Map our operators to Notion's filter conditions based on property type
-function mapOperatorToCondition(
-  propertyType: string,
-  operator: FilterOperator,
-  value: any
-): any {
-  // Handle empty/not empty for all types
-  if (operator === 'is_empty') return { is_empty: true };
-  if (operator === 'is_not_empty') return { is_not_empty: true };
-
-  // Text-based types (title, rich_text, url, email, phone_number)
-  if (['title', 'rich_text', 'url', 'email', 'phone_number'].includes(propertyType)) {
-    switch (operator) {
-      case 'equals': return { equals: value };
-      case 'does_not_equal': return { does_not_equal: value };
-      case 'contains': return { contains: value };
-      case 'does_not_contain': return { does_not_contain: value };
-      case 'starts_with': return { starts_with: value };
-      case 'ends_with': return { ends_with: value };
-    }
-  }
-
-  // Number type
-  if (propertyType === 'number') {
-    switch (operator) {
-      case 'equals': return { equals: Number(value) };
-      case 'does_not_equal': return { does_not_equal: Number(value) };
-      case 'greater_than': return { greater_than: Number(value) };
-      case 'less_than': return { less_than: Number(value) };
-      case 'greater_than_or_equal_to': return { greater_than_or_equal_to: Number(value) };
-      case 'less_than_or_equal_to': return { less_than_or_equal_to: Number(value) };
-    }
-  }
-
-  // Select and status
-  if (['select', 'status'].includes(propertyType)) {
-    switch (operator) {
-      case 'equals': return { equals: value };
-      case 'does_not_equal': return { does_not_equal: value };
-    }
-  }
-
-  // Multi-select
-  if (propertyType === 'multi_select') {
-    switch (operator) {
-      case 'contains': return { contains: value };
-      case 'does_not_contain': return { does_not_contain: value };
-    }
-  }
-
-  // Checkbox
-  if (propertyType === 'checkbox') {
-    return { equals: value === true || value === 'true' };
-  }
-
-  // Date
-  if (propertyType === 'date') {
-    switch (operator) {
-      case 'equals': return { equals: value };
-      case 'greater_than': return { after: value };
-      case 'less_than': return { before: value };
-      case 'greater_than_or_equal_to': return { on_or_after: value };
-      case 'less_than_or_equal_to': return { on_or_before: value };
-    }
-  }
-
-  // People
-  if (propertyType === 'people') {
-    switch (operator) {
-      case 'contains': return { contains: value };
-      case 'does_not_contain': return { does_not_contain: value };
-    }
-  }
-
-  return null;
-}
-
-// Extract displayable value from Notion property
-function extractPropertyValue(property: any): any {
-  if (!property) return null;
-
-  switch (property.type) {
-    case 'title':
-      return property.title?.map((t: any) => t.plain_text).join('') || '';
-    case 'rich_text':
-      return property.rich_text?.map((t: any) => t.plain_text).join('') || '';
-    case 'number':
-      return property.number;
-    case 'select':
-      return property.select?.name || null;
-    case 'multi_select':
-      return property.multi_select?.map((s: any) => s.name) || [];
-    case 'date':
-      return property.date?.start || null;
-    case 'checkbox':
-      return property.checkbox;
-    case 'url':
-      return property.url;
-    case 'email':
-      return property.email;
-    case 'phone_number':
-      return property.phone_number;
-    case 'status':
-      return property.status?.name || null;
-    case 'people':
-      return property.people?.map((p: any) => ({
-        id: p.id,
-        name: p.name,
-        email: p.person?.email,
-      })) || [];
-    case 'files':
-      return property.files?.map((f: any) => ({
-        name: f.name,
-        url: f.file?.url || f.external?.url,
-      })) || [];
-    case 'created_time':
-      return property.created_time;
-    case 'created_by':
-      return {
-        id: property.created_by?.id,
-        name: property.created_by?.name,
-      };
-    case 'last_edited_time':
-      return property.last_edited_time;
-    case 'last_edited_by':
-      return {
-        id: property.last_edited_by?.id,
-        name: property.last_edited_by?.name,
-      };
-    case 'formula':
-      const formula = property.formula;
-      return formula?.[formula.type] ?? null;
-    case 'rollup':
-      const rollup = property.rollup;
-      if (rollup?.type === 'array') {
-        return rollup.array?.map((item: any) => extractPropertyValue(item)) || [];
-      }
-      return rollup?.[rollup.type] ?? null;
-    case 'relation':
-      return property.relation?.map((r: any) => r.id) || [];
-    case 'unique_id':
-      // Format unique_id to a display string
-      if (property.unique_id) {
-        const { prefix, number } = property.unique_id;
-        return prefix ? `${prefix}-${number}` : String(number);
-      }
-      return null;
-    default:
-      return null;
-  }
-}
+import { buildListQuery, isInDateWindow } from '@/lib/list-query';
+import { getPageProperties } from '@/lib/form-config';
+import { getNotionClient, notionErrorResponse } from '@/lib/notion';
+import { isMirrorCursor, queryMirror } from '@/lib/mirror';
 
+// GET /api/notion/databases/[id]/rows - Query a page of list rows
 export async function GET(
   request: NextRequest,
   { params }: { params: { id: string } }
@@ -194,9 +22,9 @@ export async function GET(
     );
   }
 
-  const notionApiKey = process.env.NOTION_API_KEY;
+  const notion = getNotionClient();
 
-  if (!notionApiKey) {
+  if (!notion) {
     return NextResponse.json(
       { error: 'NOTION_API_KEY is not configured' },
       { status: 500 }
@@ -207,109 +35,64 @@ export async function GET(
     const searchParams = request.nextUrl.searchParams;
     const pageSize = Math.min(parseInt(searchParams.get('page_size') || '20'), 100);
     const startCursor = searchParams.get('start_cursor') || undefined;
-    const filtersParam = searchParams.get('filters');
-    const sortProperty = searchParams.get('sort_property') || undefined;
-    const sortDirection = searchParams.get('sort_direction') as 'ascending' | 'descending' | undefined;
 
-    let filters: DesignTimeFilter[] = [];
-    if (filtersParam) {
-      try {
-        filters = JSON.parse(filtersParam);
-      } catch {
-        return NextResponse.json(
-          { error: 'Invalid filters parameter' },
-          { status: 400 }
-        );
-      }
-    }
-
-    const notion = new Client({ auth: notionApiKey });
+    const listQuery = await buildListQuery(notion, params.id, searchParams, adminUser, formUser);
 
-    const queryParams: any = {
-      database_id: params.id,
-      page_size: pageSize,
-    };
-
-    if (startCursor) {
-      queryParams.start_cursor = startCursor;
-    }
-
-    const notionFilter = buildNotionFilter(filters);
-    if (notionFilter) {
-      queryParams.filter = notionFilter;
+    if (!listQuery.allowed) {
+      return NextResponse.json(
+        { error: listQuery.error },
+        { status: listQuery.status }
+      );
     }
 
-    // Add sorting if specified
-    if (sortProperty && sortDirection) {
-      queryParams.sorts = [
-        {
-          property: sortProperty,
-          direction: sortDirection,
-        },
-      ];
+    if (!listQuery.query) {
+      return NextResponse.json({ rows: [], hasMore: false, nextCursor: null });
     }
 
-    const response = await notion.databases.query(queryParams);
-
-    // Also fetch database schema to get property names
-    const database = await notion.databases.retrieve({
-      database_id: params.id,
-    });
+    // Mirrored databases are queried locally; others (and queries the mirror
+    // can't answer) go to Notion
+    let response = await queryMirror(notion, params.id, listQuery.query, { pageSize, startCursor });
 
-    const dbProperties = (database as any).properties;
-    const propertyIdToName: Record<string, string> = {};
-    const propertyIdToType: Record<string, string> = {};
+    if (!response) {
+      const queryParams: any = {
+        ...listQuery.query,
+        page_size: pageSize,
+      };
 
-    Object.entries(dbProperties).forEach(([name, prop]: [string, any]) => {
-      propertyIdToName[prop.id] = name;
-      propertyIdToType[prop.id] = prop.type;
-    });
+      // A mirror cursor is stale once the mirror is off; start over
+      if (startCursor && !isMirrorCursor(startCursor)) {
+        queryParams.start_cursor = startCursor;
+      }
 
-    const rows = response.results.map((page: any) => {
-      const properties: Record<string, { type: string; value: any }> = {};
+      const notionResponse = await notion.databases.query(queryParams);
+      response = {
+        results: notionResponse.results,
+        hasMore: notionResponse.has_more,
+        nextCursor: notionResponse.next_cursor,
+      };
+    }
 
-      Object.entries(page.properties).forEach(([name, prop]: [string, any]) => {
-        const propId = prop.id;
-        properties[propId] = {
-          type: prop.type,
-          value: extractPropertyValue(prop),
-        };
-      });
+    const pages = response.results.filter((page: any) => isInDateWindow(page, listQuery.dateWindow));
 
-      return {
-        id: page.id,
-        url: page.url,
-        createdTime: page.created_time,
-        lastEditedTime: page.last_edited_time,
-        properties,
-      };
-    });
+    // Form users only see the fields the form shows
+    const rows = pages.map((page: any) => ({
+      id: page.id,
+      url: page.url,
+      createdTime: page.created_time,
+      lastEditedTime: page.last_edited_time,
+      properties: getPageProperties(page, listQuery.form, !adminUser),
+    }));
 
     return NextResponse.json({
       rows,
-      hasMore: response.has_more,
-      nextCursor: response.next_cursor,
+      hasMore: response.hasMore,
+      nextCursor: response.nextCursor,
     });
   } catch (error: any) {
     console.error('Error querying database:', error);
-
-    if (error.code === 'object_not_found') {
-      return NextResponse.json(
-        { error: 'Database not found' },
-        { status: 404 }
-      );
-    }
-
-    if (error.code === 'validation_error') {
-      return NextResponse.json(
-        { error: `Filter validation error: ${error.message}` },
-        { status: 400 }
-      );
-    }
-
-    return NextResponse.json(
-      { error: 'Failed to query database' },
-      { status: 500 }
-    );
+    return notionErrorResponse(error, 'Failed to query database', {
+      object_not_found: 'Database not found',
+      validation_error: `Filter validation error: ${error.message}`,
+    });
   }
 }
@@ -1,6 +1,6 @@
-import { Client } from '@notionhq/client';
 import { NextResponse } from 'next/server';
 import { getCurrentUser } from '@/lib/auth';
+import { getNotionClient, notionErrorResponse } from '@/lib/notion';
 
 export async function GET() {
   // Require authentication
@@ -12,9 +12,9 @@ export async function GET() {
     );
   }
 
-  const notionApiKey = process.env.NOTION_API_KEY;
+  const notion = getNotionClient();
 
-  if (!notionApiKey) {
+  if (!notion) {
     return NextResponse.json(
       { error: 'NOTION_API_KEY is not configured' },
       { status: 500 }
@@ -22,8 +22,6 @@ export async function GET() {
   }
 
   try {
-    const notion = new Client({ auth: notionApiKey });
-
     const response = await notion.search({
       filter: {
         value: 'database',
@@ -45,9 +43,6 @@ export async function GET() {
     return NextResponse.json({ databases });
   } catch (error) {
     console.error('Error fetching databases:', error);
-    return NextResponse.json(
-      { error: 'Failed to fetch databases from Notion' },
-      { status: 500 }
-    );
+    return notionErrorResponse(error, 'Failed to fetch databases from Notion');
   }
 }
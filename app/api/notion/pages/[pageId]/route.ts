@@ -1,175 +1,58 @@
-import { Client } from '@notionhq/client';
 import { NextRequest, NextResponse } from 'next/server';
 import { getCurrentUser } from '@/lib/auth';
 import { getCurrentFormUser } from '@/lib/form-auth';
-
-interface FieldUpdate {
-  propertyId: string;
-  propertyType: string;
-  value: any;
+import { FieldSubmission, checkFieldSubmissions, getPageProperties, pageBelongsToForm } from '@/lib/form-config';
+import { recordSubmission } from '@/lib/submissions';
+import { checkFormAccess, isRecordOwner } from '@/lib/form-access';
+import { fromNotionProperty, isSameValue, toNotionProperty } from '@/lib/property-codec';
+import { getNotionClient, invalidateDatabase, notionErrorResponse } from '@/lib/notion';
+import { mirrorPage, removeMirroredPage } from '@/lib/mirror';
+import { toFormValue } from '@/lib/form-validation';
+import { EditBase, FieldConfig, FieldConflict } from '@/types/form';
+
+// A page's values of the form's fields, as the form edits them
+function getFormValues(page: any, formFields: FieldConfig[]): Record<string, any> {
+  const values: Record<string, any> = {};
+  Object.values(page.properties).forEach((prop: any) => {
+    const field = formFields.find(f => f.notionPropertyId === prop.id);
+    if (field) values[prop.id] = toFormValue(field.notionPropertyType, fromNotionProperty(prop));
+  });
+  return values;
 }
 
-// Convert form field values to Notion property format (same as in pages/route.ts)
-function convertToNotionProperty(type: string, value: any): any {
-  if (value === undefined || value === null || value === '') {
-    return undefined;
-  }
+// Compare an edit with the page as it is now. Fields someone else changed since
+// the edit began are dropped when the editor left them alone (keeping the newer
+// value), and conflict when both changed them differently. Values are compared
+// rather than edit times, which Notion rounds to the minute.
+function checkEditConflicts(page: any, fields: FieldSubmission[], base: EditBase) {
+  const current: Record<string, any> = {};
+  Object.values(page.properties).forEach((prop: any) => {
+    if (prop.id in base.values) current[prop.id] = fromNotionProperty(prop);
+  });
 
-  switch (type) {
-    case 'title':
-      return {
-        title: [{ text: { content: String(value) } }],
-      };
-
-    case 'rich_text':
-      return {
-        rich_text: [{ text: { content: String(value) } }],
-      };
-
-    case 'number':
-      return {
-        number: Number(value),
-      };
-
-    case 'checkbox':
-      return {
-        checkbox: Boolean(value),
-      };
-
-    case 'select':
-      return {
-        select: { name: String(value) },
-      };
-
-    case 'multi_select':
-      const values = Array.isArray(value) ? value : [value];
-      return {
-        multi_select: values.map((v: string) => ({ name: v })),
-      };
-
-    case 'date':
-      return {
-        date: { start: String(value) },
-      };
-
-    case 'url':
-      return {
-        url: String(value),
-      };
-
-    case 'email':
-      return {
-        email: String(value),
-      };
-
-    case 'phone_number':
-      return {
-        phone_number: String(value),
-      };
-
-    case 'status':
-      return {
-        status: { name: String(value) },
-      };
-
-    case 'relation':
-      const pageIds = Array.isArray(value)
-        ? value
-        : String(value).split(',').map(id => id.trim()).filter(Boolean);
-      return {
-        relation: pageIds.map((id: string) => ({ id })),
-      };
-
-    case 'people':
-      const userIds = Array.isArray(value)
-        ? value
-        : [value].filter(Boolean);
-      return {
-        people: userIds.map((id: string) => ({ object: 'user', id })),
-      };
-
-    // Read-only types - skip
-    case 'formula':
-    case 'rollup':
-    case 'created_time':
-    case 'created_by':
-    case 'last_edited_time':
-    case 'last_edited_by':
-    case 'unique_id':
-      return undefined;
-
-    default:
-      return {
-        rich_text: [{ text: { content: String(value) } }],
-      };
-  }
-}
+  const conflicts: FieldConflict[] = [];
+  const updates: Record<string, any> = {};
 
-// Extract displayable value from Notion property
-function extractPropertyValue(property: any): any {
-  if (!property) return null;
-
-  switch (property.type) {
-    case 'title':
-      return property.title?.map((t: any) => t.plain_text).join('') || '';
-    case 'rich_text':
-      return property.rich_text?.map((t: any) => t.plain_text).join('') || '';
-    case 'number':
-      return property.number;
-    case 'select':
-      return property.select?.name || null;
-    case 'multi_select':
-      return property.multi_select?.map((s: any) => s.name) || [];
-    case 'date':
-      return property.date?.start || null;
-    case 'checkbox':
-      return property.checkbox;
-    case 'url':
-      return property.url;
-    case 'email':
-      return property.email;
-    case 'phone_number':
-      return property.phone_number;
-    case 'status':
-      return property.status?.name || null;
-    case 'people':
-      return property.people?.map((p: any) => p.id) || [];
-    case 'files':
-      return property.files?.map((f: any) => ({
-        name: f.name,
-        url: f.file?.url || f.external?.url,
-      })) || [];
-    case 'created_time':
-      return property.created_time;
-    case 'created_by':
-      return property.created_by?.id;
-    case 'last_edited_time':
-      return property.last_edited_time;
-    case 'last_edited_by':
-      return property.last_edited_by?.id;
-    case 'formula':
-      const formula = property.formula;
-      return formula?.[formula.type] ?? null;
-    case 'rollup':
-      const rollup = property.rollup;
-      if (rollup?.type === 'array') {
-        return rollup.array?.map((item: any) => extractPropertyValue(item)) || [];
-      }
-      return rollup?.[rollup.type] ?? null;
-    case 'relation':
-      return property.relation?.map((r: any) => r.id) || [];
-    case 'unique_id':
-      // Return the unique_id object with prefix and number
-      if (property.unique_id) {
-        return {
-          prefix: property.unique_id.prefix || '',
-          number: property.unique_id.number,
-        };
-      }
-      return null;
-    default:
-      return null;
-  }
+  const kept = fields.filter(field => {
+    if (!(field.propertyId in current)) return true;
+
+    const baseValue = base.values[field.propertyId];
+    const theirs = current[field.propertyId];
+
+    if (isSameValue(field.propertyType, theirs, baseValue)) return true;
+
+    if (isSameValue(field.propertyType, field.value, baseValue)) {
+      updates[field.propertyId] = theirs;
+      return false;
+    }
+
+    if (!isSameValue(field.propertyType, field.value, theirs)) {
+      conflicts.push({ propertyId: field.propertyId, base: baseValue, theirs, yours: field.value });
+    }
+    return true;
+  });
+
+  return { fields: kept, conflicts, updates, current };
 }
 
 // GET - Fetch a single page for editing
@@ -187,9 +70,9 @@ export async function GET(
     );
   }
 
-  const notionApiKey = process.env.NOTION_API_KEY;
+  const notion = getNotionClient();
 
-  if (!notionApiKey) {
+  if (!notion) {
     return NextResponse.json(
       { error: 'NOTION_API_KEY is not configured' },
       { status: 500 }
@@ -197,7 +80,27 @@ export async function GET(
   }
 
   try {
-    const notion = new Client({ auth: notionApiKey });
+    const access = await checkFormAccess(
+      request.nextUrl.searchParams.get('form_id'),
+      adminUser,
+      formUser
+    );
+
+    if (!access.allowed) {
+      return NextResponse.json(
+        { error: access.error },
+        { status: access.status }
+      );
+    }
+
+    const { form } = access;
+
+    if (form && !form.config.permissions?.allowEdit && !form.config.permissions?.allowList) {
+      return NextResponse.json(
+        { error: 'This form does not allow viewing records' },
+        { status: 403 }
+      );
+    }
 
     const page = await notion.pages.retrieve({
       page_id: params.pageId,
@@ -205,15 +108,23 @@ export async function GET(
 
     const pageData = page as any;
 
-    // Extract property values
-    const properties: Record<string, { type: string; value: any }> = {};
+    if (form && !pageBelongsToForm(pageData, form)) {
+      return NextResponse.json(
+        { error: 'Page not found' },
+        { status: 404 }
+      );
+    }
 
-    Object.entries(pageData.properties).forEach(([name, prop]: [string, any]) => {
-      properties[prop.id] = {
-        type: prop.type,
-        value: extractPropertyValue(prop),
-      };
-    });
+    // Owner-scoped forms only expose the form user's own rows
+    if (form?.config.ownerScope && !adminUser && formUser && !isRecordOwner(pageData, form.config.ownerScope, formUser)) {
+      return NextResponse.json(
+        { error: 'Page not found' },
+        { status: 404 }
+      );
+    }
+
+    // Form users only see the fields the form shows
+    const properties = getPageProperties(pageData, form, !adminUser);
 
     return NextResponse.json({
       id: pageData.id,
@@ -224,18 +135,9 @@ export async function GET(
     });
   } catch (error: any) {
     console.error('Error fetching page:', error);
-
-    if (error.code === 'object_not_found') {
-      return NextResponse.json(
-        { error: 'Page not found' },
-        { status: 404 }
-      );
-    }
-
-    return NextResponse.json(
-      { error: 'Failed to fetch page' },
-      { status: 500 }
-    );
+    return notionErrorResponse(error, 'Failed to fetch page', {
+      object_not_found: 'Page not found',
+    });
   }
 }
 
@@ -254,9 +156,9 @@ export async function PATCH(
     );
   }
 
-  const notionApiKey = process.env.NOTION_API_KEY;
+  const notion = getNotionClient();
 
-  if (!notionApiKey) {
+  if (!notion) {
     return NextResponse.json(
       { error: 'NOTION_API_KEY is not configured' },
       { status: 500 }
@@ -265,7 +167,8 @@ export async function PATCH(
 
   try {
     const body = await request.json();
-    const { fields } = body as { fields: FieldUpdate[] };
+    const { formId, base } = body as { formId?: string; base?: EditBase };
+    let { fields } = body as { fields: FieldSubmission[] };
 
     if (!fields || !Array.isArray(fields)) {
       return NextResponse.json(
@@ -274,7 +177,24 @@ export async function PATCH(
       );
     }
 
-    const notion = new Client({ auth: notionApiKey });
+    // Form users must edit through a form they can access; admins may write directly
+    const access = await checkFormAccess(formId, adminUser, formUser);
+
+    if (!access.allowed) {
+      return NextResponse.json(
+        { error: access.error },
+        { status: access.status }
+      );
+    }
+
+    const { form } = access;
+
+    if (form && form.config.permissions?.allowEdit !== true) {
+      return NextResponse.json(
+        { error: 'This form does not allow editing records' },
+        { status: 403 }
+      );
+    }
 
     // First, get the page to find the database and property names
     const existingPage = await notion.pages.retrieve({
@@ -283,6 +203,61 @@ export async function PATCH(
 
     const pageData = existingPage as any;
 
+    // The page must belong to the form's database
+    if (form && !pageBelongsToForm(pageData, form)) {
+      return NextResponse.json(
+        { error: 'Page does not belong to this form' },
+        { status: 403 }
+      );
+    }
+
+    // Owner-scoped forms only let form users edit their own rows
+    if (form?.config.ownerScope && !adminUser && formUser && !isRecordOwner(pageData, form.config.ownerScope, formUser)) {
+      return NextResponse.json(
+        { error: 'You do not have permission to edit this page' },
+        { status: 403 }
+      );
+    }
+
+    if (form) {
+      // Edits only send changed fields, so rules are checked against the
+      // record's current values with the changes on top
+      const { fields: checkedFields, fieldErrors } = checkFieldSubmissions(
+        form,
+        fields,
+        getFormValues(pageData, form.config.fields)
+      );
+
+      if (Object.keys(fieldErrors).length > 0) {
+        return NextResponse.json(
+          { error: 'Validation failed', fieldErrors },
+          { status: 400 }
+        );
+      }
+
+      fields = checkedFields;
+    }
+
+    // Someone may have changed the record since the edit began
+    if (base?.values) {
+      const checked = checkEditConflicts(pageData, fields, base);
+
+      if (checked.conflicts.length > 0) {
+        return NextResponse.json(
+          {
+            error: 'This record was changed by someone else while you were editing it',
+            conflicts: checked.conflicts,
+            updates: checked.updates,
+            // The record as it is now, for the next attempt's base
+            current: { lastEditedTime: pageData.last_edited_time, values: checked.current },
+          },
+          { status: 409 }
+        );
+      }
+
+      fields = checked.fields;
+    }
+
     // Build a map from property ID to property name
     const propIdToName: Record<string, string> = {};
     Object.entries(pageData.properties).forEach(([name, prop]: [string, any]) => {
@@ -300,7 +275,8 @@ export async function PATCH(
         continue;
       }
 
-      const notionValue = convertToNotionProperty(field.propertyType, field.value);
+      // Fields left out are untouched; submitted empty values clear the property
+      const notionValue = toNotionProperty(field.propertyType, field.value, { clear: true });
 
       if (notionValue !== undefined) {
         properties[propName] = notionValue;
@@ -313,6 +289,24 @@ export async function PATCH(
       properties,
     });
 
+    await mirrorPage(updatedPage);
+
+    // Notion adds select options the page used that didn't exist yet
+    if (pageData.parent?.database_id && fields.some(f => f.propertyType === 'select' || f.propertyType === 'multi_select')) {
+      invalidateDatabase(pageData.parent.database_id);
+    }
+
+    if (form) {
+      await recordSubmission({
+        formId: form.id,
+        adminUserId: adminUser?.id,
+        formUserId: formUser?.id,
+        notionPageId: updatedPage.id,
+        mode: 'edit',
+        fields,
+      });
+    }
+
     return NextResponse.json({
       success: true,
       pageId: updatedPage.id,
@@ -320,31 +314,111 @@ export async function PATCH(
     });
   } catch (error: any) {
     console.error('Error updating page:', error);
+    return notionErrorResponse(error, error.message || 'Failed to update page', {
+      object_not_found: 'Page not found',
+      restricted_resource: 'You do not have permission to edit this page',
+    });
+  }
+}
+
+// DELETE - Archive a page (Notion has no hard delete through the API)
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { pageId: string } }
+) {
+  const adminUser = await getCurrentUser();
+  const formUser = await getCurrentFormUser();
+
+  if (!adminUser && !formUser) {
+    return NextResponse.json(
+      { error: 'Unauthorized' },
+      { status: 401 }
+    );
+  }
+
+  const notion = getNotionClient();
+
+  if (!notion) {
+    return NextResponse.json(
+      { error: 'NOTION_API_KEY is not configured' },
+      { status: 500 }
+    );
+  }
 
-    if (error.code === 'validation_error') {
+  try {
+    // Form users must delete through a form they can access; admins may archive directly
+    const access = await checkFormAccess(
+      request.nextUrl.searchParams.get('form_id'),
+      adminUser,
+      formUser
+    );
+
+    if (!access.allowed) {
       return NextResponse.json(
-        { error: `Validation error: ${error.message}` },
-        { status: 400 }
+        { error: access.error },
+        { status: access.status }
       );
     }
 
-    if (error.code === 'object_not_found') {
+    const { form } = access;
+
+    if (form && form.config.permissions?.allowDelete !== true) {
       return NextResponse.json(
-        { error: 'Page not found' },
-        { status: 404 }
+        { error: 'This form does not allow deleting records' },
+        { status: 403 }
       );
     }
 
-    if (error.status === 403) {
+    const existingPage = await notion.pages.retrieve({
+      page_id: params.pageId,
+    });
+
+    const pageData = existingPage as any;
+
+    if (form && !pageBelongsToForm(pageData, form)) {
       return NextResponse.json(
-        { error: 'You do not have permission to edit this page' },
+        { error: 'Page does not belong to this form' },
         { status: 403 }
       );
     }
 
-    return NextResponse.json(
-      { error: error.message || 'Failed to update page' },
-      { status: 500 }
-    );
+    // Owner-scoped forms only let form users delete their own rows
+    if (form?.config.ownerScope && !adminUser && formUser && !isRecordOwner(pageData, form.config.ownerScope, formUser)) {
+      return NextResponse.json(
+        { error: 'You do not have permission to delete this page' },
+        { status: 403 }
+      );
+    }
+
+    if (!pageData.archived) {
+      await notion.pages.update({
+        page_id: params.pageId,
+        archived: true,
+      });
+    }
+
+    await removeMirroredPage(pageData.id);
+
+    if (form) {
+      await recordSubmission({
+        formId: form.id,
+        adminUserId: adminUser?.id,
+        formUserId: formUser?.id,
+        notionPageId: pageData.id,
+        mode: 'archive',
+        fields: [],
+      });
+    }
+
+    return NextResponse.json({
+      success: true,
+      pageId: pageData.id,
+    });
+  } catch (error: any) {
+    console.error('Error archiving page:', error);
+    return notionErrorResponse(error, error.message || 'Failed to delete page', {
+      object_not_found: 'Page not found',
+      restricted_resource: 'You do not have permission to delete this page',
+    });
   }
 }
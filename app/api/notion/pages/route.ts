@@ -1,118 +1,19 @@
-import { Client } from '@notionhq/client';
 import { NextRequest, NextResponse } from 'next/server';
 import { getCurrentUser } from '@/lib/auth';
 import { getCurrentFormUser } from '@/lib/form-auth';
-
-interface FieldSubmission {
-  propertyId: string;
-  propertyType: string;
-  value: any;
-}
+import { FieldSubmission, checkFieldSubmissions } from '@/lib/form-config';
+import { recordSubmission } from '@/lib/submissions';
+import { checkFormAccess } from '@/lib/form-access';
+import { toNotionProperty } from '@/lib/property-codec';
+import { getDatabase, getNotionClient, invalidateDatabase, notionErrorResponse } from '@/lib/notion';
+import { mirrorPage } from '@/lib/mirror';
 
 interface CreatePageRequest {
-  databaseId: string;
+  formId?: string;
+  databaseId?: string;
   fields: FieldSubmission[];
 }
 
-// Convert form field values to Notion property format
-function convertToNotionProperty(type: string, value: any): any {
-  if (value === undefined || value === null || value === '') {
-    return undefined;
-  }
-
-  switch (type) {
-    case 'title':
-      return {
-        title: [{ text: { content: String(value) } }],
-      };
-
-    case 'rich_text':
-      return {
-        rich_text: [{ text: { content: String(value) } }],
-      };
-
-    case 'number':
-      return {
-        number: Number(value),
-      };
-
-    case 'checkbox':
-      return {
-        checkbox: Boolean(value),
-      };
-
-    case 'select':
-      return {
-        select: { name: String(value) },
-      };
-
-    case 'multi_select':
-      const values = Array.isArray(value) ? value : [value];
-      return {
-        multi_select: values.map((v: string) => ({ name: v })),
-      };
-
-    case 'date':
-      return {
-        date: { start: String(value) },
-      };
-
-    case 'url':
-      return {
-        url: String(value),
-      };
-
-    case 'email':
-      return {
-        email: String(value),
-      };
-
-    case 'phone_number':
-      return {
-        phone_number: String(value),
-      };
-
-    case 'status':
-      return {
-        status: { name: String(value) },
-      };
-
-    case 'relation':
-      // Expect comma-separated page IDs
-      const pageIds = Array.isArray(value)
-        ? value
-        : String(value).split(',').map(id => id.trim()).filter(Boolean);
-      return {
-        relation: pageIds.map((id: string) => ({ id })),
-      };
-
-    case 'people':
-      // Expect a user ID or array of user IDs
-      const userIds = Array.isArray(value)
-        ? value
-        : [value].filter(Boolean);
-      return {
-        people: userIds.map((id: string) => ({ object: 'user', id })),
-      };
-
-    // Read-only types - skip
-    case 'formula':
-    case 'rollup':
-    case 'created_time':
-    case 'created_by':
-    case 'last_edited_time':
-    case 'last_edited_by':
-    case 'unique_id':
-      return undefined;
-
-    default:
-      // For unknown types, try as rich_text
-      return {
-        rich_text: [{ text: { content: String(value) } }],
-      };
-  }
-}
-
 export async function POST(request: NextRequest) {
   // Require authentication (either admin user or form user)
   const adminUser = await getCurrentUser();
@@ -125,9 +26,9 @@ export async function POST(request: NextRequest) {
     );
   }
 
-  const notionApiKey = process.env.NOTION_API_KEY;
+  const notion = getNotionClient();
 
-  if (!notionApiKey) {
+  if (!notion) {
     return NextResponse.json(
       { error: 'NOTION_API_KEY is not configured' },
       { status: 500 }
@@ -136,28 +37,65 @@ export async function POST(request: NextRequest) {
 
   try {
     const body: CreatePageRequest = await request.json();
-    const { databaseId, fields } = body;
+    const { formId } = body;
+    let { databaseId, fields } = body;
 
-    if (!databaseId) {
+    if (!fields || !Array.isArray(fields)) {
       return NextResponse.json(
-        { error: 'databaseId is required' },
+        { error: 'fields array is required' },
         { status: 400 }
       );
     }
 
-    if (!fields || !Array.isArray(fields)) {
+    // Form users must submit through a form they can access; admins may write directly (e.g. preview)
+    const access = await checkFormAccess(formId, adminUser, formUser);
+
+    if (!access.allowed) {
       return NextResponse.json(
-        { error: 'fields array is required' },
-        { status: 400 }
+        { error: access.error },
+        { status: access.status }
       );
     }
 
-    const notion = new Client({ auth: notionApiKey });
+    const { form } = access;
 
-    // First, get the database schema to map property IDs to names
-    const database = await notion.databases.retrieve({
-      database_id: databaseId,
-    });
+    if (form) {
+      if (form.config.permissions?.allowCreate === false) {
+        return NextResponse.json(
+          { error: 'This form does not allow creating new records' },
+          { status: 403 }
+        );
+      }
+
+      const { fields: checkedFields, fieldErrors } = checkFieldSubmissions(form, fields);
+
+      if (Object.keys(fieldErrors).length > 0) {
+        return NextResponse.json(
+          { error: 'Validation failed', fieldErrors },
+          { status: 400 }
+        );
+      }
+
+      databaseId = form.databaseId;
+      fields = checkedFields;
+    }
+
+    if (!databaseId) {
+      return NextResponse.json(
+        { error: 'databaseId is required' },
+        { status: 400 }
+      );
+    }
+
+    // First, get the database schema to map property IDs to names. A cached
+    // schema missing a submitted property may predate it, so reload it then.
+    const hasAllProperties = (database: any) => fields.every(field =>
+      Object.values(database.properties).some((prop: any) => prop.id === field.propertyId)
+    );
+    let database = await getDatabase(notion, databaseId);
+    if (!hasAllProperties(database)) {
+      database = await getDatabase(notion, databaseId, { fresh: true });
+    }
 
     const dbProperties = (database as any).properties;
 
@@ -176,7 +114,7 @@ export async function POST(request: NextRequest) {
       }
 
       const [propName, _] = propEntry;
-      const notionValue = convertToNotionProperty(field.propertyType, field.value);
+      const notionValue = toNotionProperty(field.propertyType, field.value);
 
       if (notionValue !== undefined) {
         properties[propName] = notionValue;
@@ -189,6 +127,24 @@ export async function POST(request: NextRequest) {
       properties,
     });
 
+    await mirrorPage(page);
+
+    // Notion adds select options the page used that didn't exist yet
+    if (fields.some(f => f.propertyType === 'select' || f.propertyType === 'multi_select')) {
+      invalidateDatabase(databaseId);
+    }
+
+    if (form) {
+      await recordSubmission({
+        formId: form.id,
+        adminUserId: adminUser?.id,
+        formUserId: formUser?.id,
+        notionPageId: page.id,
+        mode: 'create',
+        fields,
+      });
+    }
+
     return NextResponse.json({
       success: true,
       pageId: page.id,
@@ -196,24 +152,8 @@ export async function POST(request: NextRequest) {
     });
   } catch (error: any) {
     console.error('Error creating page:', error);
-
-    if (error.code === 'validation_error') {
-      return NextResponse.json(
-        { error: `Validation error: ${error.message}` },
-        { status: 400 }
-      );
-    }
-
-    if (error.code === 'object_not_found') {
-      return NextResponse.json(
-        { error: 'Database not found or not accessible' },
-        { status: 404 }
-      );
-    }
-
-    return NextResponse.json(
-      { error: error.message || 'Failed to create page in Notion' },
-      { status: 500 }
-    );
+    return notionErrorResponse(error, error.message || 'Failed to create page in Notion', {
+      object_not_found: 'Database not found or not accessible',
+    });
   }
 }
@@ -1,7 +1,7 @@
-import { Client } from '@notionhq/client';
 import { NextResponse } from 'next/server';
 import { getCurrentUser } from '@/lib/auth';
 import { getCurrentFormUser } from '@/lib/form-auth';
+import { getNotionClient, getWorkspaceUsers, notionErrorResponse } from '@/lib/notion';
 
 export async function GET() {
   // Require authentication (either admin user or form user)
@@ -15,9 +15,9 @@ export async function GET() {
     );
   }
 
-  const notionApiKey = process.env.NOTION_API_KEY;
+  const notion = getNotionClient();
 
-  if (!notionApiKey) {
+  if (!notion) {
     return NextResponse.json(
       { error: 'NOTION_API_KEY is not configured' },
       { status: 500 }
@@ -25,26 +25,14 @@ export async function GET() {
   }
 
   try {
-    const notion = new Client({ auth: notionApiKey });
-
-    // Fetch all users from the workspace
-    const response = await notion.users.list({});
-
-    const users = response.results
-      .filter((user: any) => user.type === 'person')
-      .map((user: any) => ({
-        id: user.id,
-        name: user.name || 'Unknown',
-        email: user.person?.email || null,
-        avatarUrl: user.avatar_url || null,
-      }));
+    const users = (await getWorkspaceUsers(notion)).map(user => ({
+      ...user,
+      name: user.name || 'Unknown',
+    }));
 
     return NextResponse.json({ users });
   } catch (error) {
     console.error('Error fetching users:', error);
-    return NextResponse.json(
-      { error: 'Failed to fetch users from Notion' },
-      { status: 500 }
-    );
+    return notionErrorResponse(error, 'Failed to fetch users from Notion');
   }
 }
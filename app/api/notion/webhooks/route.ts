@@ -0,0 +1,145 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createHmac, timingSafeEqual } from 'crypto';
+import { asc, sql } from 'drizzle-orm';
+import { getCurrentUser } from '@/lib/auth';
+import { db } from '@/lib/db/client-postgres';
+import { webhookVerifications } from '@/lib/db/schema';
+import { getNotionClient, invalidateDatabase } from '@/lib/notion';
+import { refreshMirroredPage, removeMirroredPage } from '@/lib/mirror';
+
+// Page events that change what a mirrored list shows
+const PAGE_REFRESH_EVENTS = ['page.created', 'page.properties_updated', 'page.moved', 'page.undeleted'];
+
+// Anything longer isn't a Notion verification token
+const MAX_VERIFICATION_TOKEN_LENGTH = 200;
+// Anyone can post a token while NOTION_WEBHOOK_SECRET is unset, so only this many are kept
+const MAX_PENDING_VERIFICATIONS = 10;
+
+// Notion signs each event with the subscription's verification token
+function isValidSignature(body: string, signature: string | null, secret: string): boolean {
+  if (!signature) return false;
+  const expected = `sha256=${createHmac('sha256', secret).update(body).digest('hex')}`;
+  return expected.length === signature.length &&
+    timingSafeEqual(Buffer.from(expected), Buffer.from(signature));
+}
+
+// GET /api/notion/webhooks - Verification tokens received, oldest first, for an
+// admin to paste back into Notion and set as NOTION_WEBHOOK_SECRET. Since anyone
+// can post one, every token is listed with the time it arrived; pick the one
+// received when the subscription was created in Notion.
+export async function GET() {
+  const user = await getCurrentUser();
+  if (!user) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  if (process.env.NOTION_WEBHOOK_SECRET) {
+    return NextResponse.json({ error: 'NOTION_WEBHOOK_SECRET is already configured' }, { status: 404 });
+  }
+
+  try {
+    const verifications = await db
+      .select({ token: webhookVerifications.token, receivedAt: webhookVerifications.receivedAt })
+      .from(webhookVerifications)
+      .orderBy(asc(webhookVerifications.receivedAt));
+
+    if (verifications.length === 0) {
+      return NextResponse.json({ error: 'No verification token received yet' }, { status: 404 });
+    }
+
+    return NextResponse.json({ tokens: verifications });
+  } catch (error) {
+    console.error('Error fetching webhook verification tokens:', error);
+    return NextResponse.json({ error: 'Failed to fetch verification tokens' }, { status: 500 });
+  }
+}
+
+// DELETE /api/notion/webhooks - Discard received verification tokens, e.g. to
+// make room for a new subscription's token
+export async function DELETE() {
+  const user = await getCurrentUser();
+  if (!user) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    await db.delete(webhookVerifications);
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error deleting webhook verification tokens:', error);
+    return NextResponse.json({ error: 'Failed to delete verification tokens' }, { status: 500 });
+  }
+}
+
+// POST /api/notion/webhooks - Notion webhook events, used to keep mirrored
+// databases up to date between syncs
+export async function POST(request: NextRequest) {
+  const body = await request.text();
+
+  let event: any;
+  try {
+    event = JSON.parse(body);
+  } catch {
+    return NextResponse.json({ error: 'Invalid JSON' }, { status: 400 });
+  }
+
+  const secret = process.env.NOTION_WEBHOOK_SECRET;
+
+  // Creating a subscription sends the verification token once. Until it is set
+  // as NOTION_WEBHOOK_SECRET it is stored for admins to read (see GET); after
+  // that, every request must be signed with it. Once MAX_PENDING_VERIFICATIONS
+  // are stored, new ones are refused until an admin clears them (see DELETE).
+  if (!secret) {
+    const token = event.verification_token;
+    if (typeof token !== 'string' || !token || token.length > MAX_VERIFICATION_TOKEN_LENGTH) {
+      return NextResponse.json({ error: 'NOTION_WEBHOOK_SECRET is not configured' }, { status: 500 });
+    }
+
+    try {
+      const [{ count }] = await db
+        .select({ count: sql<number>`count(*)::int` })
+        .from(webhookVerifications);
+
+      if (count >= MAX_PENDING_VERIFICATIONS) {
+        return NextResponse.json({ error: 'Too many pending verification tokens' }, { status: 429 });
+      }
+
+      await db.insert(webhookVerifications).values({ token });
+      return NextResponse.json({ success: true });
+    } catch (error) {
+      console.error('Error storing webhook verification token:', error);
+      return NextResponse.json({ error: 'Failed to store verification token' }, { status: 500 });
+    }
+  }
+
+  if (!isValidSignature(body, request.headers.get('x-notion-signature'), secret)) {
+    return NextResponse.json({ error: 'Invalid signature' }, { status: 401 });
+  }
+
+  const notion = getNotionClient();
+
+  if (!notion) {
+    return NextResponse.json(
+      { error: 'NOTION_API_KEY is not configured' },
+      { status: 500 }
+    );
+  }
+
+  const entityId: string | undefined = event.entity?.id;
+
+  try {
+    if (entityId && PAGE_REFRESH_EVENTS.includes(event.type)) {
+      await refreshMirroredPage(notion, entityId);
+    } else if (entityId && event.type === 'page.deleted') {
+      await removeMirroredPage(entityId);
+    } else if (entityId && event.type?.startsWith('database.')) {
+      invalidateDatabase(entityId);
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    // Notion retries failed deliveries
+    console.error('Error handling Notion webhook:', error);
+    return NextResponse.json({ error: 'Failed to handle webhook' }, { status: 500 });
+  }
+}
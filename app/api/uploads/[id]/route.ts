@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getLocalFileStorage, isLocalFileStorage } from '@/lib/file-storage';
+
+const INLINE_TYPES = ['image/png', 'image/jpeg', 'image/gif', 'image/webp', 'application/pdf', 'text/plain'];
+
+// GET /api/uploads/[id] - Serve a file stored by the local storage adapter
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  if (!isLocalFileStorage()) {
+    return NextResponse.json({ error: 'Not found' }, { status: 404 });
+  }
+
+  const file = await getLocalFileStorage().read(params.id);
+
+  if (!file) {
+    return NextResponse.json({ error: 'Not found' }, { status: 404 });
+  }
+
+  // Files are served from the app's origin with the type the uploader gave, so
+  // only types that can't run scripts are shown inline; anything else downloads
+  const inline = INLINE_TYPES.includes(file.contentType.toLowerCase());
+
+  return new NextResponse(new Uint8Array(file.data), {
+    headers: {
+      'Content-Type': inline ? file.contentType : 'application/octet-stream',
+      'Content-Disposition': `${inline ? 'inline' : 'attachment'}; filename="${encodeURIComponent(file.name)}"`,
+      'X-Content-Type-Options': 'nosniff',
+      'Content-Security-Policy': "default-src 'none'; sandbox",
+    },
+  });
+}
@@ -0,0 +1,75 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getCurrentUser } from '@/lib/auth';
+import { getCurrentFormUser } from '@/lib/form-auth';
+import { checkFormAccess } from '@/lib/form-access';
+import { checkFileAllowed, getWritableFields } from '@/lib/form-validation';
+import { getFileStorage, signUpload } from '@/lib/file-storage';
+import { FileConfig } from '@/types/form';
+
+// POST /api/uploads - Upload a file for a files property
+// Multipart body: file, formId, propertyId. Returns the file value to submit with the form.
+export async function POST(request: NextRequest) {
+  const adminUser = await getCurrentUser();
+  const formUser = await getCurrentFormUser();
+
+  if (!adminUser && !formUser) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const body = await request.formData();
+    const file = body.get('file');
+    const formId = body.get('formId');
+    const propertyId = body.get('propertyId');
+
+    if (!file || typeof file === 'string') {
+      return NextResponse.json({ error: 'file is required' }, { status: 400 });
+    }
+
+    const access = await checkFormAccess(
+      typeof formId === 'string' ? formId : null,
+      adminUser,
+      formUser
+    );
+
+    if (!access.allowed) {
+      return NextResponse.json({ error: access.error }, { status: access.status });
+    }
+
+    // Uploads through a form use the field's limits; admin uploads without a form use the defaults
+    let fileConfig: FileConfig | undefined;
+    if (access.form) {
+      const field = getWritableFields(access.form.config.fields).find(
+        f => f.notionPropertyId === propertyId && f.notionPropertyType === 'files'
+      );
+      if (!field) {
+        return NextResponse.json(
+          { error: 'This property does not accept uploads through this form' },
+          { status: 400 }
+        );
+      }
+      fileConfig = field.fileConfig;
+    }
+
+    const error = checkFileAllowed(fileConfig, { name: file.name, type: file.type, size: file.size });
+    if (error) {
+      return NextResponse.json({ error }, { status: 400 });
+    }
+
+    const uploaded = await getFileStorage().upload({
+      name: file.name,
+      contentType: file.type || 'application/octet-stream',
+      data: Buffer.from(await file.arrayBuffer()),
+    });
+
+    return NextResponse.json({
+      file: signUpload(uploaded, access.form?.id || '', typeof propertyId === 'string' ? propertyId : ''),
+    });
+  } catch (error) {
+    console.error('Error uploading file:', error);
+    return NextResponse.json(
+      { error: 'Failed to upload file' },
+      { status: 500 }
+    );
+  }
+}
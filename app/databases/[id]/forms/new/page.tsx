@@ -4,7 +4,14 @@ import { useEffect, useState } from 'react';
 import { useParams, useRouter } from 'next/navigation';
 import Link from 'next/link';
 import TopNav from '@/components/TopNav';
-import { FieldConfig } from '@/types/form';
+import FormulaInput from '@/components/FormulaInput';
+import FieldRuleEditor from '@/components/FieldRuleEditor';
+import SectionEditor from '@/components/SectionEditor';
+import TitleTemplateInput from '@/components/TitleTemplateInput';
+import { FieldConfig, FormSection } from '@/types/form';
+import { validateFormula } from '@/lib/formula';
+import { MAX_UPLOAD_SIZE_MB } from '@/lib/form-validation';
+import { getTimeZones } from '@/lib/date-value';
 import {
   DndContext,
   closestCenter,
@@ -41,8 +48,9 @@ interface FieldConfigState extends Omit<FieldConfig, 'showInList'> {
   enabled: boolean;
   originalName: string;
   options?: { id: string; name: string; color: string }[];
-  defaultValueType?: 'none' | 'static' | 'current_user' | 'current_date' | 'current_time';
+  defaultValueType?: 'none' | 'static' | 'current_user' | 'current_date' | 'current_time' | 'formula';
   defaultValueStatic?: string;
+  defaultValueFormula?: string;
   showInList: boolean;
 }
 
@@ -70,7 +78,7 @@ const TYPE_BADGES: Record<string, string> = {
   unique_id: 'bg-gray-100 text-gray-800',
 };
 
-const READ_ONLY_TYPES = ['formula', 'rollup', 'created_time', 'created_by', 'last_edited_time', 'last_edited_by', 'unique_id'];
+const READ_ONLY_TYPES = ['formula', 'rollup', 'created_time', 'created_by', 'last_edited_time', 'last_edited_by', 'unique_id', 'verification', 'button'];
 
 // Sortable field item component
 function SortableFieldItem({
@@ -79,12 +87,16 @@ function SortableFieldItem({
   onToggle,
   onExpand,
   onUpdate,
+  formFields,
+  columns,
 }: {
   field: FieldConfigState;
   expanded: boolean;
   onToggle: () => void;
   onExpand: () => void;
   onUpdate: (updates: Partial<FieldConfigState>) => void;
+  formFields: FieldConfigState[];
+  columns: number;
 }) {
   const {
     attributes,
@@ -178,6 +190,122 @@ function SortableFieldItem({
             />
           </div>
 
+          {columns > 1 && (
+            <div>
+              <label className="block text-xs font-medium text-gray-600 mb-1">
+                Column span
+              </label>
+              <select
+                value={Math.min(field.columnSpan || 1, columns)}
+                onChange={(e) => onUpdate({ columnSpan: Number(e.target.value) > 1 ? Number(e.target.value) : undefined })}
+                className="w-full px-2 py-1.5 text-sm border rounded focus:ring-1 focus:ring-blue-500"
+              >
+                {Array.from({ length: columns }, (_, i) => i + 1).map(span => (
+                  <option key={span} value={span}>
+                    {span === columns ? 'Full width' : `${span} of ${columns} columns`}
+                  </option>
+                ))}
+              </select>
+            </div>
+          )}
+
+          {field.notionPropertyType === 'files' && (
+            <div className="grid grid-cols-3 gap-2">
+              <div>
+                <label className="block text-xs font-medium text-gray-600 mb-1">
+                  Max size (MB)
+                </label>
+                <input
+                  type="number"
+                  min={1}
+                  max={MAX_UPLOAD_SIZE_MB}
+                  value={field.fileConfig?.maxSizeMb ?? ''}
+                  onChange={(e) => onUpdate({
+                    fileConfig: { ...field.fileConfig, maxSizeMb: e.target.value ? Number(e.target.value) : undefined },
+                  })}
+                  placeholder={String(MAX_UPLOAD_SIZE_MB)}
+                  className="w-full px-2 py-1.5 text-sm border rounded focus:ring-1 focus:ring-blue-500"
+                />
+              </div>
+              <div>
+                <label className="block text-xs font-medium text-gray-600 mb-1">
+                  Max files
+                </label>
+                <input
+                  type="number"
+                  min={1}
+                  value={field.fileConfig?.maxFiles ?? ''}
+                  onChange={(e) => onUpdate({
+                    fileConfig: { ...field.fileConfig, maxFiles: e.target.value ? Number(e.target.value) : undefined },
+                  })}
+                  placeholder="No limit"
+                  className="w-full px-2 py-1.5 text-sm border rounded focus:ring-1 focus:ring-blue-500"
+                />
+              </div>
+              <div>
+                <label className="block text-xs font-medium text-gray-600 mb-1">
+                  Allowed types
+                </label>
+                <input
+                  type="text"
+                  value={field.fileConfig?.allowedTypes?.join(', ') || ''}
+                  onChange={(e) => onUpdate({
+                    fileConfig: {
+                      ...field.fileConfig,
+                      allowedTypes: e.target.value ? e.target.value.split(',').map(t => t.trim()) : undefined,
+                    },
+                  })}
+                  placeholder="image/*, .pdf"
+                  className="w-full px-2 py-1.5 text-sm border rounded focus:ring-1 focus:ring-blue-500"
+                />
+              </div>
+            </div>
+          )}
+
+          {field.notionPropertyType === 'date' && (
+            <div className="space-y-2">
+              <div className="flex flex-wrap gap-4">
+                <label className="flex items-center gap-2 text-sm">
+                  <input
+                    type="checkbox"
+                    checked={!!field.dateConfig?.includeTime}
+                    onChange={(e) => onUpdate({ dateConfig: { ...field.dateConfig, includeTime: e.target.checked } })}
+                    className="h-4 w-4 text-blue-600 rounded"
+                  />
+                  Include time
+                </label>
+                <label className="flex items-center gap-2 text-sm">
+                  <input
+                    type="checkbox"
+                    checked={!!field.dateConfig?.range}
+                    onChange={(e) => onUpdate({ dateConfig: { ...field.dateConfig, range: e.target.checked } })}
+                    className="h-4 w-4 text-blue-600 rounded"
+                  />
+                  End date
+                </label>
+              </div>
+              {field.dateConfig?.includeTime && (
+                <div>
+                  <label className="block text-xs font-medium text-gray-600 mb-1">
+                    Time zone
+                  </label>
+                  <select
+                    value={field.dateConfig?.timeZone || ''}
+                    onChange={(e) => onUpdate({
+                      dateConfig: { ...field.dateConfig, timeZone: e.target.value || undefined },
+                    })}
+                    className="w-full px-2 py-1.5 text-sm border rounded focus:ring-1 focus:ring-blue-500"
+                  >
+                    <option value="">Submitter&apos;s time zone</option>
+                    {getTimeZones().map(zone => (
+                      <option key={zone} value={zone}>{zone}</option>
+                    ))}
+                  </select>
+                </div>
+              )}
+            </div>
+          )}
+
           <div className="flex flex-wrap gap-4">
             <label className="flex items-center gap-2 text-sm">
               <input
@@ -210,6 +338,21 @@ function SortableFieldItem({
             </label>
           </div>
 
+          <div className="border-t pt-3 mt-3 space-y-3">
+            <FieldRuleEditor
+              label="Show only when"
+              rule={field.visibleWhen}
+              onChange={(rule) => onUpdate({ visibleWhen: rule })}
+              fields={formFields.filter(f => f.notionPropertyId !== field.notionPropertyId)}
+            />
+            <FieldRuleEditor
+              label="Required when"
+              rule={field.requiredWhen}
+              onChange={(rule) => onUpdate({ requiredWhen: rule })}
+              fields={formFields.filter(f => f.notionPropertyId !== field.notionPropertyId)}
+            />
+          </div>
+
           <div className="border-t pt-3 mt-3">
             <label className="block text-xs font-medium text-gray-600 mb-1">
               Default Value
@@ -224,6 +367,7 @@ function SortableFieldItem({
             >
               <option value="none">No default</option>
               <option value="static">Static value</option>
+              <option value="formula">Formula</option>
               {field.notionPropertyType === 'people' && (
                 <option value="current_user">Current user</option>
               )}
@@ -273,11 +417,19 @@ function SortableFieldItem({
               <p className="text-xs text-gray-500 mt-1">Will be set to the logged-in user</p>
             )}
             {field.defaultValueType === 'current_date' && (
-              <p className="text-xs text-gray-500 mt-1">Will be set to today's date</p>
+              <p className="text-xs text-gray-500 mt-1">Will be set to today&apos;s date</p>
             )}
             {field.defaultValueType === 'current_time' && (
               <p className="text-xs text-gray-500 mt-1">Will be set to current date and time</p>
             )}
+            {field.defaultValueType === 'formula' && (
+              <FormulaInput
+                value={field.defaultValueFormula || ''}
+                onChange={(value) => onUpdate({ defaultValueFormula: value })}
+                fieldType={field.notionPropertyType}
+                fields={formFields}
+              />
+            )}
           </div>
         </div>
       )}
@@ -335,9 +487,15 @@ export default function NewFormPage() {
   // Capabilities
   const [allowCreate, setAllowCreate] = useState(true);
   const [allowEdit, setAllowEdit] = useState(false);
+  const [allowDelete, setAllowDelete] = useState(false);
   const [allowList, setAllowList] = useState(false);
   const [listPageSize, setListPageSize] = useState(20);
 
+  // Layout: sections make the form a multi-step wizard
+  const [sections, setSections] = useState<FormSection[]>([]);
+  const [layoutColumns, setLayoutColumns] = useState(1);
+  const [titleTemplate, setTitleTemplate] = useState('');
+
   // Display titles
   const [listTitle, setListTitle] = useState('');
   const [createTitle, setCreateTitle] = useState('');
@@ -435,7 +593,7 @@ export default function NewFormPage() {
     name: formName,
     description: formDescription,
     databaseId: params.id,
-    fields: enabledFields.map(({ enabled, originalName, defaultValueType, defaultValueStatic, options, ...field }) => {
+    fields: enabledFields.map(({ enabled, originalName, defaultValueType, defaultValueStatic, defaultValueFormula, options, ...field }) => {
       let defaultValue = undefined;
       if (defaultValueType === 'static' && defaultValueStatic) {
         defaultValue = { type: 'static' as const, value: defaultValueStatic };
@@ -445,15 +603,24 @@ export default function NewFormPage() {
         defaultValue = { type: 'function' as const, name: 'today' as const };
       } else if (defaultValueType === 'current_time') {
         defaultValue = { type: 'function' as const, name: 'now' as const };
+      } else if (defaultValueType === 'formula' && defaultValueFormula?.trim()) {
+        defaultValue = { type: 'formula' as const, expression: defaultValueFormula.trim() };
       }
       return { ...field, defaultValue, options };
     }),
     permissions: {
       allowCreate,
       allowEdit,
+      allowDelete,
       allowList,
     },
     listConfig: allowList ? { pageSize: listPageSize } : undefined,
+    layout: {
+      showTitle: true,
+      sections: sections.length > 0 ? sections : undefined,
+      columns: layoutColumns > 1 ? layoutColumns : undefined,
+      titleTemplate: titleTemplate.trim() || undefined,
+    },
     displayTitles: {
       listTitle: listTitle || undefined,
       createTitle: createTitle || undefined,
@@ -463,6 +630,17 @@ export default function NewFormPage() {
 
   const handleSave = async () => {
     const formConfig = getFormConfig();
+
+    // Don't save formula defaults that would fail when the form opens
+    const invalidFormula = enabledFields
+      .filter(f => f.defaultValueType === 'formula' && f.defaultValueFormula?.trim())
+      .map(f => ({ field: f, error: validateFormula(f.defaultValueFormula!, enabledFields) }))
+      .find(r => r.error);
+    if (invalidFormula) {
+      alert(`Invalid formula for "${invalidFormula.field.label}": ${invalidFormula.error}`);
+      return;
+    }
+
     setSaving(true);
 
     try {
@@ -480,11 +658,11 @@ export default function NewFormPage() {
             filters: [],
             sorts: [],
             pageSize: formConfig.listConfig?.pageSize || 20,
-            layout: { showTitle: true },
+            layout: formConfig.layout,
             permissions: {
               allowCreate: formConfig.permissions.allowCreate,
               allowEdit: formConfig.permissions.allowEdit,
-              allowDelete: false,
+              allowDelete: formConfig.permissions.allowDelete,
               allowList: formConfig.permissions.allowList,
             },
             listConfig: formConfig.listConfig,
@@ -637,6 +815,15 @@ export default function NewFormPage() {
                         />
                         Allow Edit (modify existing records)
                       </label>
+                      <label className="flex items-center gap-2 text-sm">
+                        <input
+                          type="checkbox"
+                          checked={allowDelete}
+                          onChange={(e) => setAllowDelete(e.target.checked)}
+                          className="h-4 w-4 text-blue-600 rounded"
+                        />
+                        Allow Delete (archive records in Notion)
+                      </label>
                       <label className="flex items-center gap-2 text-sm">
                         <input
                           type="checkbox"
@@ -727,6 +914,61 @@ export default function NewFormPage() {
                       )}
                     </div>
                   </div>
+
+                  {/* Layout */}
+                  <div className="border-t pt-4 mt-4">
+                    <label className="flex items-center gap-2 text-sm font-medium text-gray-700 mb-2">
+                      <input
+                        type="checkbox"
+                        checked={sections.length > 0}
+                        onChange={(e) => setSections(e.target.checked
+                          ? [{ id: `section-${Date.now().toString(36)}`, title: 'Step 1', fieldIds: enabledFields.map(f => f.notionPropertyId) }]
+                          : []
+                        )}
+                        className="h-4 w-4 text-blue-600 rounded"
+                      />
+                      Multi-step wizard
+                    </label>
+                    <p className="text-xs text-gray-500 mb-3">
+                      Split the form into titled steps with Next/Back navigation and a final review step. Drag fields between sections.
+                    </p>
+                    {sections.length > 0 && (
+                      <SectionEditor
+                        sections={sections}
+                        onChange={setSections}
+                        fields={enabledFields}
+                      />
+                    )}
+
+                    <div className="mt-4">
+                      <label className="block text-xs font-medium text-gray-600 mb-1">
+                        Columns
+                      </label>
+                      <select
+                        value={layoutColumns}
+                        onChange={(e) => setLayoutColumns(Number(e.target.value))}
+                        className="w-full px-2 py-1.5 text-sm border rounded focus:ring-1 focus:ring-blue-500"
+                      >
+                        {[1, 2, 3, 4].map(n => (
+                          <option key={n} value={n}>{n === 1 ? 'Single column' : `${n} columns`}</option>
+                        ))}
+                      </select>
+                      <p className="text-xs text-gray-500 mt-1">
+                        Fields can span several columns (set per field). Forms stack to one column on small screens.
+                      </p>
+                    </div>
+
+                    <div className="mt-4">
+                      <label className="block text-xs font-medium text-gray-600 mb-1">
+                        Title template
+                      </label>
+                      <TitleTemplateInput
+                        value={titleTemplate}
+                        onChange={setTitleTemplate}
+                        fields={enabledFields}
+                      />
+                    </div>
+                  </div>
                 </div>
               </div>
 
@@ -761,6 +1003,8 @@ export default function NewFormPage() {
                               expandedField === field.notionPropertyId ? null : field.notionPropertyId
                             )}
                             onUpdate={(updates) => updateField(field.notionPropertyId, updates)}
+                            formFields={enabledFields}
+                            columns={layoutColumns}
                           />
                         ))}
                       </div>
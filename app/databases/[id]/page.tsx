@@ -4,6 +4,7 @@ import { useEffect, useState } from 'react';
 import { useParams, useRouter } from 'next/navigation';
 import Link from 'next/link';
 import TopNav from '@/components/TopNav';
+import MirrorSettings from '@/components/MirrorSettings';
 
 interface Property {
   id: string;
@@ -130,6 +131,8 @@ export default function DatabaseSchemaPage() {
               </div>
             </div>
 
+            <MirrorSettings databaseId={database.id} />
+
             <h2 className="text-xl font-semibold dark:text-gray-100 mb-4">
               Properties ({database.properties.length})
             </h2>
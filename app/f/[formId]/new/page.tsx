@@ -5,10 +5,16 @@ import { useParams, useRouter } from 'next/navigation';
 import Link from 'next/link';
 import FormRenderer from '@/components/FormRenderer';
 import { ThemeToggle } from '@/components/ThemeProvider';
-import { FieldConfig } from '@/types/form';
+import { FieldValidationError } from '@/lib/form-validation';
+import { FieldConfig, FormSection } from '@/types/form';
 
 interface FormConfig {
   fields: FieldConfig[];
+  layout?: {
+    sections?: FormSection[];
+    columns?: number;
+    titleTemplate?: string;
+  };
   permissions?: {
     allowCreate?: boolean;
     allowEdit?: boolean;
@@ -42,6 +48,7 @@ export default function StandaloneCreatePage() {
   const [form, setForm] = useState<FormData | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const [needsSignIn, setNeedsSignIn] = useState(false);
   const [currentUser, setCurrentUser] = useState<CurrentUser | null>(null);
   const [submitted, setSubmitted] = useState(false);
   const [createdPageUrl, setCreatedPageUrl] = useState<string | null>(null);
@@ -54,6 +61,7 @@ export default function StandaloneCreatePage() {
         const data = await response.json();
 
         if (!response.ok) {
+          setNeedsSignIn(response.status === 401);
           throw new Error(data.error || 'Form not found');
         }
 
@@ -95,8 +103,9 @@ export default function StandaloneCreatePage() {
     if (!form) return;
 
     try {
+      // Only visible, editable fields can be written through the form
       const fields = form.config.fields
-        .filter((field) => formData[field.notionPropertyId] !== undefined)
+        .filter((field) => field.visible !== false && field.editable !== false && formData[field.notionPropertyId] !== undefined)
         .map((field) => ({
           propertyId: field.notionPropertyId,
           propertyType: field.notionPropertyType,
@@ -107,7 +116,7 @@ export default function StandaloneCreatePage() {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
-          databaseId: form.databaseId,
+          formId: form.id,
           fields,
         }),
       });
@@ -115,12 +124,16 @@ export default function StandaloneCreatePage() {
       const result = await response.json();
 
       if (!response.ok) {
+        if (result.fieldErrors) {
+          throw new FieldValidationError(result.error, result.fieldErrors);
+        }
         throw new Error(result.error || 'Failed to create record');
       }
 
       setCreatedPageUrl(result.url);
       setSubmitted(true);
     } catch (err) {
+      if (err instanceof FieldValidationError) throw err;
       alert(err instanceof Error ? err.message : 'Failed to create record');
     }
   };
@@ -143,12 +156,21 @@ export default function StandaloneCreatePage() {
             <div className="text-red-500 dark:text-red-400 text-5xl mb-4">!</div>
             <h1 className="text-xl font-bold text-gray-900 dark:text-gray-100 mb-2">Error</h1>
             <p className="text-gray-600 dark:text-gray-400 mb-4">{error}</p>
-            <Link
-              href={`/f/${params.formId}`}
-              className="text-blue-600 hover:text-blue-800 dark:text-blue-400 dark:hover:text-blue-300 text-sm"
-            >
-              Go to form
-            </Link>
+            {needsSignIn ? (
+              <Link
+                href="/forms/login"
+                className="text-blue-600 hover:text-blue-800 dark:text-blue-400 dark:hover:text-blue-300 text-sm"
+              >
+                Sign in
+              </Link>
+            ) : (
+              <Link
+                href={`/f/${params.formId}`}
+                className="text-blue-600 hover:text-blue-800 dark:text-blue-400 dark:hover:text-blue-300 text-sm"
+              >
+                Go to form
+              </Link>
+            )}
           </div>
         </div>
       </main>
@@ -242,6 +264,9 @@ export default function StandaloneCreatePage() {
             onSubmit={handleCreate}
             submitLabel="Create"
             currentUser={currentUser || undefined}
+            formId={form.id}
+            sections={form.config.layout?.sections}
+            columns={form.config.layout?.columns}
           />
         </div>
 
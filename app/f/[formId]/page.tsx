@@ -1,19 +1,29 @@
 'use client';
 
-import { useEffect, useState, useCallback } from 'react';
+import { useEffect, useState, useCallback, useMemo, useRef } from 'react';
 import { useParams, useSearchParams, useRouter } from 'next/navigation';
+import Link from 'next/link';
 import FormRenderer from '@/components/FormRenderer';
 import ListRenderer from '@/components/ListRenderer';
 import SlideOver from '@/components/SlideOver';
 import CommentsPanel from '@/components/CommentsPanel';
 import { ThemeToggle } from '@/components/ThemeProvider';
-import { FieldConfig, DesignTimeFilter, ListConfig } from '@/types/form';
+import { EditConflictError, FieldValidationError, toFormValue } from '@/lib/form-validation';
+import { renderTitleTemplate } from '@/lib/title-template';
+import { parseFiltersParam, serializeFilters } from '@/lib/list-filters';
+import { FieldConfig, DesignTimeFilter, ListConfig, FormSection, EditBase, FieldConflict } from '@/types/form';
 
 interface FormConfig {
   fields: FieldConfig[];
+  layout?: {
+    sections?: FormSection[];
+    columns?: number;
+    titleTemplate?: string;
+  };
   permissions?: {
     allowCreate?: boolean;
     allowEdit?: boolean;
+    allowDelete?: boolean;
     allowList?: boolean;
   };
   listConfig?: ListConfig;
@@ -40,6 +50,7 @@ interface CurrentUser {
 
 interface EditingRecord {
   id: string;
+  lastEditedTime: string;
   properties: Record<string, { type: string; value: any }>;
 }
 
@@ -51,12 +62,16 @@ export default function PublicFormPage() {
   const [form, setForm] = useState<FormData | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const [needsSignIn, setNeedsSignIn] = useState(false);
   const [currentUser, setCurrentUser] = useState<CurrentUser | null>(null);
 
   // Slide-over state
   const [slideOverMode, setSlideOverMode] = useState<'create' | 'edit' | null>(null);
   const [editingRecord, setEditingRecord] = useState<EditingRecord | null>(null);
   const [loadingRecord, setLoadingRecord] = useState(false);
+  const [createDefaults, setCreateDefaults] = useState<Record<string, any> | undefined>(undefined);  // e.g. the calendar day clicked
+  // What the current edit is based on, once a conflict has moved it past the loaded record
+  const editBaseRef = useRef<EditBase | null>(null);
 
   // Success state for non-list forms
   const [submitted, setSubmitted] = useState(false);
@@ -67,6 +82,10 @@ export default function PublicFormPage() {
   // Derived state from URL
   const editId = searchParams.get('edit');
   const isNewMode = searchParams.get('new') === 'true';
+  const filtersParam = searchParams.get('filters');
+  const userFilters = useMemo(() => parseFiltersParam(filtersParam) || [], [filtersParam]);
+  const listSearch = searchParams.get('q') || '';
+  const viewParam = searchParams.get('view');
 
   // Fetch form config
   useEffect(() => {
@@ -76,6 +95,7 @@ export default function PublicFormPage() {
         const data = await response.json();
 
         if (!response.ok) {
+          setNeedsSignIn(response.status === 401);
           throw new Error(data.error || 'Form not found');
         }
 
@@ -131,15 +151,17 @@ export default function PublicFormPage() {
   const fetchRecordForEdit = async (recordId: string) => {
     setLoadingRecord(true);
     try {
-      const response = await fetch(`/api/notion/pages/${recordId}`);
+      const response = await fetch(`/api/notion/pages/${recordId}?form_id=${params.formId}`);
       const data = await response.json();
 
       if (!response.ok) {
         throw new Error(data.error || 'Failed to fetch record');
       }
 
+      editBaseRef.current = null;
       setEditingRecord({
         id: data.id,
+        lastEditedTime: data.lastEditedTime,
         properties: data.properties,
       });
     } catch (err) {
@@ -150,17 +172,51 @@ export default function PublicFormPage() {
     }
   };
 
-  // Navigation helpers
-  const openCreate = () => {
-    router.push(`/f/${params.formId}?new=true`);
+  // Navigation helpers. The list's ad-hoc filters, search and view stay in the URL so views can be shared.
+  const formUrl = (
+    extra: Record<string, string> = {},
+    filters: string | null = filtersParam,
+    search: string = listSearch,
+    view: string | null = viewParam
+  ) => {
+    const query = new URLSearchParams(extra);
+    if (filters) {
+      query.set('filters', filters);
+    }
+    if (search) {
+      query.set('q', search);
+    }
+    if (view) {
+      query.set('view', view);
+    }
+    const queryString = query.toString();
+    return `/f/${params.formId}${queryString ? `?${queryString}` : ''}`;
+  };
+
+  const openCreate = (defaults?: Record<string, any>) => {
+    setCreateDefaults(defaults);
+    router.push(formUrl({ new: 'true' }));
   };
 
   const openEdit = (recordId: string) => {
-    router.push(`/f/${params.formId}?edit=${recordId}`);
+    router.push(formUrl({ edit: recordId }));
   };
 
   const closeSlideOver = () => {
-    router.push(`/f/${params.formId}`);
+    router.push(formUrl());
+  };
+
+  const updateUserFilters = (filters: DesignTimeFilter[]) => {
+    router.replace(formUrl({}, filters.length > 0 ? serializeFilters(filters) : null));
+  };
+
+  const updateListSearch = (search: string) => {
+    router.replace(formUrl({}, filtersParam, search));
+  };
+
+  const updateListView = (view: ListConfig['view']) => {
+    // The form's default view doesn't need to be in the URL
+    router.replace(formUrl({}, filtersParam, listSearch, view === (form?.config.listConfig?.view || 'table') ? null : view));
   };
 
   // Submit handlers
@@ -168,8 +224,9 @@ export default function PublicFormPage() {
     if (!form) return;
 
     try {
+      // Only visible, editable fields can be written through the form
       const fields = form.config.fields
-        .filter((field) => formData[field.notionPropertyId] !== undefined)
+        .filter((field) => field.visible !== false && field.editable !== false && formData[field.notionPropertyId] !== undefined)
         .map((field) => ({
           propertyId: field.notionPropertyId,
           propertyType: field.notionPropertyType,
@@ -180,7 +237,7 @@ export default function PublicFormPage() {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
-          databaseId: form.databaseId,
+          formId: form.id,
           fields,
         }),
       });
@@ -188,6 +245,9 @@ export default function PublicFormPage() {
       const result = await response.json();
 
       if (!response.ok) {
+        if (result.fieldErrors) {
+          throw new FieldValidationError(result.error, result.fieldErrors);
+        }
         throw new Error(result.error || 'Failed to create record');
       }
 
@@ -200,31 +260,67 @@ export default function PublicFormPage() {
         setSubmitted(true);
       }
     } catch (err) {
+      if (err instanceof FieldValidationError) throw err;
       alert(err instanceof Error ? err.message : 'Failed to create record');
     }
   };
 
-  const handleEdit = async (formData: Record<string, any>) => {
+  const handleEdit = async (formData: Record<string, any>, changedIds: string[]) => {
     if (!form || !editingRecord) return;
 
     try {
+      // Only changed fields are sent, so the rest of the record is left as it is;
+      // a field that was emptied is sent as null to clear it
       const fields = form.config.fields
-        .filter((field) => field.visible !== false && formData[field.notionPropertyId] !== undefined)
+        .filter((field) => field.visible !== false && field.editable !== false && changedIds.includes(field.notionPropertyId))
         .map((field) => ({
           propertyId: field.notionPropertyId,
           propertyType: field.notionPropertyType,
-          value: formData[field.notionPropertyId],
+          value: formData[field.notionPropertyId] ?? null,
         }));
 
+      if (fields.length === 0) {
+        closeSlideOver();
+        return;
+      }
+
+      // The values the edit started from, so changes made meanwhile aren't overwritten
+      const base: EditBase = editBaseRef.current || {
+        lastEditedTime: editingRecord.lastEditedTime,
+        values: getEditInitialData(),
+      };
+
       const response = await fetch(`/api/notion/pages/${editingRecord.id}`, {
         method: 'PATCH',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ fields }),
+        body: JSON.stringify({ formId: form.id, fields, base }),
       });
 
       const result = await response.json();
 
       if (!response.ok) {
+        if (result.fieldErrors) {
+          throw new FieldValidationError(result.error, result.fieldErrors);
+        }
+        if (response.status === 409 && result.conflicts) {
+          const getType = (propertyId: string) =>
+            form.config.fields.find(f => f.notionPropertyId === propertyId)?.notionPropertyType || '';
+          const toFormValues = (values: Record<string, any>) => Object.fromEntries(
+            Object.entries(values || {}).map(([id, value]) => [id, toFormValue(getType(id), value)])
+          );
+
+          // The next attempt is based on the record as it is now
+          editBaseRef.current = {
+            lastEditedTime: result.current.lastEditedTime,
+            values: toFormValues(result.current.values),
+          };
+          const conflicts: FieldConflict[] = result.conflicts.map((conflict: FieldConflict) => ({
+            ...conflict,
+            base: toFormValue(getType(conflict.propertyId), conflict.base),
+            theirs: toFormValue(getType(conflict.propertyId), conflict.theirs),
+          }));
+          throw new EditConflictError(result.error, conflicts, toFormValues(result.updates));
+        }
         throw new Error(result.error || 'Failed to update record');
       }
 
@@ -232,10 +328,34 @@ export default function PublicFormPage() {
       closeSlideOver();
       setListKey((k) => k + 1);
     } catch (err) {
+      if (err instanceof FieldValidationError || err instanceof EditConflictError) throw err;
       alert(err instanceof Error ? err.message : 'Failed to update record');
     }
   };
 
+  // Archive the record being edited
+  const handleDelete = async () => {
+    if (!form || !editingRecord) return;
+    if (!confirm('Are you sure you want to delete this record? It will be archived in Notion.')) return;
+
+    try {
+      const response = await fetch(`/api/notion/pages/${editingRecord.id}?form_id=${form.id}`, {
+        method: 'DELETE',
+      });
+
+      const result = await response.json();
+
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to delete record');
+      }
+
+      closeSlideOver();
+      setListKey((k) => k + 1);
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Failed to delete record');
+    }
+  };
+
   // Build initial form data from record for editing
   const getEditInitialData = (): Record<string, any> => {
     if (!editingRecord || !form) return {};
@@ -244,24 +364,102 @@ export default function PublicFormPage() {
     form.config.fields.forEach((field) => {
       const prop = editingRecord.properties[field.notionPropertyId];
       if (prop) {
-        initialData[field.notionPropertyId] = prop.value;
+        initialData[field.notionPropertyId] = toFormValue(field.notionPropertyType, prop.value);
       }
     });
     return initialData;
   };
 
-  // Get columns for list view
+  // Slide-over header for the record being edited, from layout.titleTemplate
+  const getEditTitle = (): string => {
+    const template = form?.config.layout?.titleTemplate;
+    if (template && editingRecord) {
+      const values: Record<string, any> = {};
+      Object.entries(editingRecord.properties).forEach(([id, prop]) => {
+        values[id] = prop.value;
+      });
+      const title = renderTitleTemplate(template, form.config.fields, values);
+      if (title) return title;
+    }
+    return form?.config.displayTitles?.editTitle || 'Edit Record';
+  };
+
+  // Properties list viewers can filter on: everything the form shows them
+  const getFilterProperties = () => {
+    if (!form) return [];
+    return form.config.fields
+      .filter((f) => f.visible !== false)
+      .map((f) => ({
+        propertyId: f.notionPropertyId,
+        label: f.label,
+        type: f.notionPropertyType,
+        options: (f as FieldConfig & { options?: { name: string }[] }).options,
+      }));
+  };
+
+  // Get columns for list view. Fields the form lets users write to can be edited inline.
   const getListColumns = () => {
     if (!form) return [];
+    const canEdit = form.config.permissions?.allowEdit === true;
     return form.config.fields
       .filter((f) => f.showInList)
       .map((f) => ({
         propertyId: f.notionPropertyId,
         label: f.label,
         type: f.notionPropertyType,
+        field: canEdit && f.visible !== false && f.editable !== false ? f : undefined,
       }));
   };
 
+  // Board settings for the list: the group-by field's options become the columns
+  const getListBoard = () => {
+    const boardConfig = form?.config.listConfig?.board;
+    if (!form || !boardConfig) return undefined;
+
+    const fields = form.config.fields.filter((f) => f.visible !== false);
+    const groupByField = fields.find((f) => f.notionPropertyId === boardConfig.groupByPropertyId);
+    if (!groupByField || !['select', 'status'].includes(groupByField.notionPropertyType)) return undefined;
+
+    const toColumn = (f: FieldConfig) => ({
+      propertyId: f.notionPropertyId,
+      label: f.label,
+      type: f.notionPropertyType,
+    });
+    const groupByOptions = (groupByField as FieldConfig & { options?: { name: string; color?: string }[] }).options || [];
+    const canMove = form.config.permissions?.allowEdit === true && groupByField.editable !== false;
+
+    return {
+      groupBy: { ...toColumn(groupByField), field: canMove ? groupByField : undefined },
+      options: groupByOptions,
+      cardColumns: boardConfig.cardFieldIds
+        .map((id) => fields.find((f) => f.notionPropertyId === id))
+        .filter((f): f is FieldConfig => !!f)
+        .map(toColumn),
+    };
+  };
+
+  // Calendar settings for the list
+  const getListCalendar = () => {
+    const calendarConfig = form?.config.listConfig?.calendar;
+    if (!form || !calendarConfig) return undefined;
+
+    const dateField = form.config.fields.find((f) =>
+      f.notionPropertyId === calendarConfig.datePropertyId && f.visible !== false && f.notionPropertyType === 'date'
+    );
+    if (!dateField) return undefined;
+
+    const canMove = form.config.permissions?.allowEdit === true && dateField.editable !== false;
+
+    return {
+      dateColumn: {
+        propertyId: dateField.notionPropertyId,
+        label: dateField.label,
+        type: dateField.notionPropertyType,
+        field: canMove ? dateField : undefined,
+      },
+    };
+  };
+
   // Loading state
   if (loading) {
     return (
@@ -278,8 +476,18 @@ export default function PublicFormPage() {
         <div className="max-w-md w-full mx-4">
           <div className="bg-white dark:bg-gray-800 rounded-lg border dark:border-gray-700 p-8 text-center transition-colors">
             <div className="text-red-500 dark:text-red-400 text-5xl mb-4">!</div>
-            <h1 className="text-xl font-bold text-gray-900 dark:text-gray-100 mb-2">Form Not Found</h1>
+            <h1 className="text-xl font-bold text-gray-900 dark:text-gray-100 mb-2">
+              {needsSignIn ? 'Sign In Required' : 'Form Not Found'}
+            </h1>
             <p className="text-gray-600 dark:text-gray-400">{error}</p>
+            {needsSignIn && (
+              <Link
+                href="/forms/login"
+                className="inline-block mt-4 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
+              >
+                Sign in
+              </Link>
+            )}
           </div>
         </div>
       </main>
@@ -289,8 +497,8 @@ export default function PublicFormPage() {
   if (!form) return null;
 
   const { permissions = {}, listConfig, displayTitles = {} } = form.config;
-  const { allowCreate = true, allowEdit = false, allowList = false } = permissions;
-  const { listTitle, createTitle, editTitle } = displayTitles;
+  const { allowCreate = true, allowEdit = false, allowDelete = false, allowList = false } = permissions;
+  const { listTitle, createTitle } = displayTitles;
 
   // Success state for create-only forms
   if (submitted && !allowList) {
@@ -320,6 +528,11 @@ export default function PublicFormPage() {
   // List view mode
   if (allowList) {
     const columns = getListColumns();
+    const listBoard = getListBoard();
+    const listCalendar = getListCalendar();
+    const listView = viewParam === 'table' || viewParam === 'board' || viewParam === 'calendar'
+      ? viewParam
+      : listConfig?.view || 'table';
 
     return (
       <main className="min-h-screen bg-gray-50 dark:bg-gray-900 py-8 px-4 md:px-8 transition-colors">
@@ -340,14 +553,27 @@ export default function PublicFormPage() {
             <ListRenderer
               key={listKey}
               databaseId={form.databaseId}
+              formId={form.id}
               columns={columns}
               filters={listConfig?.filters || []}
+              userFilters={userFilters}
+              onUserFiltersChange={updateUserFilters}
+              search={listSearch}
+              onSearchChange={updateListSearch}
+              filterProperties={getFilterProperties()}
               pageSize={listConfig?.pageSize || 20}
               defaultSort={listConfig?.defaultSort}
               allowEdit={allowEdit}
               allowCreate={allowCreate}
+              allowDelete={allowDelete}
               onEditClick={openEdit}
+              titleTemplate={form.config.layout?.titleTemplate}
+              templateFields={form.config.fields}
               onCreateClick={openCreate}
+              view={listView}
+              onViewChange={updateListView}
+              board={listBoard}
+              calendar={listCalendar}
             />
           </div>
 
@@ -370,6 +596,10 @@ export default function PublicFormPage() {
               onSubmit={handleCreate}
               submitLabel="Create"
               currentUser={currentUser || undefined}
+              formId={form.id}
+              initialData={createDefaults}
+              sections={form.config.layout?.sections}
+              columns={form.config.layout?.columns}
             />
           )}
         </SlideOver>
@@ -378,7 +608,7 @@ export default function PublicFormPage() {
         <SlideOver
           isOpen={slideOverMode === 'edit'}
           onClose={closeSlideOver}
-          title={editTitle || 'Edit Record'}
+          title={getEditTitle()}
         >
           {loadingRecord ? (
             <div className="flex items-center justify-center py-12">
@@ -392,9 +622,22 @@ export default function PublicFormPage() {
                 onSubmit={handleEdit}
                 submitLabel="Save Changes"
                 currentUser={currentUser || undefined}
+                formId={form.id}
                 initialData={getEditInitialData()}
+                columns={form.config.layout?.columns}
               />
-              <CommentsPanel pageId={editingRecord.id} />
+              {allowDelete && (
+                <div className="mt-6 pt-4 border-t dark:border-gray-700 flex justify-end">
+                  <button
+                    type="button"
+                    onClick={handleDelete}
+                    className="px-3 py-1.5 text-sm font-medium text-red-600 dark:text-red-400 hover:bg-red-50 dark:hover:bg-red-900/30 rounded-lg transition-colors"
+                  >
+                    Delete record
+                  </button>
+                </div>
+              )}
+              <CommentsPanel pageId={editingRecord.id} formId={form.id} />
             </>
           ) : null}
         </SlideOver>
@@ -416,6 +659,9 @@ export default function PublicFormPage() {
             fields={form.config.fields}
             onSubmit={handleCreate}
             currentUser={currentUser || undefined}
+            formId={form.id}
+            sections={form.config.layout?.sections}
+            columns={form.config.layout?.columns}
           />
         </div>
 
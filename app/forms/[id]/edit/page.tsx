@@ -4,7 +4,17 @@ import { useEffect, useState } from 'react';
 import { useParams, useRouter } from 'next/navigation';
 import Link from 'next/link';
 import TopNav from '@/components/TopNav';
-import { FieldConfig, DesignTimeFilter } from '@/types/form';
+import FormulaInput from '@/components/FormulaInput';
+import FieldRuleEditor from '@/components/FieldRuleEditor';
+import SectionEditor from '@/components/SectionEditor';
+import TitleTemplateInput from '@/components/TitleTemplateInput';
+import FilterTreeEditor from '@/components/FilterTreeEditor';
+import SubmissionLog from '@/components/SubmissionLog';
+import ImportWizard from '@/components/ImportWizard';
+import { BoardConfig, CalendarConfig, FieldConfig, FilterNode, FormAccess, ListConfig, OwnerScope, FormSection } from '@/types/form';
+import { validateFormula } from '@/lib/formula';
+import { MAX_UPLOAD_SIZE_MB } from '@/lib/form-validation';
+import { getTimeZones } from '@/lib/date-value';
 import {
   DndContext,
   closestCenter,
@@ -38,23 +48,40 @@ interface Database {
   properties: Property[];
 }
 
+interface WorkspaceUser {
+  id: string;
+  name: string;
+  email: string | null;
+}
+
 interface FormConfigData {
   id: string;
   name: string;
   description: string | null;
   databaseId: string;
   mode: string;
+  access?: FormAccess;
   config: {
     fields: FieldConfig[];
     permissions?: {
       allowCreate?: boolean;
       allowEdit?: boolean;
+      allowDelete?: boolean;
       allowList?: boolean;
     };
     listConfig?: {
       pageSize?: number;
-      filters?: DesignTimeFilter[];
+      filters?: FilterNode[];
       defaultSort?: { propertyId: string; direction: 'ascending' | 'descending' };
+      view?: ListConfig['view'];
+      board?: BoardConfig;
+      calendar?: CalendarConfig;
+    };
+    ownerScope?: OwnerScope;
+    layout?: {
+      sections?: FormSection[];
+      columns?: number;
+      titleTemplate?: string;
     };
   };
 }
@@ -63,8 +90,9 @@ interface FieldConfigState extends Omit<FieldConfig, 'showInList'> {
   enabled: boolean;
   originalName: string;
   options?: { id: string; name: string; color: string }[];
-  defaultValueType?: 'none' | 'static' | 'current_user' | 'current_date' | 'current_time';
+  defaultValueType?: 'none' | 'static' | 'current_user' | 'current_date' | 'current_time' | 'formula';
   defaultValueStatic?: string;
+  defaultValueFormula?: string;
   showInList: boolean;
   relationDatabaseId?: string;
 }
@@ -93,7 +121,14 @@ const TYPE_BADGES: Record<string, string> = {
   unique_id: 'bg-gray-100 text-gray-800',
 };
 
-const READ_ONLY_TYPES = ['formula', 'rollup', 'created_time', 'created_by', 'last_edited_time', 'last_edited_by', 'unique_id'];
+// Split a textarea of emails/domains on newlines and commas
+function splitList(value: string): string[] {
+  return value.split(/[\n,]/).map(v => v.trim()).filter(Boolean);
+}
+
+const OWNER_PROPERTY_TYPES = ['people', 'created_by', 'email'];
+
+const READ_ONLY_TYPES = ['formula', 'rollup', 'created_time', 'created_by', 'last_edited_time', 'last_edited_by', 'unique_id', 'verification', 'button'];
 
 // Sortable field item component
 function SortableFieldItem({
@@ -102,12 +137,16 @@ function SortableFieldItem({
   onToggle,
   onExpand,
   onUpdate,
+  formFields,
+  columns,
 }: {
   field: FieldConfigState;
   expanded: boolean;
   onToggle: () => void;
   onExpand: () => void;
   onUpdate: (updates: Partial<FieldConfigState>) => void;
+  formFields: FieldConfigState[];
+  columns: number;
 }) {
   const {
     attributes,
@@ -201,6 +240,122 @@ function SortableFieldItem({
             />
           </div>
 
+          {columns > 1 && (
+            <div>
+              <label className="block text-xs font-medium text-gray-600 dark:text-gray-400 mb-1">
+                Column span
+              </label>
+              <select
+                value={Math.min(field.columnSpan || 1, columns)}
+                onChange={(e) => onUpdate({ columnSpan: Number(e.target.value) > 1 ? Number(e.target.value) : undefined })}
+                className="w-full px-2 py-1.5 text-sm border dark:border-gray-600 rounded focus:ring-1 focus:ring-blue-500 bg-white dark:bg-gray-700 dark:text-gray-100"
+              >
+                {Array.from({ length: columns }, (_, i) => i + 1).map(span => (
+                  <option key={span} value={span}>
+                    {span === columns ? 'Full width' : `${span} of ${columns} columns`}
+                  </option>
+                ))}
+              </select>
+            </div>
+          )}
+
+          {field.notionPropertyType === 'files' && (
+            <div className="grid grid-cols-3 gap-2">
+              <div>
+                <label className="block text-xs font-medium text-gray-600 dark:text-gray-400 mb-1">
+                  Max size (MB)
+                </label>
+                <input
+                  type="number"
+                  min={1}
+                  max={MAX_UPLOAD_SIZE_MB}
+                  value={field.fileConfig?.maxSizeMb ?? ''}
+                  onChange={(e) => onUpdate({
+                    fileConfig: { ...field.fileConfig, maxSizeMb: e.target.value ? Number(e.target.value) : undefined },
+                  })}
+                  placeholder={String(MAX_UPLOAD_SIZE_MB)}
+                  className="w-full px-2 py-1.5 text-sm border dark:border-gray-600 rounded focus:ring-1 focus:ring-blue-500 bg-white dark:bg-gray-700 dark:text-gray-100"
+                />
+              </div>
+              <div>
+                <label className="block text-xs font-medium text-gray-600 dark:text-gray-400 mb-1">
+                  Max files
+                </label>
+                <input
+                  type="number"
+                  min={1}
+                  value={field.fileConfig?.maxFiles ?? ''}
+                  onChange={(e) => onUpdate({
+                    fileConfig: { ...field.fileConfig, maxFiles: e.target.value ? Number(e.target.value) : undefined },
+                  })}
+                  placeholder="No limit"
+                  className="w-full px-2 py-1.5 text-sm border dark:border-gray-600 rounded focus:ring-1 focus:ring-blue-500 bg-white dark:bg-gray-700 dark:text-gray-100"
+                />
+              </div>
+              <div>
+                <label className="block text-xs font-medium text-gray-600 dark:text-gray-400 mb-1">
+                  Allowed types
+                </label>
+                <input
+                  type="text"
+                  value={field.fileConfig?.allowedTypes?.join(', ') || ''}
+                  onChange={(e) => onUpdate({
+                    fileConfig: {
+                      ...field.fileConfig,
+                      allowedTypes: e.target.value ? e.target.value.split(',').map(t => t.trim()) : undefined,
+                    },
+                  })}
+                  placeholder="image/*, .pdf"
+                  className="w-full px-2 py-1.5 text-sm border dark:border-gray-600 rounded focus:ring-1 focus:ring-blue-500 bg-white dark:bg-gray-700 dark:text-gray-100"
+                />
+              </div>
+            </div>
+          )}
+
+          {field.notionPropertyType === 'date' && (
+            <div className="space-y-2">
+              <div className="flex flex-wrap gap-4">
+                <label className="flex items-center gap-2 text-sm dark:text-gray-200">
+                  <input
+                    type="checkbox"
+                    checked={!!field.dateConfig?.includeTime}
+                    onChange={(e) => onUpdate({ dateConfig: { ...field.dateConfig, includeTime: e.target.checked } })}
+                    className="h-4 w-4 text-blue-600 rounded"
+                  />
+                  Include time
+                </label>
+                <label className="flex items-center gap-2 text-sm dark:text-gray-200">
+                  <input
+                    type="checkbox"
+                    checked={!!field.dateConfig?.range}
+                    onChange={(e) => onUpdate({ dateConfig: { ...field.dateConfig, range: e.target.checked } })}
+                    className="h-4 w-4 text-blue-600 rounded"
+                  />
+                  End date
+                </label>
+              </div>
+              {field.dateConfig?.includeTime && (
+                <div>
+                  <label className="block text-xs font-medium text-gray-600 dark:text-gray-400 mb-1">
+                    Time zone
+                  </label>
+                  <select
+                    value={field.dateConfig?.timeZone || ''}
+                    onChange={(e) => onUpdate({
+                      dateConfig: { ...field.dateConfig, timeZone: e.target.value || undefined },
+                    })}
+                    className="w-full px-2 py-1.5 text-sm border dark:border-gray-600 rounded focus:ring-1 focus:ring-blue-500 bg-white dark:bg-gray-700 dark:text-gray-100"
+                  >
+                    <option value="">Submitter&apos;s time zone</option>
+                    {getTimeZones().map(zone => (
+                      <option key={zone} value={zone}>{zone}</option>
+                    ))}
+                  </select>
+                </div>
+              )}
+            </div>
+          )}
+
           <div className="flex flex-wrap gap-4">
             <label className="flex items-center gap-2 text-sm dark:text-gray-200">
               <input
@@ -233,6 +388,21 @@ function SortableFieldItem({
             </label>
           </div>
 
+          <div className="border-t dark:border-gray-700 pt-3 mt-3 space-y-3">
+            <FieldRuleEditor
+              label="Show only when"
+              rule={field.visibleWhen}
+              onChange={(rule) => onUpdate({ visibleWhen: rule })}
+              fields={formFields.filter(f => f.notionPropertyId !== field.notionPropertyId)}
+            />
+            <FieldRuleEditor
+              label="Required when"
+              rule={field.requiredWhen}
+              onChange={(rule) => onUpdate({ requiredWhen: rule })}
+              fields={formFields.filter(f => f.notionPropertyId !== field.notionPropertyId)}
+            />
+          </div>
+
           <div className="border-t dark:border-gray-700 pt-3 mt-3">
             <label className="block text-xs font-medium text-gray-600 dark:text-gray-400 mb-1">
               Default Value
@@ -247,6 +417,7 @@ function SortableFieldItem({
             >
               <option value="none">No default</option>
               <option value="static">Static value</option>
+              <option value="formula">Formula</option>
               {field.notionPropertyType === 'people' && (
                 <option value="current_user">Current user</option>
               )}
@@ -296,11 +467,19 @@ function SortableFieldItem({
               <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">Will be set to the logged-in user</p>
             )}
             {field.defaultValueType === 'current_date' && (
-              <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">Will be set to today's date</p>
+              <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">Will be set to today&apos;s date</p>
             )}
             {field.defaultValueType === 'current_time' && (
               <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">Will be set to current date and time</p>
             )}
+            {field.defaultValueType === 'formula' && (
+              <FormulaInput
+                value={field.defaultValueFormula || ''}
+                onChange={(value) => onUpdate({ defaultValueFormula: value })}
+                fieldType={field.notionPropertyType}
+                fields={formFields}
+              />
+            )}
           </div>
         </div>
       )}
@@ -355,6 +534,7 @@ export default function EditFormPage() {
   const [expandedField, setExpandedField] = useState<string | null>(null);
   const [saving, setSaving] = useState(false);
   const [showSchema, setShowSchema] = useState(false);
+  const [activeTab, setActiveTab] = useState<'configure' | 'submissions' | 'import'>('configure');
   const [schemaChanges, setSchemaChanges] = useState<{
     removed: string[];
     added: string[];
@@ -363,13 +543,31 @@ export default function EditFormPage() {
   // Permissions state
   const [allowCreate, setAllowCreate] = useState(true);
   const [allowEdit, setAllowEdit] = useState(false);
+  const [allowDelete, setAllowDelete] = useState(false);
   const [allowList, setAllowList] = useState(false);
 
+  // Access state
+  const [accessMode, setAccessMode] = useState<FormAccess['mode']>('workspace');
+  const [allowedEmails, setAllowedEmails] = useState('');
+  const [allowedDomains, setAllowedDomains] = useState('');
+  const [allowedNotionUserIds, setAllowedNotionUserIds] = useState<string[]>([]);
+  const [workspaceUsers, setWorkspaceUsers] = useState<WorkspaceUser[]>([]);
+
   // List config state
   const [listPageSize, setListPageSize] = useState(20);
-  const [listFilters, setListFilters] = useState<DesignTimeFilter[]>([]);
+  const [listFilters, setListFilters] = useState<FilterNode[]>([]);
   const [defaultSortField, setDefaultSortField] = useState<string>('');
   const [defaultSortDirection, setDefaultSortDirection] = useState<'ascending' | 'descending'>('descending');
+  const [listView, setListView] = useState<ListConfig['view']>('table');
+  const [boardGroupBy, setBoardGroupBy] = useState('');
+  const [boardCardFieldIds, setBoardCardFieldIds] = useState<string[]>([]);
+  const [calendarDateField, setCalendarDateField] = useState('');
+  const [ownerPropertyId, setOwnerPropertyId] = useState<string>('');
+
+  // Layout state: sections make the form a multi-step wizard
+  const [sections, setSections] = useState<FormSection[]>([]);
+  const [layoutColumns, setLayoutColumns] = useState(1);
+  const [titleTemplate, setTitleTemplate] = useState('');
 
   // Display titles state
   const [listTitle, setListTitle] = useState('');
@@ -417,8 +615,16 @@ export default function EditFormPage() {
         const permissions = formData.form.config.permissions || {};
         setAllowCreate(permissions.allowCreate !== false);
         setAllowEdit(permissions.allowEdit === true);
+        setAllowDelete(permissions.allowDelete === true);
         setAllowList(permissions.allowList === true);
 
+        // Load access list
+        const access: Partial<FormAccess> = formData.form.access || {};
+        setAccessMode(access.mode || 'workspace');
+        setAllowedEmails((access.allowedEmails || []).join('\n'));
+        setAllowedDomains((access.allowedDomains || []).join('\n'));
+        setAllowedNotionUserIds(access.allowedNotionUserIds || []);
+
         // Load list config
         const listConfig = formData.form.config.listConfig || {};
         setListPageSize(listConfig.pageSize || 20);
@@ -427,6 +633,16 @@ export default function EditFormPage() {
           setDefaultSortField(listConfig.defaultSort.propertyId);
           setDefaultSortDirection(listConfig.defaultSort.direction);
         }
+        setListView(listConfig.view || 'table');
+        setBoardGroupBy(listConfig.board?.groupByPropertyId || '');
+        setBoardCardFieldIds(listConfig.board?.cardFieldIds || []);
+        setCalendarDateField(listConfig.calendar?.datePropertyId || '');
+
+        setOwnerPropertyId(formData.form.config.ownerScope?.propertyId || '');
+
+        setSections(formData.form.config.layout?.sections || []);
+        setLayoutColumns(formData.form.config.layout?.columns || 1);
+        setTitleTemplate(formData.form.config.layout?.titleTemplate || '');
 
         // Load display titles with sensible defaults
         const displayTitles = formData.form.config.displayTitles || {};
@@ -468,10 +684,14 @@ export default function EditFormPage() {
             // Extract default value type and static value from saved defaultValue
             let defaultValueType: FieldConfigState['defaultValueType'] = 'none';
             let defaultValueStatic: string | undefined = undefined;
+            let defaultValueFormula: string | undefined = undefined;
             if (sf.defaultValue) {
               if (sf.defaultValue.type === 'static') {
                 defaultValueType = 'static';
                 defaultValueStatic = String(sf.defaultValue.value);
+              } else if (sf.defaultValue.type === 'formula') {
+                defaultValueType = 'formula';
+                defaultValueFormula = sf.defaultValue.expression;
               } else if (sf.defaultValue.type === 'function') {
                 if (sf.defaultValue.name === 'current_user') {
                   defaultValueType = 'current_user';
@@ -490,6 +710,7 @@ export default function EditFormPage() {
               options: prop.options,
               defaultValueType,
               defaultValueStatic,
+              defaultValueFormula,
               relationDatabaseId: sf.relationDatabaseId || prop.relation?.database_id,
             };
           });
@@ -526,9 +747,46 @@ export default function EditFormPage() {
     }
   }, [params.id, router]);
 
+  // Fetch workspace users for the access list picker and people filters
+  const needsWorkspaceUsers = accessMode === 'restricted' ||
+    (allowList && !!database?.properties.some(p => p.type === 'people'));
+  useEffect(() => {
+    if (!needsWorkspaceUsers || workspaceUsers.length > 0) return;
+
+    fetch('/api/notion/users')
+      .then(res => res.json())
+      .then(data => {
+        if (data.users) {
+          setWorkspaceUsers(data.users);
+        }
+      })
+      .catch(err => console.error('Failed to fetch users:', err));
+  }, [needsWorkspaceUsers, workspaceUsers.length]);
+
   const enabledFields = fields.filter(f => f.enabled);
   const disabledFields = fields.filter(f => !f.enabled);
 
+  // Properties that can identify a record's owner
+  const ownerProperties = database?.properties.filter(p => OWNER_PROPERTY_TYPES.includes(p.type)) || [];
+  const ownerProperty = ownerProperties.find(p => p.id === ownerPropertyId);
+
+  // Fields a board can group by: the form must show them so viewers see the columns' values
+  const boardGroupFields = enabledFields.filter(f =>
+    f.visible !== false && (f.notionPropertyType === 'select' || f.notionPropertyType === 'status')
+  );
+  const boardGroupField = boardGroupFields.find(f => f.notionPropertyId === boardGroupBy);
+
+  // Fields a calendar can place records by
+  const calendarDateFields = enabledFields.filter(f => f.visible !== false && f.notionPropertyType === 'date');
+  const calendarField = calendarDateFields.find(f => f.notionPropertyId === calendarDateField);
+
+  // Views viewers can switch between; the default must be one of them
+  const listViews: ListConfig['view'][] = [
+    'table',
+    ...(boardGroupField ? ['board' as const] : []),
+    ...(calendarField ? ['calendar' as const] : []),
+  ];
+
   const toggleField = (propertyId: string) => {
     setFields(fields.map(f =>
       f.notionPropertyId === propertyId ? { ...f, enabled: !f.enabled } : f
@@ -557,7 +815,7 @@ export default function EditFormPage() {
     name: formName,
     description: formDescription,
     databaseId: formConfig?.databaseId,
-    fields: enabledFields.map(({ enabled, originalName, defaultValueType, defaultValueStatic, options, ...field }) => {
+    fields: enabledFields.map(({ enabled, originalName, defaultValueType, defaultValueStatic, defaultValueFormula, options, ...field }) => {
       let defaultValue = undefined;
       if (defaultValueType === 'static' && defaultValueStatic) {
         defaultValue = { type: 'static' as const, value: defaultValueStatic };
@@ -567,14 +825,21 @@ export default function EditFormPage() {
         defaultValue = { type: 'function' as const, name: 'today' as const };
       } else if (defaultValueType === 'current_time') {
         defaultValue = { type: 'function' as const, name: 'now' as const };
+      } else if (defaultValueType === 'formula' && defaultValueFormula?.trim()) {
+        defaultValue = { type: 'formula' as const, expression: defaultValueFormula.trim() };
       }
       return { ...field, defaultValue, options };
     }),
     permissions: {
       allowCreate,
       allowEdit,
+      allowDelete,
       allowList,
     },
+    ownerScope: allowList && ownerProperty ? {
+      propertyId: ownerProperty.id,
+      propertyType: ownerProperty.type as OwnerScope['propertyType'],
+    } : undefined,
     listConfig: allowList ? {
       pageSize: listPageSize,
       filters: listFilters,
@@ -582,16 +847,45 @@ export default function EditFormPage() {
         propertyId: defaultSortField,
         direction: defaultSortDirection,
       } : undefined,
+      view: listViews.includes(listView) ? listView : 'table',
+      board: boardGroupField ? {
+        groupByPropertyId: boardGroupField.notionPropertyId,
+        cardFieldIds: boardCardFieldIds.filter(id => enabledFields.some(f => f.notionPropertyId === id)),
+      } : undefined,
+      calendar: calendarField ? { datePropertyId: calendarField.notionPropertyId } : undefined,
     } : undefined,
+    layout: {
+      showTitle: true,
+      sections: sections.length > 0 ? sections : undefined,
+      columns: layoutColumns > 1 ? layoutColumns : undefined,
+      titleTemplate: titleTemplate.trim() || undefined,
+    },
     displayTitles: {
       listTitle: listTitle || undefined,
       createTitle: createTitle || undefined,
       editTitle: editTitle || undefined,
     },
+    access: {
+      mode: accessMode,
+      allowedEmails: splitList(allowedEmails),
+      allowedDomains: splitList(allowedDomains),
+      allowedNotionUserIds,
+    },
   });
 
   const handleSave = async () => {
     const updatedConfig = getFormConfig();
+
+    // Don't save formula defaults that would fail when the form opens
+    const invalidFormula = enabledFields
+      .filter(f => f.defaultValueType === 'formula' && f.defaultValueFormula?.trim())
+      .map(f => ({ field: f, error: validateFormula(f.defaultValueFormula!, enabledFields) }))
+      .find(r => r.error);
+    if (invalidFormula) {
+      alert(`Invalid formula for "${invalidFormula.field.label}": ${invalidFormula.error}`);
+      return;
+    }
+
     setSaving(true);
 
     try {
@@ -601,15 +895,17 @@ export default function EditFormPage() {
         body: JSON.stringify({
           name: updatedConfig.name,
           description: updatedConfig.description,
+          access: updatedConfig.access,
           config: {
             databaseId: updatedConfig.databaseId,
             fields: updatedConfig.fields,
             filters: [],
             sorts: [],
             pageSize: 20,
-            layout: { showTitle: true },
+            layout: updatedConfig.layout,
             permissions: updatedConfig.permissions,
             listConfig: updatedConfig.listConfig,
+            ownerScope: updatedConfig.ownerScope,
             displayTitles: updatedConfig.displayTitles,
           },
         }),
@@ -734,6 +1030,43 @@ export default function EditFormPage() {
         )}
 
         {!loading && !error && database && (
+          <div className="mb-6 flex gap-1 border-b dark:border-gray-700">
+            {(['configure', 'submissions', 'import'] as const).map(tab => (
+              <button
+                key={tab}
+                onClick={() => setActiveTab(tab)}
+                className={`px-4 py-2 text-sm font-medium border-b-2 -mb-px transition-colors ${
+                  activeTab === tab
+                    ? 'border-blue-600 text-blue-600 dark:border-blue-400 dark:text-blue-400'
+                    : 'border-transparent text-gray-500 dark:text-gray-400 hover:text-gray-700 dark:hover:text-gray-300'
+                }`}
+              >
+                {tab === 'configure' ? 'Configure' : tab === 'submissions' ? 'Submissions' : 'Import'}
+              </button>
+            ))}
+          </div>
+        )}
+
+        {!loading && !error && database && activeTab === 'submissions' && (
+          <div className="bg-white dark:bg-gray-800 rounded-lg border dark:border-gray-700 p-6 transition-colors">
+            <h2 className="text-lg font-semibold dark:text-gray-100 mb-4">Submissions</h2>
+            <SubmissionLog formId={params.id as string} fields={enabledFields} />
+          </div>
+        )}
+
+        {!loading && !error && database && formConfig && activeTab === 'import' && (
+          <div className="bg-white dark:bg-gray-800 rounded-lg border dark:border-gray-700 p-6 transition-colors">
+            <h2 className="text-lg font-semibold dark:text-gray-100 mb-4">Import from CSV</h2>
+            <ImportWizard
+              formId={params.id as string}
+              fields={formConfig.config.fields}
+              properties={database.properties}
+              allowCreate={formConfig.config.permissions?.allowCreate !== false}
+            />
+          </div>
+        )}
+
+        {!loading && !error && database && activeTab === 'configure' && (
           <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
             {/* Left Panel - Configuration */}
             <div>
@@ -801,9 +1134,104 @@ export default function EditFormPage() {
                         <span className="text-sm dark:text-gray-200">Allow edit</span>
                         <span className="text-xs text-gray-500 dark:text-gray-400">(modify existing records)</span>
                       </label>
+                      <label className="flex items-center gap-2">
+                        <input
+                          type="checkbox"
+                          checked={allowDelete}
+                          onChange={(e) => setAllowDelete(e.target.checked)}
+                          className="h-4 w-4 text-blue-600 rounded"
+                        />
+                        <span className="text-sm dark:text-gray-200">Allow delete</span>
+                        <span className="text-xs text-gray-500 dark:text-gray-400">(archive records in Notion)</span>
+                      </label>
                     </div>
                   </div>
 
+                  {/* Access */}
+                  <div className="border-t dark:border-gray-700 pt-4 mt-4">
+                    <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-3">
+                      Who Can Use This Form
+                    </label>
+                    <div className="space-y-2">
+                      <label className="flex items-center gap-2">
+                        <input
+                          type="radio"
+                          name="accessMode"
+                          checked={accessMode === 'workspace'}
+                          onChange={() => setAccessMode('workspace')}
+                          className="h-4 w-4 text-blue-600"
+                        />
+                        <span className="text-sm dark:text-gray-200">Anyone in the workspace</span>
+                      </label>
+                      <label className="flex items-center gap-2">
+                        <input
+                          type="radio"
+                          name="accessMode"
+                          checked={accessMode === 'restricted'}
+                          onChange={() => setAccessMode('restricted')}
+                          className="h-4 w-4 text-blue-600"
+                        />
+                        <span className="text-sm dark:text-gray-200">Only specific people</span>
+                      </label>
+                    </div>
+
+                    {accessMode === 'restricted' && (
+                      <div className="space-y-3 mt-3">
+                        <div>
+                          <label className="block text-xs text-gray-600 dark:text-gray-400 mb-1">
+                            Allowed Emails (one per line)
+                          </label>
+                          <textarea
+                            value={allowedEmails}
+                            onChange={(e) => setAllowedEmails(e.target.value)}
+                            rows={3}
+                            placeholder="jane@example.com"
+                            className="w-full px-2 py-1.5 text-sm border dark:border-gray-600 rounded focus:ring-1 focus:ring-blue-500 bg-white dark:bg-gray-700 dark:text-gray-100"
+                          />
+                        </div>
+                        <div>
+                          <label className="block text-xs text-gray-600 dark:text-gray-400 mb-1">
+                            Allowed Email Domains (one per line)
+                          </label>
+                          <textarea
+                            value={allowedDomains}
+                            onChange={(e) => setAllowedDomains(e.target.value)}
+                            rows={2}
+                            placeholder="example.com"
+                            className="w-full px-2 py-1.5 text-sm border dark:border-gray-600 rounded focus:ring-1 focus:ring-blue-500 bg-white dark:bg-gray-700 dark:text-gray-100"
+                          />
+                        </div>
+                        <div>
+                          <label className="block text-xs text-gray-600 dark:text-gray-400 mb-1">
+                            Allowed Workspace Members
+                          </label>
+                          <div className="max-h-40 overflow-y-auto border dark:border-gray-600 rounded p-2 space-y-1">
+                            {workspaceUsers.length === 0 ? (
+                              <p className="text-xs text-gray-500 dark:text-gray-400">Loading members...</p>
+                            ) : (
+                              workspaceUsers.map(user => (
+                                <label key={user.id} className="flex items-center gap-2 text-sm dark:text-gray-200">
+                                  <input
+                                    type="checkbox"
+                                    checked={allowedNotionUserIds.includes(user.id)}
+                                    onChange={(e) => setAllowedNotionUserIds(prev =>
+                                      e.target.checked ? [...prev, user.id] : prev.filter(id => id !== user.id)
+                                    )}
+                                    className="h-4 w-4 text-blue-600 rounded"
+                                  />
+                                  {user.name}{user.email ? ` (${user.email})` : ''}
+                                </label>
+                              ))
+                            )}
+                          </div>
+                        </div>
+                        <p className="text-xs text-gray-500 dark:text-gray-400">
+                          People matching any of the above can open this form. Admins always have access.
+                        </p>
+                      </div>
+                    )}
+                  </div>
+
                   {/* List Config */}
                   {allowList && (
                     <div className="border-t dark:border-gray-700 pt-4 mt-4">
@@ -824,6 +1252,22 @@ export default function EditFormPage() {
                             className="w-24 px-2 py-1.5 text-sm border dark:border-gray-600 rounded focus:ring-1 focus:ring-blue-500 bg-white dark:bg-gray-700 dark:text-gray-100"
                           />
                         </div>
+                        <div>
+                          <label className="block text-xs text-gray-600 dark:text-gray-400 mb-1">
+                            Filters
+                          </label>
+                          {database && (
+                            <FilterTreeEditor
+                              filters={listFilters}
+                              onChange={setListFilters}
+                              properties={database.properties}
+                              users={workspaceUsers}
+                            />
+                          )}
+                          <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                            Only matching records are listed. Dates can be relative (this week, past N days) and people can match the viewer (&quot;is me&quot;).
+                          </p>
+                        </div>
                         <div>
                           <label className="block text-xs text-gray-600 dark:text-gray-400 mb-1">
                             Default Sort
@@ -853,8 +1297,123 @@ export default function EditFormPage() {
                             )}
                           </div>
                         </div>
+                        <div>
+                          <label className="block text-xs text-gray-600 dark:text-gray-400 mb-1">
+                            Board
+                          </label>
+                          <select
+                            value={boardGroupBy}
+                            onChange={(e) => setBoardGroupBy(e.target.value)}
+                            className="w-full px-2 py-1.5 text-sm border dark:border-gray-600 rounded focus:ring-1 focus:ring-blue-500 bg-white dark:bg-gray-700 dark:text-gray-100"
+                          >
+                            <option value="">No board view</option>
+                            {boardGroupFields.map(f => (
+                              <option key={f.notionPropertyId} value={f.notionPropertyId}>
+                                Group by {f.label}
+                              </option>
+                            ))}
+                          </select>
+                          {boardGroupFields.length === 0 && (
+                            <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                              Enable a visible Select or Status field to group records into a board.
+                            </p>
+                          )}
+                          {boardGroupBy && (
+                            <div className="mt-2 space-y-2">
+                              <div>
+                                <span className="block text-xs text-gray-600 dark:text-gray-400 mb-1">Fields on cards</span>
+                                <div className="max-h-40 overflow-y-auto space-y-1">
+                                  {enabledFields
+                                    .filter(f => f.visible !== false && f.notionPropertyId !== boardGroupBy)
+                                    .map(f => (
+                                      <label key={f.notionPropertyId} className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+                                        <input
+                                          type="checkbox"
+                                          checked={boardCardFieldIds.includes(f.notionPropertyId)}
+                                          onChange={(e) => setBoardCardFieldIds(prev => e.target.checked
+                                            ? [...prev, f.notionPropertyId]
+                                            : prev.filter(id => id !== f.notionPropertyId)
+                                          )}
+                                          className="h-4 w-4 text-blue-600 rounded dark:bg-gray-700 dark:border-gray-600"
+                                        />
+                                        {f.label}
+                                      </label>
+                                    ))}
+                                </div>
+                              </div>
+                              <p className="text-xs text-gray-500 dark:text-gray-400">
+                                With edit permission, dragging a card to another column updates the record.
+                              </p>
+                            </div>
+                          )}
+                        </div>
+                        <div>
+                          <label className="block text-xs text-gray-600 dark:text-gray-400 mb-1">
+                            Calendar
+                          </label>
+                          <select
+                            value={calendarDateField}
+                            onChange={(e) => setCalendarDateField(e.target.value)}
+                            className="w-full px-2 py-1.5 text-sm border dark:border-gray-600 rounded focus:ring-1 focus:ring-blue-500 bg-white dark:bg-gray-700 dark:text-gray-100"
+                          >
+                            <option value="">No calendar view</option>
+                            {calendarDateFields.map(f => (
+                              <option key={f.notionPropertyId} value={f.notionPropertyId}>
+                                Place records by {f.label}
+                              </option>
+                            ))}
+                          </select>
+                          <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                            {calendarDateFields.length === 0
+                              ? 'Enable a visible Date field to show records on a calendar.'
+                              : 'Clicking a day creates a record on that date; with edit permission, records can be dragged to another day.'}
+                          </p>
+                        </div>
+                        {listViews.length > 1 && (
+                          <div>
+                            <label className="block text-xs text-gray-600 dark:text-gray-400 mb-1">
+                              Default View
+                            </label>
+                            <select
+                              value={listViews.includes(listView) ? listView : 'table'}
+                              onChange={(e) => setListView(e.target.value as ListConfig['view'])}
+                              className="px-2 py-1.5 text-sm border dark:border-gray-600 rounded focus:ring-1 focus:ring-blue-500 bg-white dark:bg-gray-700 dark:text-gray-100"
+                            >
+                              {listViews.map(option => (
+                                <option key={option} value={option}>
+                                  {option.charAt(0).toUpperCase() + option.slice(1)}
+                                </option>
+                              ))}
+                            </select>
+                            <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                              Viewers can switch between the views above the list.
+                            </p>
+                          </div>
+                        )}
+                        <div>
+                          <label className="block text-xs text-gray-600 dark:text-gray-400 mb-1">
+                            Record Visibility
+                          </label>
+                          <select
+                            value={ownerPropertyId}
+                            onChange={(e) => setOwnerPropertyId(e.target.value)}
+                            className="w-full px-2 py-1.5 text-sm border dark:border-gray-600 rounded focus:ring-1 focus:ring-blue-500 bg-white dark:bg-gray-700 dark:text-gray-100"
+                          >
+                            <option value="">All records</option>
+                            {ownerProperties.map(p => (
+                              <option key={p.id} value={p.id}>
+                                Only records where {p.name} is the current user
+                              </option>
+                            ))}
+                          </select>
+                          {ownerProperties.length === 0 && (
+                            <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                              Add a Person, Created by or Email property to limit users to their own records.
+                            </p>
+                          )}
+                        </div>
                         <p className="text-xs text-gray-500 dark:text-gray-400">
-                          Enable "Show in List" on fields below to choose which columns appear in the table.
+                          Enable &quot;Show in List&quot; on fields below to choose which columns appear in the table.
                         </p>
                       </div>
                     </div>
@@ -913,6 +1472,61 @@ export default function EditFormPage() {
                       )}
                     </div>
                   </div>
+
+                  {/* Layout */}
+                  <div className="border-t dark:border-gray-700 pt-4 mt-4">
+                    <label className="flex items-center gap-2 text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                      <input
+                        type="checkbox"
+                        checked={sections.length > 0}
+                        onChange={(e) => setSections(e.target.checked
+                          ? [{ id: `section-${Date.now().toString(36)}`, title: 'Step 1', fieldIds: enabledFields.map(f => f.notionPropertyId) }]
+                          : []
+                        )}
+                        className="h-4 w-4 text-blue-600 rounded"
+                      />
+                      Multi-step wizard
+                    </label>
+                    <p className="text-xs text-gray-500 dark:text-gray-400 mb-3">
+                      Split the form into titled steps with Next/Back navigation and a final review step. Drag fields between sections.
+                    </p>
+                    {sections.length > 0 && (
+                      <SectionEditor
+                        sections={sections}
+                        onChange={setSections}
+                        fields={enabledFields}
+                      />
+                    )}
+
+                    <div className="mt-4">
+                      <label className="block text-xs font-medium text-gray-600 dark:text-gray-400 mb-1">
+                        Columns
+                      </label>
+                      <select
+                        value={layoutColumns}
+                        onChange={(e) => setLayoutColumns(Number(e.target.value))}
+                        className="w-full px-2 py-1.5 text-sm border dark:border-gray-600 rounded focus:ring-1 focus:ring-blue-500 bg-white dark:bg-gray-700 dark:text-gray-100"
+                      >
+                        {[1, 2, 3, 4].map(n => (
+                          <option key={n} value={n}>{n === 1 ? 'Single column' : `${n} columns`}</option>
+                        ))}
+                      </select>
+                      <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                        Fields can span several columns (set per field). Forms stack to one column on small screens.
+                      </p>
+                    </div>
+
+                    <div className="mt-4">
+                      <label className="block text-xs font-medium text-gray-600 dark:text-gray-400 mb-1">
+                        Title template
+                      </label>
+                      <TitleTemplateInput
+                        value={titleTemplate}
+                        onChange={setTitleTemplate}
+                        fields={enabledFields}
+                      />
+                    </div>
+                  </div>
                 </div>
               </div>
 
@@ -947,6 +1561,8 @@ export default function EditFormPage() {
                               expandedField === field.notionPropertyId ? null : field.notionPropertyId
                             )}
                             onUpdate={(updates) => updateField(field.notionPropertyId, updates)}
+                            formFields={enabledFields}
+                            columns={layoutColumns}
                           />
                         ))}
                       </div>
@@ -88,7 +88,7 @@ export default function NewFormPage() {
 
         {!loading && !error && databases.length > 0 && (
           <p className="text-sm text-gray-500 dark:text-gray-400 mt-4">
-            Don't see a database? In Notion, open the database page, click "..." menu, then "Connections" and add the Notion Form Builder integration.
+            Don&apos;t see a database? In Notion, open the database page, click &quot;...&quot; menu, then &quot;Connections&quot; and add the Notion Form Builder integration.
           </p>
         )}
 
@@ -4,13 +4,17 @@ import { useEffect, useState } from 'react';
 import { useRouter } from 'next/navigation';
 import Link from 'next/link';
 import FormRenderer from '@/components/FormRenderer';
-import { FieldConfig } from '@/types/form';
+import { FieldConfig, FormSection } from '@/types/form';
 
 interface FormConfig {
   name: string;
   description?: string;
   databaseId: string;
   fields: FieldConfig[];
+  layout?: {
+    sections?: FormSection[];
+    columns?: number;
+  };
 }
 
 interface SubmissionResult {
@@ -268,6 +272,8 @@ export default function FormPreviewPage() {
               onSubmit={handleSubmit}
               submitLabel={liveMode ? 'Submit to Notion' : 'Submit Preview'}
               currentUser={currentUser || undefined}
+              sections={formConfig.layout?.sections}
+              columns={formConfig.layout?.columns}
             />
           )}
         </div>
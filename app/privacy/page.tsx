@@ -9,7 +9,7 @@ export default function PrivacyPage() {
           <section>
             <h2 className="text-xl font-semibold text-gray-900 mb-3">Overview</h2>
             <p className="text-gray-600">
-              Notion Form Builder ("we", "our", or "us") respects your privacy. This policy explains how we collect, use, and protect your information when you use our service.
+              Notion Form Builder (&quot;we&quot;, &quot;our&quot;, or &quot;us&quot;) respects your privacy. This policy explains how we collect, use, and protect your information when you use our service.
             </p>
           </section>
 
@@ -45,7 +45,7 @@ export default function PrivacyPage() {
           <section>
             <h2 className="text-xl font-semibold text-gray-900 mb-3">Third-Party Services</h2>
             <p className="text-gray-600">
-              Our service integrates with Notion. Your use of Notion is subject to Notion's own privacy policy and terms of service.
+              Our service integrates with Notion. Your use of Notion is subject to Notion&apos;s own privacy policy and terms of service.
             </p>
           </section>
 
@@ -9,7 +9,7 @@ export default function TermsPage() {
           <section>
             <h2 className="text-xl font-semibold text-gray-900 mb-3">Acceptance of Terms</h2>
             <p className="text-gray-600">
-              By accessing or using Notion Form Builder ("the Service"), you agree to be bound by these Terms of Use. If you do not agree to these terms, please do not use the Service.
+              By accessing or using Notion Form Builder (&quot;the Service&quot;), you agree to be bound by these Terms of Use. If you do not agree to these terms, please do not use the Service.
             </p>
           </section>
 
@@ -49,7 +49,7 @@ export default function TermsPage() {
           <section>
             <h2 className="text-xl font-semibold text-gray-900 mb-3">Disclaimer of Warranties</h2>
             <p className="text-gray-600">
-              The Service is provided "as is" and "as available" without warranties of any kind, either express or implied. We do not guarantee that the Service will be uninterrupted, secure, or error-free.
+              The Service is provided &quot;as is&quot; and &quot;as available&quot; without warranties of any kind, either express or implied. We do not guarantee that the Service will be uninterrupted, secure, or error-free.
             </p>
           </section>
 
@@ -63,7 +63,7 @@ export default function TermsPage() {
           <section>
             <h2 className="text-xl font-semibold text-gray-900 mb-3">Changes to Terms</h2>
             <p className="text-gray-600">
-              We reserve the right to modify these terms at any time. We will notify users of any material changes by updating the "Last updated" date. Continued use of the Service after changes constitutes acceptance of the new terms.
+              We reserve the right to modify these terms at any time. We will notify users of any material changes by updating the &quot;Last updated&quot; date. Continued use of the Service after changes constitutes acceptance of the new terms.
             </p>
           </section>
 
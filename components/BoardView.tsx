@@ -0,0 +1,266 @@
+'use client';
+
+import React, { useRef } from 'react';
+import {
+  DndContext,
+  DragEndEvent,
+  KeyboardSensor,
+  PointerSensor,
+  useDraggable,
+  useDroppable,
+  useSensor,
+  useSensors,
+} from '@dnd-kit/core';
+import { CSS } from '@dnd-kit/utilities';
+
+export interface BoardRow {
+  id: string;
+  properties: Record<string, { type: string; value: any }>;
+}
+
+export interface BoardOption {
+  name: string;
+  color?: string;
+}
+
+interface BoardCardField {
+  propertyId: string;
+  label: string;
+  type: string;
+}
+
+interface BoardViewProps {
+  rows: BoardRow[];
+  groupByPropertyId: string;
+  groupByLabel: string;
+  options: BoardOption[];
+  cardFields: BoardCardField[];
+  canMove: boolean;  // Cards can be dragged between option columns
+  getCardTitle: (row: BoardRow) => string;
+  renderValue: (type: string, value: any) => React.ReactNode;
+  onMove: (row: BoardRow, option: string) => void;
+  onCardClick?: (rowId: string) => void;
+  isSaving: (rowId: string) => boolean;
+  getError: (rowId: string) => string | undefined;  // Error from the last move
+}
+
+// Notion option colors
+const OPTION_DOTS: Record<string, string> = {
+  default: 'bg-gray-400',
+  gray: 'bg-gray-400',
+  brown: 'bg-amber-700',
+  orange: 'bg-orange-500',
+  yellow: 'bg-yellow-400',
+  green: 'bg-green-500',
+  blue: 'bg-blue-500',
+  purple: 'bg-purple-500',
+  pink: 'bg-pink-500',
+  red: 'bg-red-500',
+};
+
+// Column ID for rows without a value
+const EMPTY_COLUMN = '__empty__';
+
+function BoardCard({
+  row,
+  title,
+  fields,
+  canMove,
+  renderValue,
+  onClick,
+  saving,
+  error,
+}: {
+  row: BoardRow;
+  title: string;
+  fields: BoardCardField[];
+  canMove: boolean;
+  renderValue: (type: string, value: any) => React.ReactNode;
+  onClick?: () => void;
+  saving: boolean;
+  error?: string;
+}) {
+  const { attributes, listeners, setNodeRef, transform, isDragging } = useDraggable({
+    id: row.id,
+    disabled: !canMove || saving,
+  });
+
+  return (
+    <div
+      ref={setNodeRef}
+      style={{ transform: CSS.Translate.toString(transform) }}
+      {...attributes}
+      {...listeners}
+      onClick={onClick}
+      className={`p-3 bg-white dark:bg-gray-800 border dark:border-gray-700 rounded-lg shadow-sm space-y-2 ${
+        onClick ? 'cursor-pointer hover:border-blue-300 dark:hover:border-blue-600' : ''
+      } ${isDragging ? 'relative z-50 shadow-lg opacity-90' : ''} ${saving ? 'opacity-60' : ''}`}
+    >
+      <div className="text-sm font-medium text-gray-900 dark:text-gray-100 break-words">{title}</div>
+      {fields.map(field => {
+        const value = row.properties[field.propertyId]?.value;
+        if (value === null || value === undefined || value === '' || (Array.isArray(value) && value.length === 0)) {
+          return null;
+        }
+        return (
+          <div key={field.propertyId} className="text-xs">
+            <div className="text-gray-500 dark:text-gray-400">{field.label}</div>
+            <div className="text-gray-800 dark:text-gray-200 min-w-0">{renderValue(field.type, value)}</div>
+          </div>
+        );
+      })}
+      {error && <div className="text-xs text-red-600 dark:text-red-400">{error}</div>}
+    </div>
+  );
+}
+
+function BoardColumn({
+  id,
+  title,
+  color,
+  count,
+  droppable,
+  children,
+}: {
+  id: string;
+  title: string;
+  color?: string;
+  count: number;
+  droppable: boolean;
+  children: React.ReactNode;
+}) {
+  const { setNodeRef, isOver } = useDroppable({ id, disabled: !droppable });
+
+  return (
+    <div className="flex-shrink-0 w-72 flex flex-col">
+      <div className="flex items-center gap-2 px-1 pb-2 text-sm font-medium text-gray-700 dark:text-gray-300">
+        {color && <span className={`w-2 h-2 rounded-full ${OPTION_DOTS[color] || OPTION_DOTS.default}`} />}
+        <span className="truncate">{title}</span>
+        <span className="text-xs text-gray-400 dark:text-gray-500">{count}</span>
+      </div>
+      <div
+        ref={setNodeRef}
+        className={`flex-1 min-h-[6rem] p-2 space-y-2 rounded-lg transition-colors ${
+          isOver ? 'bg-blue-50 dark:bg-blue-900/20' : 'bg-gray-100 dark:bg-gray-900/50'
+        }`}
+      >
+        {children}
+      </div>
+    </div>
+  );
+}
+
+// Rows grouped into columns by a select or status property. Dropping a card
+// on another column sets the property to that column's option.
+export default function BoardView({
+  rows,
+  groupByPropertyId,
+  groupByLabel,
+  options,
+  cardFields,
+  canMove,
+  getCardTitle,
+  renderValue,
+  onMove,
+  onCardClick,
+  isSaving,
+  getError,
+}: BoardViewProps) {
+  // Dropping a card can fire a click on it; ignore that click
+  const draggingRef = useRef(false);
+
+  const sensors = useSensors(
+    // A small drag distance keeps plain clicks opening the card
+    useSensor(PointerSensor, { activationConstraint: { distance: 5 } }),
+    useSensor(KeyboardSensor)
+  );
+
+  // Option columns in their configured order, then values that are no longer
+  // options, then rows without a value
+  const columns: { id: string; title: string; color?: string; droppable: boolean }[] = options.map(opt => ({
+    id: opt.name,
+    title: opt.name,
+    color: opt.color,
+    droppable: canMove,
+  }));
+  const groups = new Map<string, BoardRow[]>(columns.map(col => [col.id, []]));
+  const emptyRows: BoardRow[] = [];
+
+  rows.forEach(row => {
+    const value = row.properties[groupByPropertyId]?.value;
+    if (value === null || value === undefined || value === '') {
+      emptyRows.push(row);
+      return;
+    }
+    const key = String(value);
+    if (!groups.has(key)) {
+      groups.set(key, []);
+      columns.push({ id: key, title: key, droppable: false });
+    }
+    groups.get(key)!.push(row);
+  });
+
+  // Clearing the property isn't supported, so this column never takes drops
+  columns.push({ id: EMPTY_COLUMN, title: `No ${groupByLabel}`, droppable: false });
+  groups.set(EMPTY_COLUMN, emptyRows);
+
+  const handleDragEnd = (event: DragEndEvent) => {
+    setTimeout(() => {
+      draggingRef.current = false;
+    });
+
+    const { active, over } = event;
+    if (!over) return;
+
+    const row = rows.find(r => r.id === active.id);
+    const target = String(over.id);
+    if (!row || target === EMPTY_COLUMN || row.properties[groupByPropertyId]?.value === target) return;
+
+    onMove(row, target);
+  };
+
+  return (
+    <DndContext
+      sensors={sensors}
+      onDragStart={() => {
+        draggingRef.current = true;
+      }}
+      onDragEnd={handleDragEnd}
+      onDragCancel={() => {
+        draggingRef.current = false;
+      }}
+    >
+      <div className="flex gap-4 overflow-x-auto pb-2">
+        {columns
+          .filter(col => col.id !== EMPTY_COLUMN || emptyRows.length > 0)
+          .map(col => {
+            const columnRows = groups.get(col.id) || [];
+            return (
+              <BoardColumn
+                key={col.id}
+                id={col.id}
+                title={col.title}
+                color={col.color}
+                count={columnRows.length}
+                droppable={col.droppable}
+              >
+                {columnRows.map(row => (
+                  <BoardCard
+                    key={row.id}
+                    row={row}
+                    title={getCardTitle(row)}
+                    fields={cardFields}
+                    canMove={canMove}
+                    renderValue={renderValue}
+                    onClick={onCardClick ? () => !draggingRef.current && onCardClick(row.id) : undefined}
+                    saving={isSaving(row.id)}
+                    error={getError(row.id)}
+                  />
+                ))}
+              </BoardColumn>
+            );
+          })}
+      </div>
+    </DndContext>
+  );
+}
@@ -0,0 +1,337 @@
+'use client';
+
+import React, { useRef } from 'react';
+import {
+  DndContext,
+  DragEndEvent,
+  KeyboardSensor,
+  PointerSensor,
+  useDraggable,
+  useDroppable,
+  useSensor,
+  useSensors,
+} from '@dnd-kit/core';
+import { CSS } from '@dnd-kit/utilities';
+import {
+  CalendarMode,
+  daysBetween,
+  formatCalendarPeriod,
+  formatWeekday,
+  getCalendarDays,
+  getDay,
+  getToday,
+  shiftCalendarPeriod,
+  shiftDateValue,
+} from '@/lib/calendar';
+import { fromDateRange, hasTime, toDateRange } from '@/lib/date-value';
+import { DateRangeValue } from '@/types/form';
+
+export interface CalendarRow {
+  id: string;
+  properties: Record<string, { type: string; value: any }>;
+}
+
+interface CalendarViewProps {
+  rows: CalendarRow[];
+  datePropertyId: string;
+  mode: CalendarMode;
+  anchor: string;  // A day in the shown month or week
+  onPeriodChange: (mode: CalendarMode, anchor: string) => void;
+  loading?: boolean;
+  canMove: boolean;  // Events can be dragged to another day
+  getEventTitle: (row: CalendarRow) => string;
+  onMove: (row: CalendarRow, value: string | DateRangeValue) => void;
+  onEventClick?: (rowId: string) => void;
+  onCreate?: (day: string) => void;  // Shows an add button on each day when set
+  isSaving: (rowId: string) => boolean;
+  getError: (rowId: string) => string | undefined;  // Error from the last move
+}
+
+// Start time of an event. Zoned times are shown as entered, other times in the
+// viewer's zone.
+function formatEventTime(range: DateRangeValue): string {
+  if (range.timeZone) return range.start.slice(11, 16);
+  const date = new Date(range.start);
+  return isNaN(date.getTime())
+    ? range.start.slice(11, 16)
+    : date.toLocaleTimeString(undefined, { hour: '2-digit', minute: '2-digit', hour12: false });
+}
+
+function CalendarEvent({
+  id,
+  title,
+  time,
+  continued,
+  canMove,
+  onClick,
+  saving,
+  error,
+}: {
+  id: string;
+  title: string;
+  time: string | null;
+  continued: boolean;  // The event started on an earlier day
+  canMove: boolean;
+  onClick?: () => void;
+  saving: boolean;
+  error?: string;
+}) {
+  const { attributes, listeners, setNodeRef, transform, isDragging } = useDraggable({
+    id,
+    disabled: !canMove || saving,
+  });
+
+  return (
+    <div
+      ref={setNodeRef}
+      style={{ transform: CSS.Translate.toString(transform) }}
+      {...attributes}
+      {...listeners}
+      onClick={onClick}
+      title={error || title}
+      className={`px-1.5 py-0.5 rounded text-xs truncate ${
+        error
+          ? 'bg-red-100 dark:bg-red-900/40 text-red-800 dark:text-red-200'
+          : 'bg-blue-100 dark:bg-blue-900/50 text-blue-800 dark:text-blue-200'
+      } ${onClick ? 'cursor-pointer hover:bg-blue-200 dark:hover:bg-blue-800/60' : ''} ${
+        isDragging ? 'relative z-50 shadow-lg' : ''
+      } ${saving ? 'opacity-60' : ''}`}
+    >
+      {continued && <span className="mr-0.5">←</span>}
+      {time && <span className="mr-1 opacity-75">{time}</span>}
+      {title}
+    </div>
+  );
+}
+
+function CalendarDay({
+  day,
+  mode,
+  inPeriod,
+  isToday,
+  droppable,
+  onCreate,
+  children,
+}: {
+  day: string;
+  mode: CalendarMode;
+  inPeriod: boolean;  // False for days of the neighbouring months
+  isToday: boolean;
+  droppable: boolean;
+  onCreate?: () => void;
+  children: React.ReactNode;
+}) {
+  const { setNodeRef, isOver } = useDroppable({ id: day, disabled: !droppable });
+
+  return (
+    <div
+      ref={setNodeRef}
+      className={`group p-1 border-r border-b dark:border-gray-700 flex flex-col gap-1 min-w-0 ${
+        mode === 'week' ? 'min-h-[20rem]' : 'min-h-[6.5rem]'
+      } ${isOver ? 'bg-blue-50 dark:bg-blue-900/20' : inPeriod ? '' : 'bg-gray-50 dark:bg-gray-900/50'}`}
+    >
+      <div className="flex items-center justify-between">
+        <span
+          className={`text-xs w-6 h-6 flex items-center justify-center rounded-full ${
+            isToday
+              ? 'bg-blue-600 text-white font-medium'
+              : inPeriod ? 'text-gray-700 dark:text-gray-300' : 'text-gray-400 dark:text-gray-500'
+          }`}
+        >
+          {Number(day.slice(8))}
+        </span>
+        {onCreate && (
+          <button
+            onClick={onCreate}
+            className="opacity-0 group-hover:opacity-100 focus:opacity-100 w-6 h-6 flex items-center justify-center text-gray-400 hover:text-blue-600 dark:hover:text-blue-400 hover:bg-gray-100 dark:hover:bg-gray-700 rounded transition-opacity"
+            title="New record on this day"
+          >
+            <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 4v16m8-8H4" />
+            </svg>
+          </button>
+        )}
+      </div>
+      <div className={`flex flex-col gap-1 overflow-y-auto ${mode === 'week' ? '' : 'max-h-24'}`}>
+        {children}
+      </div>
+    </div>
+  );
+}
+
+// Rows placed on the days of a date property. Date ranges appear on every day
+// they cover; dragging an event to another day moves its start (and end) by
+// the same number of days.
+export default function CalendarView({
+  rows,
+  datePropertyId,
+  mode,
+  anchor,
+  onPeriodChange,
+  loading = false,
+  canMove,
+  getEventTitle,
+  onMove,
+  onEventClick,
+  onCreate,
+  isSaving,
+  getError,
+}: CalendarViewProps) {
+  // Dropping an event can fire a click on it; ignore that click
+  const draggingRef = useRef(false);
+
+  const sensors = useSensors(
+    // A small drag distance keeps plain clicks opening the event
+    useSensor(PointerSensor, { activationConstraint: { distance: 5 } }),
+    useSensor(KeyboardSensor)
+  );
+
+  const days = getCalendarDays(mode, anchor);
+  const today = getToday();
+  const month = anchor.slice(0, 7);
+
+  // Events by day, in row order
+  const eventsByDay = new Map<string, { row: CalendarRow; continued: boolean }[]>(days.map(day => [day, []]));
+  rows.forEach(row => {
+    const range = toDateRange(row.properties[datePropertyId]?.value);
+    if (!range) return;
+
+    const start = getDay(range.start);
+    const end = range.end ? getDay(range.end) : start;
+    const from = start < days[0] ? days[0] : start;
+    const to = end > days[days.length - 1] ? days[days.length - 1] : end;
+
+    for (let offset = 0; offset <= daysBetween(from, to); offset++) {
+      const day = days[daysBetween(days[0], from) + offset];
+      eventsByDay.get(day)?.push({ row, continued: day !== start });
+    }
+  });
+
+  const handleDragEnd = (event: DragEndEvent) => {
+    setTimeout(() => {
+      draggingRef.current = false;
+    });
+
+    const { active, over } = event;
+    if (!over) return;
+
+    // Event IDs are `${rowId}|${day}` since a range appears on several days
+    const [rowId, fromDay] = String(active.id).split('|');
+    const delta = daysBetween(fromDay, String(over.id));
+    const row = rows.find(r => r.id === rowId);
+    const range = toDateRange(row?.properties[datePropertyId]?.value);
+    if (!row || !range || delta === 0) return;
+
+    onMove(row, fromDateRange({
+      start: shiftDateValue(range.start, delta),
+      end: range.end ? shiftDateValue(range.end, delta) : null,
+      timeZone: range.timeZone,
+    }));
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <div className="flex items-center gap-2">
+          <button
+            onClick={() => onPeriodChange(mode, shiftCalendarPeriod(mode, anchor, -1))}
+            className="p-1.5 text-gray-600 dark:text-gray-400 hover:bg-gray-100 dark:hover:bg-gray-700 rounded"
+            title={mode === 'week' ? 'Previous week' : 'Previous month'}
+          >
+            <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 19l-7-7 7-7" />
+            </svg>
+          </button>
+          <button
+            onClick={() => onPeriodChange(mode, shiftCalendarPeriod(mode, anchor, 1))}
+            className="p-1.5 text-gray-600 dark:text-gray-400 hover:bg-gray-100 dark:hover:bg-gray-700 rounded"
+            title={mode === 'week' ? 'Next week' : 'Next month'}
+          >
+            <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5l7 7-7 7" />
+            </svg>
+          </button>
+          <button
+            onClick={() => onPeriodChange(mode, today)}
+            className="px-2 py-1 text-sm text-gray-600 dark:text-gray-400 hover:bg-gray-100 dark:hover:bg-gray-700 rounded"
+          >
+            Today
+          </button>
+          <h3 className="text-sm font-medium text-gray-900 dark:text-gray-100">
+            {formatCalendarPeriod(mode, anchor)}
+          </h3>
+          {loading && <span className="text-xs text-gray-500 dark:text-gray-400">Loading...</span>}
+        </div>
+        <div className="inline-flex rounded-lg border dark:border-gray-600 overflow-hidden text-sm">
+          {(['month', 'week'] as const).map(option => (
+            <button
+              key={option}
+              onClick={() => onPeriodChange(option, anchor)}
+              className={`px-3 py-1 capitalize transition-colors ${
+                mode === option
+                  ? 'bg-gray-100 dark:bg-gray-700 text-gray-900 dark:text-gray-100 font-medium'
+                  : 'text-gray-600 dark:text-gray-400 hover:bg-gray-50 dark:hover:bg-gray-700/50'
+              }`}
+            >
+              {option}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <DndContext
+        sensors={sensors}
+        onDragStart={() => {
+          draggingRef.current = true;
+        }}
+        onDragEnd={handleDragEnd}
+        onDragCancel={() => {
+          draggingRef.current = false;
+        }}
+      >
+        <div className="border-l border-t dark:border-gray-700 rounded-lg overflow-hidden">
+          <div className="grid grid-cols-7 bg-gray-50 dark:bg-gray-900">
+            {days.slice(0, 7).map(day => (
+              <div
+                key={day}
+                className="px-2 py-1.5 text-xs font-medium text-gray-500 dark:text-gray-400 border-r border-b dark:border-gray-700"
+              >
+                {formatWeekday(day)}
+              </div>
+            ))}
+          </div>
+          <div className="grid grid-cols-7">
+            {days.map(day => (
+              <CalendarDay
+                key={day}
+                day={day}
+                mode={mode}
+                inPeriod={mode === 'week' || day.startsWith(month)}
+                isToday={day === today}
+                droppable={canMove}
+                onCreate={onCreate ? () => onCreate(day) : undefined}
+              >
+                {eventsByDay.get(day)?.map(({ row, continued }) => {
+                  const range = toDateRange(row.properties[datePropertyId]?.value);
+                  return (
+                    <CalendarEvent
+                      key={row.id}
+                      id={`${row.id}|${day}`}
+                      title={getEventTitle(row)}
+                      time={!continued && range && hasTime(range.start) ? formatEventTime(range) : null}
+                      continued={continued}
+                      canMove={canMove}
+                      onClick={onEventClick ? () => !draggingRef.current && onEventClick(row.id) : undefined}
+                      saving={isSaving(row.id)}
+                      error={getError(row.id)}
+                    />
+                  );
+                })}
+              </CalendarDay>
+            ))}
+          </div>
+        </div>
+      </DndContext>
+    </div>
+  );
+}
@@ -16,10 +16,20 @@ interface Comment {
 
 interface CommentsPanelProps {
   pageId: string;
+  formId?: string;  // Form the page is accessed through (required for form users)
   collapsed?: boolean;
 }
 
-export default function CommentsPanel({ pageId, collapsed = true }: CommentsPanelProps) {
+// Build the comments list URL for a page, scoped to a form when given
+function commentsUrl(pageId: string, formId?: string): string {
+  const params = new URLSearchParams({ page_id: pageId });
+  if (formId) {
+    params.set('form_id', formId);
+  }
+  return `/api/notion/comments?${params.toString()}`;
+}
+
+export default function CommentsPanel({ pageId, formId, collapsed = true }: CommentsPanelProps) {
   const [isCollapsed, setIsCollapsed] = useState(collapsed);
   const [comments, setComments] = useState<Comment[]>([]);
   const [loading, setLoading] = useState(true);
@@ -44,7 +54,7 @@ export default function CommentsPanel({ pageId, collapsed = true }: CommentsPane
     setLoading(true);
     setFetchError(null);
     try {
-      const response = await fetch(`/api/notion/comments?page_id=${pageId}`);
+      const response = await fetch(commentsUrl(pageId, formId));
       const data = await response.json();
 
       if (!response.ok) {
@@ -70,6 +80,7 @@ export default function CommentsPanel({ pageId, collapsed = true }: CommentsPane
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
+          formId,
           pageId,
           content: newComment.trim(),
         }),
@@ -231,7 +242,7 @@ export default function CommentsPanel({ pageId, collapsed = true }: CommentsPane
 }
 
 // Compact version for list view expanded rows - with expandable comments
-export function CommentPreview({ pageId }: { pageId: string }) {
+export function CommentPreview({ pageId, formId }: { pageId: string; formId?: string }) {
   const [comments, setComments] = useState<Comment[]>([]);
   const [loading, setLoading] = useState(true);
   const [expanded, setExpanded] = useState(false);
@@ -239,7 +250,7 @@ export function CommentPreview({ pageId }: { pageId: string }) {
   const [submitting, setSubmitting] = useState(false);
 
   useEffect(() => {
-    fetch(`/api/notion/comments?page_id=${pageId}`)
+    fetch(commentsUrl(pageId, formId))
       .then(res => res.json())
       .then(data => {
         if (data.comments && data.comments.length > 0) {
@@ -248,7 +259,7 @@ export function CommentPreview({ pageId }: { pageId: string }) {
       })
       .catch(() => {})
       .finally(() => setLoading(false));
-  }, [pageId]);
+  }, [pageId, formId]);
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -260,6 +271,7 @@ export function CommentPreview({ pageId }: { pageId: string }) {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
+          formId,
           pageId,
           content: newComment.trim(),
         }),
@@ -430,19 +442,19 @@ export function CommentPreview({ pageId }: { pageId: string }) {
 }
 
 // Hook to fetch comment count
-export function useCommentCount(pageId: string) {
+export function useCommentCount(pageId: string, formId?: string) {
   const [count, setCount] = useState<number | null>(null);
 
   useEffect(() => {
     if (!pageId) return;
 
-    fetch(`/api/notion/comments?page_id=${pageId}`)
+    fetch(commentsUrl(pageId, formId))
       .then(res => res.json())
       .then(data => {
         setCount(data.count || 0);
       })
       .catch(() => setCount(0));
-  }, [pageId]);
+  }, [pageId, formId]);
 
   return count;
 }
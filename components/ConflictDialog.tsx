@@ -0,0 +1,108 @@
+'use client';
+
+import { useState } from 'react';
+import { FieldConflict } from '@/types/form';
+
+type Choice = 'theirs' | 'yours';
+
+interface ConflictDialogProps {
+  conflicts: FieldConflict[];
+  getLabel: (propertyId: string) => string;
+  formatValue: (propertyId: string, value: any) => string;
+  onResolve: (values: Record<string, any>) => void;  // Chosen value of each conflicting field
+  onCancel: () => void;
+}
+
+// Field-by-field merge of an edit with changes someone else saved meanwhile.
+// Each conflicting field keeps either the saved value or the editor's.
+export default function ConflictDialog({ conflicts, getLabel, formatValue, onResolve, onCancel }: ConflictDialogProps) {
+  const [choices, setChoices] = useState<Record<string, Choice>>(() =>
+    Object.fromEntries(conflicts.map(conflict => [conflict.propertyId, 'yours' as Choice]))
+  );
+
+  const resolve = () => {
+    onResolve(Object.fromEntries(conflicts.map(conflict => [
+      conflict.propertyId,
+      choices[conflict.propertyId] === 'theirs' ? conflict.theirs : conflict.yours,
+    ])));
+  };
+
+  const renderOption = (conflict: FieldConflict, choice: Choice, title: string) => {
+    const selected = choices[conflict.propertyId] === choice;
+    return (
+      <label
+        className={`flex-1 min-w-0 p-3 border rounded-lg cursor-pointer transition-colors ${
+          selected
+            ? 'border-blue-500 bg-blue-50 dark:bg-blue-900/30'
+            : 'border-gray-200 dark:border-gray-600 hover:bg-gray-50 dark:hover:bg-gray-700/50'
+        }`}
+      >
+        <div className="flex items-center gap-2 text-xs font-medium text-gray-600 dark:text-gray-300 mb-1">
+          <input
+            type="radio"
+            name={`conflict-${conflict.propertyId}`}
+            checked={selected}
+            onChange={() => setChoices(prev => ({ ...prev, [conflict.propertyId]: choice }))}
+          />
+          {title}
+        </div>
+        <div className="text-sm text-gray-900 dark:text-gray-100 break-words whitespace-pre-wrap">
+          {formatValue(conflict.propertyId, choice === 'theirs' ? conflict.theirs : conflict.yours)}
+        </div>
+      </label>
+    );
+  };
+
+  return (
+    <div className="fixed inset-0 z-[60] flex items-center justify-center p-4">
+      <div className="absolute inset-0 bg-black/40" onClick={onCancel} aria-hidden="true" />
+      <div
+        role="dialog"
+        aria-modal="true"
+        className="relative w-full max-w-2xl max-h-[90vh] flex flex-col bg-white dark:bg-gray-800 rounded-lg shadow-xl"
+      >
+        <div className="px-6 py-4 border-b dark:border-gray-700">
+          <h2 className="text-lg font-semibold text-gray-900 dark:text-gray-100">Someone else changed this record</h2>
+          <p className="text-sm text-gray-500 dark:text-gray-400 mt-1">
+            These fields were changed while you were editing. Choose which value to keep for each;
+            their other changes have been added to the form.
+          </p>
+        </div>
+
+        <div className="flex-1 overflow-y-auto px-6 py-4 space-y-4">
+          {conflicts.map(conflict => (
+            <div key={conflict.propertyId}>
+              <div className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                {getLabel(conflict.propertyId)}
+              </div>
+              <div className="text-xs text-gray-500 dark:text-gray-400 mb-2">
+                Was: {formatValue(conflict.propertyId, conflict.base)}
+              </div>
+              <div className="flex gap-2">
+                {renderOption(conflict, 'theirs', 'Their change')}
+                {renderOption(conflict, 'yours', 'Your change')}
+              </div>
+            </div>
+          ))}
+        </div>
+
+        <div className="flex justify-end gap-2 px-6 py-4 border-t dark:border-gray-700">
+          <button
+            type="button"
+            onClick={onCancel}
+            className="px-4 py-2 text-sm border border-gray-300 dark:border-gray-600 rounded-lg hover:bg-gray-50 dark:hover:bg-gray-700 dark:text-gray-200 transition-colors"
+          >
+            Keep editing
+          </button>
+          <button
+            type="button"
+            onClick={resolve}
+            className="px-4 py-2 text-sm bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors font-medium"
+          >
+            Save merged record
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,78 @@
+'use client';
+
+import { DateConfig, DateRangeValue } from '@/types/form';
+import { fromDateRange, getLocalTimeZone, toDateRange, toZonedWallTime } from '@/lib/date-value';
+
+interface DateFieldProps {
+  value: string | DateRangeValue | null | undefined;
+  onChange: (value: string | DateRangeValue) => void;
+  dateConfig?: DateConfig;
+  disabled?: boolean;
+  inputClassName: string;
+}
+
+// Date input for date properties: a date or a date and time, with an optional
+// end. Times are entered in the value's own zone, else the field's zone, else
+// the submitter's.
+export default function DateField({
+  value,
+  onChange,
+  dateConfig,
+  disabled = false,
+  inputClassName,
+}: DateFieldProps) {
+  const range = toDateRange(value);
+  const includeTime = !!dateConfig?.includeTime;
+  const timeZone = range?.timeZone || dateConfig?.timeZone || getLocalTimeZone();
+
+  const toInputValue = (part: string | null | undefined): string => {
+    if (!part) return '';
+    return includeTime ? toZonedWallTime(part, timeZone) : part.slice(0, 10);
+  };
+
+  const update = (start: string, end: string | null) => {
+    if (!start && !end) {
+      onChange('');
+      return;
+    }
+    onChange(fromDateRange({ start, end, timeZone: includeTime ? timeZone : null }));
+  };
+
+  const start = toInputValue(range?.start);
+  const end = toInputValue(range?.end);
+  const inputType = includeTime ? 'datetime-local' : 'date';
+
+  return (
+    <div className="space-y-1">
+      <div className={dateConfig?.range ? 'flex items-center gap-2' : ''}>
+        <input
+          type={inputType}
+          value={start}
+          onChange={(e) => update(e.target.value, dateConfig?.range ? end || null : null)}
+          disabled={disabled}
+          className={inputClassName}
+          aria-label={dateConfig?.range ? 'Start' : undefined}
+        />
+        {dateConfig?.range && (
+          <>
+            <span className="text-gray-400 dark:text-gray-500">→</span>
+            <input
+              type={inputType}
+              value={end}
+              min={start || undefined}
+              onChange={(e) => update(start, e.target.value || null)}
+              disabled={disabled}
+              className={inputClassName}
+              aria-label="End (optional)"
+            />
+          </>
+        )}
+      </div>
+      {includeTime && (
+        <p className="text-xs text-gray-500 dark:text-gray-400">
+          Times are in {timeZone}
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,134 @@
+'use client';
+
+import { useState, useEffect, useRef } from 'react';
+import { getDateStart } from '@/lib/date-value';
+
+export interface CellUser {
+  id: string;
+  name: string;
+  email: string | null;
+}
+
+interface EditableCellProps {
+  type: string;
+  value: any;
+  options?: { name: string }[];
+  users?: CellUser[];
+  onCommit: (value: any) => void;
+  onCancel: () => void;
+}
+
+// Property types that can be edited inline in the list view
+export const INLINE_EDITABLE_TYPES = [
+  'title',
+  'rich_text',
+  'url',
+  'email',
+  'phone_number',
+  'number',
+  'select',
+  'status',
+  'checkbox',
+  'date',
+  'people',
+];
+
+// Convert a row value (as returned by the rows API) to the editor's value
+function toEditorValue(type: string, value: any): string {
+  if (value === null || value === undefined) return '';
+  switch (type) {
+    case 'date':
+      return (getDateStart(value) || '').slice(0, 10);
+    case 'people':
+      return Array.isArray(value) && value.length > 0 ? value[0].id || '' : '';
+    default:
+      return String(value);
+  }
+}
+
+// In-place editor for a single list cell. Text-like editors commit on Enter
+// or blur; selects commit on change. Escape cancels.
+export default function EditableCell({ type, value, options = [], users = [], onCommit, onCancel }: EditableCellProps) {
+  const [draft, setDraft] = useState(() => toEditorValue(type, value));
+  const inputRef = useRef<HTMLInputElement & HTMLSelectElement>(null);
+  const doneRef = useRef(false);
+
+  useEffect(() => {
+    inputRef.current?.focus();
+  }, []);
+
+  const commit = (next: string) => {
+    if (doneRef.current) return;
+    doneRef.current = true;
+
+    if (next === toEditorValue(type, value)) {
+      onCancel();
+    } else if (type === 'number') {
+      onCommit(next === '' ? null : Number(next));
+    } else {
+      onCommit(next);
+    }
+  };
+
+  const cancel = () => {
+    if (doneRef.current) return;
+    doneRef.current = true;
+    onCancel();
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'Enter') {
+      e.preventDefault();
+      commit(draft);
+    } else if (e.key === 'Escape') {
+      e.preventDefault();
+      cancel();
+    }
+  };
+
+  const inputClasses = 'w-full px-2 py-1 text-sm border border-blue-500 rounded focus:outline-none focus:ring-1 focus:ring-blue-500 bg-white dark:bg-gray-700 dark:text-gray-100';
+
+  if (type === 'select' || type === 'status' || type === 'people') {
+    const choices = type === 'people'
+      ? users.map(u => ({ value: u.id, label: u.email ? `${u.name} (${u.email})` : u.name }))
+      : options.map(o => ({ value: o.name, label: o.name }));
+
+    return (
+      <select
+        ref={inputRef}
+        value={draft}
+        onChange={(e) => {
+          setDraft(e.target.value);
+          commit(e.target.value);
+        }}
+        onBlur={cancel}
+        onKeyDown={(e) => e.key === 'Escape' && cancel()}
+        className={inputClasses}
+      >
+        {draft === '' && <option value="">Select...</option>}
+        {choices.map(choice => (
+          <option key={choice.value} value={choice.value}>{choice.label}</option>
+        ))}
+      </select>
+    );
+  }
+
+  const inputType = type === 'number' ? 'number'
+    : type === 'date' ? 'date'
+    : type === 'url' ? 'url'
+    : type === 'email' ? 'email'
+    : type === 'phone_number' ? 'tel'
+    : 'text';
+
+  return (
+    <input
+      ref={inputRef}
+      type={inputType}
+      value={draft}
+      onChange={(e) => setDraft(e.target.value)}
+      onBlur={() => commit(draft)}
+      onKeyDown={handleKeyDown}
+      className={inputClasses}
+    />
+  );
+}
@@ -0,0 +1,187 @@
+'use client';
+
+import { FieldRule, FieldCondition, ConditionOperator } from '@/types/form';
+
+interface RuleField {
+  notionPropertyId: string;
+  notionPropertyType: string;
+  label: string;
+  options?: { id: string; name: string; color: string }[];
+}
+
+interface FieldRuleEditorProps {
+  label: string;
+  rule?: FieldRule;
+  onChange: (rule: FieldRule | undefined) => void;
+  fields: RuleField[];  // fields the conditions can reference
+}
+
+const OPERATOR_LABELS: Record<ConditionOperator, string> = {
+  equals: 'is',
+  does_not_equal: 'is not',
+  contains: 'contains',
+  does_not_contain: 'does not contain',
+  greater_than: 'is greater than',
+  less_than: 'is less than',
+  is_empty: 'is empty',
+  is_not_empty: 'is not empty',
+};
+
+// Operators offered per property type
+function getOperators(type: string): ConditionOperator[] {
+  switch (type) {
+    case 'checkbox':
+      return ['equals'];
+    case 'select':
+    case 'status':
+      return ['equals', 'does_not_equal', 'is_empty', 'is_not_empty'];
+    case 'multi_select':
+    case 'people':
+    case 'relation':
+      return ['contains', 'does_not_contain', 'is_empty', 'is_not_empty'];
+    case 'number':
+    case 'date':
+      return ['equals', 'does_not_equal', 'greater_than', 'less_than', 'is_empty', 'is_not_empty'];
+    default:
+      return ['equals', 'does_not_equal', 'contains', 'does_not_contain', 'is_empty', 'is_not_empty'];
+  }
+}
+
+const inputClasses = 'px-2 py-1 text-xs border dark:border-gray-600 rounded focus:ring-1 focus:ring-blue-500 bg-white dark:bg-gray-700 dark:text-gray-100';
+
+// Editor for a field's conditional visibility/requiredness rule
+export default function FieldRuleEditor({ label, rule, onChange, fields }: FieldRuleEditorProps) {
+  const conditions = rule?.conditions || [];
+
+  const newCondition = (field: RuleField): FieldCondition => ({
+    propertyId: field.notionPropertyId,
+    operator: getOperators(field.notionPropertyType)[0],
+    value: field.notionPropertyType === 'checkbox' ? 'true' : '',
+  });
+
+  const updateConditions = (next: FieldCondition[]) => {
+    onChange(next.length > 0 ? { match: rule?.match || 'all', conditions: next } : undefined);
+  };
+
+  const updateCondition = (index: number, updates: Partial<FieldCondition>) => {
+    updateConditions(conditions.map((c, i) => (i === index ? { ...c, ...updates } : c)));
+  };
+
+  const renderValueInput = (condition: FieldCondition, index: number) => {
+    if (condition.operator === 'is_empty' || condition.operator === 'is_not_empty') {
+      return null;
+    }
+
+    const field = fields.find(f => f.notionPropertyId === condition.propertyId);
+    const value = condition.value ?? '';
+
+    if (field?.notionPropertyType === 'checkbox') {
+      return (
+        <select
+          value={String(value)}
+          onChange={(e) => updateCondition(index, { value: e.target.value })}
+          className={inputClasses}
+        >
+          <option value="true">Checked</option>
+          <option value="false">Unchecked</option>
+        </select>
+      );
+    }
+
+    if (field?.options && field.options.length > 0) {
+      return (
+        <select
+          value={value}
+          onChange={(e) => updateCondition(index, { value: e.target.value })}
+          className={`${inputClasses} flex-1 min-w-0`}
+        >
+          <option value="">Select...</option>
+          {field.options.map(opt => (
+            <option key={opt.id} value={opt.name}>{opt.name}</option>
+          ))}
+        </select>
+      );
+    }
+
+    return (
+      <input
+        type={field?.notionPropertyType === 'number' ? 'number' : field?.notionPropertyType === 'date' ? 'date' : 'text'}
+        value={value}
+        onChange={(e) => updateCondition(index, { value: e.target.value })}
+        placeholder="Value"
+        className={`${inputClasses} flex-1 min-w-0`}
+      />
+    );
+  };
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-1">
+        <label className="block text-xs font-medium text-gray-600 dark:text-gray-400">{label}</label>
+        {conditions.length > 1 && (
+          <select
+            value={rule?.match || 'all'}
+            onChange={(e) => onChange({ match: e.target.value as FieldRule['match'], conditions })}
+            className={inputClasses}
+          >
+            <option value="all">All conditions</option>
+            <option value="any">Any condition</option>
+          </select>
+        )}
+      </div>
+
+      {conditions.map((condition, index) => {
+        const field = fields.find(f => f.notionPropertyId === condition.propertyId);
+        return (
+          <div key={index} className="flex items-center gap-1 mb-1">
+            <select
+              value={condition.propertyId}
+              onChange={(e) => {
+                const next = fields.find(f => f.notionPropertyId === e.target.value);
+                if (next) {
+                  updateConditions(conditions.map((c, i) => (i === index ? newCondition(next) : c)));
+                }
+              }}
+              className={`${inputClasses} max-w-[7rem]`}
+            >
+              {!field && <option value={condition.propertyId}>(removed field)</option>}
+              {fields.map(f => (
+                <option key={f.notionPropertyId} value={f.notionPropertyId}>{f.label}</option>
+              ))}
+            </select>
+            <select
+              value={condition.operator}
+              onChange={(e) => updateCondition(index, { operator: e.target.value as ConditionOperator })}
+              className={inputClasses}
+            >
+              {getOperators(field?.notionPropertyType || '').map(op => (
+                <option key={op} value={op}>{OPERATOR_LABELS[op]}</option>
+              ))}
+            </select>
+            {renderValueInput(condition, index)}
+            <button
+              type="button"
+              onClick={() => updateConditions(conditions.filter((_, i) => i !== index))}
+              className="px-1 text-gray-400 hover:text-red-500"
+              title="Remove condition"
+            >
+              &times;
+            </button>
+          </div>
+        );
+      })}
+
+      {fields.length > 0 ? (
+        <button
+          type="button"
+          onClick={() => updateConditions([...conditions, newCondition(fields[0])])}
+          className="text-xs text-blue-600 dark:text-blue-400 hover:text-blue-800 dark:hover:text-blue-300"
+        >
+          + Add condition
+        </button>
+      ) : (
+        <p className="text-xs text-gray-500 dark:text-gray-400">Add other fields to the form to create conditions</p>
+      )}
+    </div>
+  );
+}
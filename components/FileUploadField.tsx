@@ -0,0 +1,181 @@
+'use client';
+
+import { useState, useRef } from 'react';
+import { FileConfig, FileValue } from '@/types/form';
+import { checkFileAllowed } from '@/lib/form-validation';
+
+interface FileUploadFieldProps {
+  formId?: string;
+  propertyId: string;
+  value: FileValue[] | string | null | undefined;
+  onChange: (value: FileValue[]) => void;
+  fileConfig?: FileConfig;
+  disabled?: boolean;
+}
+
+// Older configs stored a single URL string for files properties
+function normalizeFiles(value: FileUploadFieldProps['value']): FileValue[] {
+  if (Array.isArray(value)) return value;
+  if (typeof value === 'string' && value) {
+    return [{ name: value.split('/').pop() || value, type: 'external', url: value }];
+  }
+  return [];
+}
+
+// Drag-and-drop multi-file upload for files properties. Files are uploaded
+// as soon as they are added; the returned references are submitted with the form.
+export default function FileUploadField({
+  formId,
+  propertyId,
+  value,
+  onChange,
+  fileConfig,
+  disabled = false,
+}: FileUploadFieldProps) {
+  const [uploading, setUploading] = useState<string[]>([]);
+  const [uploadError, setUploadError] = useState<string | null>(null);
+  const [dragOver, setDragOver] = useState(false);
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  const files = normalizeFiles(value);
+  const maxFiles = fileConfig?.maxFiles;
+  const canAdd = !disabled && (!maxFiles || files.length + uploading.length < maxFiles);
+
+  const uploadFiles = async (selected: File[]) => {
+    setUploadError(null);
+
+    if (maxFiles && files.length + selected.length > maxFiles) {
+      setUploadError(`At most ${maxFiles} file${maxFiles === 1 ? '' : 's'} allowed`);
+      return;
+    }
+
+    for (const file of selected) {
+      const error = checkFileAllowed(fileConfig, { name: file.name, type: file.type, size: file.size });
+      if (error) {
+        setUploadError(error);
+        return;
+      }
+    }
+
+    setUploading(selected.map(f => f.name));
+    const uploaded: FileValue[] = [];
+
+    try {
+      for (const file of selected) {
+        const body = new FormData();
+        body.append('file', file);
+        body.append('propertyId', propertyId);
+        if (formId) body.append('formId', formId);
+
+        const response = await fetch('/api/uploads', { method: 'POST', body });
+        const data = await response.json();
+
+        if (!response.ok) {
+          throw new Error(data.error || `Failed to upload ${file.name}`);
+        }
+
+        uploaded.push(data.file);
+        setUploading(prev => prev.filter(name => name !== file.name));
+      }
+    } catch (err) {
+      setUploadError(err instanceof Error ? err.message : 'Upload failed');
+    } finally {
+      setUploading([]);
+      if (uploaded.length > 0) {
+        onChange([...files, ...uploaded]);
+      }
+    }
+  };
+
+  const removeFile = (index: number) => {
+    onChange(files.filter((_, i) => i !== index));
+  };
+
+  const accept = fileConfig?.allowedTypes?.filter(Boolean).join(',') || undefined;
+
+  return (
+    <div className="space-y-2">
+      {files.length > 0 && (
+        <ul className="space-y-1">
+          {files.map((file, index) => (
+            <li
+              key={`${file.name}-${index}`}
+              className="flex items-center justify-between gap-2 px-3 py-2 text-sm border border-gray-200 dark:border-gray-600 rounded-lg bg-gray-50 dark:bg-gray-700/50"
+            >
+              {file.url ? (
+                <a
+                  href={file.url}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="truncate text-blue-600 dark:text-blue-400 hover:underline"
+                >
+                  {file.name}
+                </a>
+              ) : (
+                <span className="truncate dark:text-gray-200">{file.name}</span>
+              )}
+              {!disabled && (
+                <button
+                  type="button"
+                  onClick={() => removeFile(index)}
+                  className="text-gray-400 hover:text-red-500 dark:hover:text-red-400 flex-shrink-0"
+                  title="Remove file"
+                >
+                  &times;
+                </button>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {uploading.map(name => (
+        <div key={name} className="px-3 py-2 text-sm text-gray-500 dark:text-gray-400 border border-dashed dark:border-gray-600 rounded-lg">
+          Uploading {name}...
+        </div>
+      ))}
+
+      {canAdd && (
+        <div
+          onClick={() => inputRef.current?.click()}
+          onDragOver={(e) => {
+            e.preventDefault();
+            setDragOver(true);
+          }}
+          onDragLeave={() => setDragOver(false)}
+          onDrop={(e) => {
+            e.preventDefault();
+            setDragOver(false);
+            if (e.dataTransfer.files.length > 0) {
+              uploadFiles(Array.from(e.dataTransfer.files));
+            }
+          }}
+          className={`px-3 py-6 text-center text-sm border-2 border-dashed rounded-lg cursor-pointer transition-colors ${
+            dragOver
+              ? 'border-blue-500 bg-blue-50 dark:bg-blue-900/20 text-blue-600 dark:text-blue-400'
+              : 'border-gray-300 dark:border-gray-600 text-gray-500 dark:text-gray-400 hover:border-gray-400 dark:hover:border-gray-500'
+          }`}
+        >
+          Drop files here or click to browse
+          <input
+            ref={inputRef}
+            type="file"
+            multiple={maxFiles !== 1}
+            accept={accept}
+            onChange={(e) => {
+              if (e.target.files && e.target.files.length > 0) {
+                uploadFiles(Array.from(e.target.files));
+              }
+              e.target.value = '';
+            }}
+            className="hidden"
+          />
+        </div>
+      )}
+
+      {uploadError && (
+        <p className="text-xs text-red-500 dark:text-red-400">{uploadError}</p>
+      )}
+    </div>
+  );
+}
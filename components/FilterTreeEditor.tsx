@@ -0,0 +1,186 @@
+'use client';
+
+import { DesignTimeFilter, FilterGroup, FilterNode, FilterOperator } from '@/types/form';
+import { getFilterOperators, getOperatorLabel, isFilterGroup } from '@/lib/list-filters';
+import FilterValueInput from './FilterValueInput';
+
+interface FilterProperty {
+  id: string;
+  name: string;
+  type: string;
+  options?: { name: string }[];
+}
+
+interface FilterTreeEditorProps {
+  filters: FilterNode[];
+  onChange: (filters: FilterNode[]) => void;
+  properties: FilterProperty[];
+  users?: { id: string; name: string }[];
+}
+
+// Notion allows two levels of groups below the top-level list
+const MAX_GROUP_DEPTH = 2;
+
+const inputClasses = 'px-2 py-1 text-sm border dark:border-gray-600 rounded focus:ring-1 focus:ring-blue-500 bg-white dark:bg-gray-700 dark:text-gray-100';
+
+function newFilter(property: FilterProperty): DesignTimeFilter {
+  return {
+    propertyId: property.id,
+    propertyType: property.type,
+    operator: getFilterOperators(property.type)[0],
+    value: property.type === 'checkbox' ? true : undefined,
+  };
+}
+
+// A list of filters and groups joined by one operator
+function FilterList({
+  nodes,
+  operator,
+  onChange,
+  properties,
+  users,
+  depth,
+}: {
+  nodes: FilterNode[];
+  operator: 'and' | 'or';
+  onChange: (nodes: FilterNode[]) => void;
+  properties: FilterProperty[];
+  users: { id: string; name: string }[];
+  depth: number;
+}) {
+  const propertyMap = new Map(properties.map(p => [p.id, p]));
+
+  const updateNode = (index: number, node: FilterNode) => {
+    onChange(nodes.map((n, i) => (i === index ? node : n)));
+  };
+
+  const removeNode = (index: number) => {
+    onChange(nodes.filter((_, i) => i !== index));
+  };
+
+  return (
+    <div className="space-y-2">
+      {nodes.map((node, index) => (
+        <div key={index} className="flex items-start gap-2">
+          <span className="w-10 pt-1 text-xs text-gray-500 dark:text-gray-400 flex-shrink-0">
+            {index === 0 ? 'Where' : operator}
+          </span>
+
+          {isFilterGroup(node) ? (
+            <div className="flex-1 p-2 space-y-2 border dark:border-gray-600 rounded bg-gray-50 dark:bg-gray-900/40">
+              <div className="flex items-center justify-between gap-2">
+                <select
+                  value={node.operator}
+                  onChange={(e) => updateNode(index, { ...node, operator: e.target.value as FilterGroup['operator'] })}
+                  className={inputClasses}
+                >
+                  <option value="and">All of the following</option>
+                  <option value="or">Any of the following</option>
+                </select>
+                <button
+                  type="button"
+                  onClick={() => removeNode(index)}
+                  className="text-gray-400 hover:text-red-500"
+                  title="Remove group"
+                >
+                  &times;
+                </button>
+              </div>
+              <FilterList
+                nodes={node.filters}
+                operator={node.operator}
+                onChange={(filters) => updateNode(index, { ...node, filters })}
+                properties={properties}
+                users={users}
+                depth={depth + 1}
+              />
+            </div>
+          ) : (
+            <div className="flex-1 flex flex-wrap items-center gap-2">
+              <select
+                value={node.propertyId}
+                onChange={(e) => {
+                  const property = propertyMap.get(e.target.value);
+                  if (property) updateNode(index, newFilter(property));
+                }}
+                className={inputClasses}
+              >
+                {!propertyMap.has(node.propertyId) && <option value={node.propertyId}>Unknown property</option>}
+                {properties.map(p => (
+                  <option key={p.id} value={p.id}>{p.name}</option>
+                ))}
+              </select>
+              <select
+                value={node.operator}
+                onChange={(e) => updateNode(index, {
+                  ...node,
+                  operator: e.target.value as FilterOperator,
+                  value: node.propertyType === 'checkbox' ? node.value : undefined,
+                })}
+                className={inputClasses}
+              >
+                {getFilterOperators(node.propertyType).map(op => (
+                  <option key={op} value={op}>{getOperatorLabel(node.propertyType, op)}</option>
+                ))}
+              </select>
+              <FilterValueInput
+                filter={node}
+                onChange={(value) => updateNode(index, { ...node, value })}
+                options={propertyMap.get(node.propertyId)?.options}
+                users={users}
+                className={`${inputClasses} flex-1 min-w-[8rem]`}
+              />
+              <button
+                type="button"
+                onClick={() => removeNode(index)}
+                className="text-gray-400 hover:text-red-500"
+                title="Remove filter"
+              >
+                &times;
+              </button>
+            </div>
+          )}
+        </div>
+      ))}
+
+      <div className="flex gap-3">
+        <button
+          type="button"
+          onClick={() => properties.length > 0 && onChange([...nodes, newFilter(properties[0])])}
+          className="text-sm text-blue-600 dark:text-blue-400 hover:text-blue-800 dark:hover:text-blue-300"
+        >
+          + Add filter
+        </button>
+        {depth < MAX_GROUP_DEPTH && (
+          <button
+            type="button"
+            onClick={() => properties.length > 0 && onChange([
+              ...nodes,
+              { type: 'group', operator: operator === 'and' ? 'or' : 'and', filters: [newFilter(properties[0])] },
+            ])}
+            className="text-sm text-blue-600 dark:text-blue-400 hover:text-blue-800 dark:hover:text-blue-300"
+          >
+            + Add group
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
+
+// Builder UI for a form's list filters: a top-level list joined with "and",
+// with nested and/or groups
+export default function FilterTreeEditor({ filters, onChange, properties, users = [] }: FilterTreeEditorProps) {
+  const filterable = properties.filter(p => getFilterOperators(p.type).length > 0);
+
+  return (
+    <FilterList
+      nodes={filters}
+      operator="and"
+      onChange={onChange}
+      properties={filterable}
+      users={users}
+      depth={0}
+    />
+  );
+}
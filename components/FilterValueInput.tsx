@@ -0,0 +1,85 @@
+'use client';
+
+import { DesignTimeFilter } from '@/types/form';
+import { operatorNeedsValue, DAY_COUNT_OPERATORS } from '@/lib/list-filters';
+
+interface FilterValueInputProps {
+  filter: DesignTimeFilter;
+  onChange: (value: any) => void;
+  options?: { name: string }[];
+  users?: { id: string; name: string }[];
+  onSubmit?: () => void;
+  className: string;
+}
+
+// Value picker for a list filter, chosen by property type and operator
+export default function FilterValueInput({
+  filter,
+  onChange,
+  options = [],
+  users = [],
+  onSubmit,
+  className,
+}: FilterValueInputProps) {
+  if (!operatorNeedsValue(filter.operator)) return null;
+
+  if (DAY_COUNT_OPERATORS.includes(filter.operator)) {
+    return (
+      <input
+        type="number"
+        min={1}
+        value={filter.value ?? ''}
+        onChange={(e) => onChange(e.target.value)}
+        onKeyDown={(e) => e.key === 'Enter' && onSubmit?.()}
+        placeholder="Number of days"
+        className={className}
+      />
+    );
+  }
+
+  if (filter.propertyType === 'checkbox') {
+    return (
+      <select
+        value={filter.value === true || filter.value === 'true' ? 'true' : 'false'}
+        onChange={(e) => onChange(e.target.value === 'true')}
+        className={className}
+      >
+        <option value="true">Checked</option>
+        <option value="false">Unchecked</option>
+      </select>
+    );
+  }
+
+  if (filter.propertyType === 'people') {
+    return (
+      <select value={filter.value || ''} onChange={(e) => onChange(e.target.value)} className={className}>
+        <option value="">Select a person</option>
+        {users.map(user => (
+          <option key={user.id} value={user.id}>{user.name}</option>
+        ))}
+      </select>
+    );
+  }
+
+  if (options.length > 0) {
+    return (
+      <select value={filter.value || ''} onChange={(e) => onChange(e.target.value)} className={className}>
+        <option value="">Select an option</option>
+        {options.map(opt => (
+          <option key={opt.name} value={opt.name}>{opt.name}</option>
+        ))}
+      </select>
+    );
+  }
+
+  return (
+    <input
+      type={filter.propertyType === 'number' ? 'number' : filter.propertyType === 'date' ? 'date' : 'text'}
+      value={filter.value ?? ''}
+      onChange={(e) => onChange(e.target.value)}
+      onKeyDown={(e) => e.key === 'Enter' && onSubmit?.()}
+      placeholder="Value"
+      className={className}
+    />
+  );
+}
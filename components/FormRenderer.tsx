@@ -1,8 +1,17 @@
 'use client';
 
-import { useState, useEffect } from 'react';
-import { FieldConfig, DefaultValue } from '@/types/form';
+import { useState, useEffect, useRef } from 'react';
+import { FieldConfig, DefaultValue, FormSection, FileValue, FieldConflict } from '@/types/form';
+import { validateFields, FieldValidationError, EditConflictError, FieldErrors, isFieldVisible, isFieldRequired, isEmptyValue, getVisibleData } from '@/lib/form-validation';
+import { evaluateFormula, FormulaError } from '@/lib/formula';
 import RelationPicker from './RelationPicker';
+import FileUploadField from './FileUploadField';
+import DateField from './DateField';
+import RichTextEditor from './RichTextEditor';
+import ConflictDialog from './ConflictDialog';
+import { getPlainText } from '@/lib/rich-text';
+import { formatTemplateValue } from '@/lib/title-template';
+import { formatDateValue } from '@/lib/date-value';
 
 interface NotionUser {
   id: string;
@@ -15,11 +24,14 @@ interface FormRendererProps {
   name: string;
   description?: string;
   fields: FieldConfig[];
-  onSubmit: (data: Record<string, any>) => void | Promise<void>;
+  onSubmit: (data: Record<string, any>, changedIds: string[]) => void | Promise<void>;  // changedIds: fields that differ from initialData
   submitLabel?: string;
   disabled?: boolean;
   currentUser?: { id: string; email: string; name?: string };
   initialData?: Record<string, any>;  // For edit mode - pre-populate with existing values
+  formId?: string;  // Used to authorize file uploads and relation lookups
+  sections?: FormSection[];  // Show the form as a multi-step wizard
+  columns?: number;  // Lay fields out in a grid with this many columns
 }
 
 interface FieldOption {
@@ -32,11 +44,61 @@ interface FieldWithOptions extends FieldConfig {
   options?: FieldOption[];
 }
 
-// Helper to compute default value
+// Static class names so Tailwind picks them up
+const GRID_COLUMNS: Record<number, string> = {
+  2: 'md:grid-cols-2',
+  3: 'md:grid-cols-3',
+  4: 'md:grid-cols-4',
+};
+
+const COLUMN_SPANS: Record<number, string> = {
+  2: 'md:col-span-2',
+  3: 'md:col-span-3',
+  4: 'md:col-span-4',
+};
+
+interface WizardStep {
+  id: string;
+  title: string;
+  description?: string;
+  fields: FieldConfig[];
+}
+
+// Group fields into wizard steps in section order. Fields not assigned to any
+// section (e.g. added after the sections were set up) go on the last step.
+function buildSteps(sections: FormSection[], fields: FieldConfig[]): WizardStep[] {
+  const fieldMap = new Map(fields.map(f => [f.notionPropertyId, f]));
+  const assigned = new Set<string>();
+
+  const steps: WizardStep[] = sections.map(section => ({
+    id: section.id,
+    title: section.title,
+    description: section.description,
+    fields: section.fieldIds
+      .filter(id => fieldMap.has(id) && !assigned.has(id))
+      .map(id => {
+        assigned.add(id);
+        return fieldMap.get(id)!;
+      }),
+  }));
+
+  const unassigned = fields.filter(f => !assigned.has(f.notionPropertyId));
+  if (unassigned.length > 0 && steps.length > 0) {
+    steps[steps.length - 1].fields.push(...unassigned);
+  }
+
+  return steps;
+}
+
+// Helper to compute default value. Formula defaults can reference other
+// fields, so they are evaluated against the defaults computed so far.
 function computeDefaultValue(
-  defaultValue: DefaultValue | undefined,
+  field: FieldConfig,
+  fields: FieldConfig[],
+  data: Record<string, any>,
   currentUser?: { id: string; email: string; name?: string }
 ): any {
+  const defaultValue: DefaultValue | undefined = field.defaultValue;
   if (!defaultValue) return undefined;
 
   if (defaultValue.type === 'static') {
@@ -56,6 +118,22 @@ function computeDefaultValue(
     }
   }
 
+  if (defaultValue.type === 'formula') {
+    try {
+      return evaluateFormula(defaultValue.expression, field.notionPropertyType, {
+        fields,
+        data,
+        user: currentUser,
+      });
+    } catch (err) {
+      if (err instanceof FormulaError) {
+        console.warn(`Invalid formula default for "${field.label}":`, err.message);
+        return undefined;
+      }
+      throw err;
+    }
+  }
+
   return undefined;
 }
 
@@ -65,8 +143,13 @@ function computeAllDefaults(
   currentUser?: { id: string; email: string; name?: string }
 ): Record<string, any> {
   const defaults: Record<string, any> = {};
-  fields.forEach(field => {
-    let defaultVal = computeDefaultValue(field.defaultValue, currentUser);
+  // Static and function defaults first, so formulas can reference them
+  const ordered = [
+    ...fields.filter(f => f.defaultValue?.type !== 'formula'),
+    ...fields.filter(f => f.defaultValue?.type === 'formula'),
+  ];
+  ordered.forEach(field => {
+    let defaultVal = computeDefaultValue(field, fields, defaults, currentUser);
     if (defaultVal !== undefined) {
       // Multi-select fields need the default as an array
       if (field.notionPropertyType === 'multi_select' && typeof defaultVal === 'string') {
@@ -78,6 +161,12 @@ function computeAllDefaults(
   return defaults;
 }
 
+// Whether a field still holds its saved value; all empty values are alike
+function isSameFormValue(a: any, b: any): boolean {
+  if (isEmptyValue(a) && isEmptyValue(b)) return true;
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
 export default function FormRenderer({
   name,
   description,
@@ -87,6 +176,9 @@ export default function FormRenderer({
   disabled = false,
   currentUser,
   initialData,
+  formId,
+  sections,
+  columns = 1,
 }: FormRendererProps) {
   // Initialize form data with initialData (edit mode) or defaults (create mode)
   const [formData, setFormData] = useState<Record<string, any>>(() => {
@@ -95,14 +187,18 @@ export default function FormRenderer({
     return initialData ? { ...defaults, ...initialData } : defaults;
   });
   const [errors, setErrors] = useState<Record<string, string>>({});
+  const [step, setStep] = useState(0);
   const [submitting, setSubmitting] = useState(false);
+  const [conflicts, setConflicts] = useState<FieldConflict[] | null>(null);  // From an edit that raced another
+  // The record's saved values, to tell which fields an edit changed
+  const savedValuesRef = useRef<Record<string, any>>(initialData || {});
   const [workspaceUsers, setWorkspaceUsers] = useState<NotionUser[]>([]);
   const [usersLoading, setUsersLoading] = useState(false);
 
-  // Fetch workspace users if there are people fields
+  // Fetch workspace users if there are people fields, or rich text that can mention them
   useEffect(() => {
-    const hasPeopleField = fields.some(f => f.notionPropertyType === 'people');
-    if (hasPeopleField) {
+    const needsUsers = fields.some(f => f.notionPropertyType === 'people' || f.notionPropertyType === 'rich_text');
+    if (needsUsers) {
       setUsersLoading(true);
       fetch('/api/notion/users')
         .then(res => res.json())
@@ -138,11 +234,16 @@ export default function FormRenderer({
     if (initialData) {
       const defaults = computeAllDefaults(fields, currentUser);
       setFormData({ ...defaults, ...initialData });
+      savedValuesRef.current = initialData;
       setErrors({});
+      setStep(0);
     }
   }, [initialData, fields, currentUser]);
 
-  const visibleFields = fields.filter(f => f.visible !== false);
+  // Re-evaluated on every change so conditional rules apply immediately. Values
+  // of hidden fields are kept while editing, but rules ignore them (as the server does).
+  const visibleData = getVisibleData(fields, formData);
+  const visibleFields = fields.filter(f => isFieldVisible(f, visibleData));
 
   const updateField = (propertyId: string, value: any) => {
     setFormData({ ...formData, [propertyId]: value });
@@ -152,65 +253,94 @@ export default function FormRenderer({
     }
   };
 
-  const validateForm = (): boolean => {
-    const newErrors: Record<string, string> = {};
+  // Wizard layout: only steps with at least one visible field are shown,
+  // followed by a review step
+  const isWizard = !!sections && sections.length > 0;
+  const steps = isWizard
+    ? buildSteps(sections, fields)
+        .map(step => ({ ...step, fields: step.fields.filter(f => isFieldVisible(f, visibleData)) }))
+        .filter(step => step.fields.length > 0)
+    : [];
+  const reviewStep = steps.length;
+  const currentStep = Math.min(step, reviewStep);
 
-    visibleFields.forEach(field => {
-      const value = formData[field.notionPropertyId];
+  const validateForm = (fieldsToCheck: FieldConfig[] = visibleFields): FieldErrors => {
+    const newErrors = validateFields(fieldsToCheck, visibleData);
 
-      if (field.required) {
-        // Check for empty values - handle different types
-        const isEmpty =
-          value === undefined ||
-          value === null ||
-          value === '' ||
-          (Array.isArray(value) && value.length === 0);
-
-        if (isEmpty) {
-          newErrors[field.notionPropertyId] = `${field.label} is required`;
-        }
-      }
-
-      // Type-specific validation
-      if (value && field.validation) {
-        if (field.notionPropertyType === 'number') {
-          const numValue = Number(value);
-          if (field.validation.min !== undefined && numValue < field.validation.min) {
-            newErrors[field.notionPropertyId] = `Minimum value is ${field.validation.min}`;
-          }
-          if (field.validation.max !== undefined && numValue > field.validation.max) {
-            newErrors[field.notionPropertyId] = `Maximum value is ${field.validation.max}`;
-          }
-        }
+    setErrors(newErrors);
+    return newErrors;
+  };
 
-        if (field.validation.pattern) {
-          const regex = new RegExp(field.validation.pattern);
-          if (!regex.test(String(value))) {
-            newErrors[field.notionPropertyId] = field.validation.message || 'Invalid format';
-          }
-        }
-      }
-    });
+  // Jump to the first step with an error
+  const showStepWithErrors = (fieldErrors: FieldErrors) => {
+    const index = steps.findIndex(s => s.fields.some(f => fieldErrors[f.notionPropertyId]));
+    if (index >= 0) {
+      setStep(index);
+    }
+  };
 
-    setErrors(newErrors);
-    return Object.keys(newErrors).length === 0;
+  const goNext = () => {
+    const stepErrors = validateForm(steps[currentStep].fields);
+    if (Object.keys(stepErrors).length === 0) {
+      setStep(currentStep + 1);
+    }
   };
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
 
-    if (!validateForm()) {
+    // Enter on a wizard step moves to the next step instead of submitting
+    if (isWizard && currentStep < reviewStep) {
+      goNext();
+      return;
+    }
+
+    const newErrors = validateForm();
+    if (Object.keys(newErrors).length > 0) {
+      showStepWithErrors(newErrors);
       return;
     }
 
+    await submitValues(formData);
+  };
+
+  const submitValues = async (data: Record<string, any>) => {
     setSubmitting(true);
     try {
-      await onSubmit(formData);
+      // Values of fields hidden by a rule are not submitted
+      const submitData = getVisibleData(fields, data);
+
+      const changedIds = Object.keys(submitData)
+        .filter(id => !isSameFormValue(submitData[id], savedValuesRef.current[id]));
+
+      await onSubmit(submitData, changedIds);
+    } catch (err) {
+      // Server-side validation errors are shown next to their fields
+      if (err instanceof FieldValidationError) {
+        setErrors(err.fieldErrors);
+        showStepWithErrors(err.fieldErrors);
+      } else if (err instanceof EditConflictError) {
+        // Take their changes to fields this edit left alone, then merge the rest.
+        // Their values are now the saved ones, so keeping one isn't a change.
+        const theirs = Object.fromEntries(err.conflicts.map(conflict => [conflict.propertyId, conflict.theirs]));
+        savedValuesRef.current = { ...savedValuesRef.current, ...err.updates, ...theirs };
+        setFormData(prev => ({ ...prev, ...err.updates }));
+        setConflicts(err.conflicts);
+      } else {
+        throw err;
+      }
     } finally {
       setSubmitting(false);
     }
   };
 
+  const resolveConflicts = (values: Record<string, any>) => {
+    const merged = { ...formData, ...values };
+    setFormData(merged);
+    setConflicts(null);
+    submitValues(merged);
+  };
+
   const renderField = (field: FieldWithOptions) => {
     const value = formData[field.notionPropertyId] ?? '';
     const error = errors[field.notionPropertyId];
@@ -235,13 +365,13 @@ export default function FormRenderer({
 
       case 'rich_text':
         return (
-          <textarea
+          <RichTextEditor
             value={value}
-            onChange={(e) => updateField(field.notionPropertyId, e.target.value)}
+            onChange={(text) => updateField(field.notionPropertyId, text)}
+            users={workspaceUsers}
             placeholder={field.placeholder}
             disabled={isDisabled}
-            rows={3}
-            className={`${inputClasses} resize-y min-h-[80px]`}
+            className={inputClasses}
           />
         );
 
@@ -323,12 +453,12 @@ export default function FormRenderer({
 
       case 'date':
         return (
-          <input
-            type="date"
+          <DateField
             value={value}
-            onChange={(e) => updateField(field.notionPropertyId, e.target.value)}
+            onChange={(v) => updateField(field.notionPropertyId, v)}
+            dateConfig={field.dateConfig}
             disabled={isDisabled}
-            className={inputClasses}
+            inputClassName={inputClasses}
           />
         );
 
@@ -394,13 +524,13 @@ export default function FormRenderer({
 
       case 'files':
         return (
-          <input
-            type="url"
+          <FileUploadField
+            formId={formId}
+            propertyId={field.notionPropertyId}
             value={value}
-            onChange={(e) => updateField(field.notionPropertyId, e.target.value)}
-            placeholder={field.placeholder || 'Enter file URL'}
+            onChange={(files) => updateField(field.notionPropertyId, files)}
+            fileConfig={field.fileConfig}
             disabled={isDisabled}
-            className={inputClasses}
           />
         );
 
@@ -411,10 +541,11 @@ export default function FormRenderer({
       case 'created_by':
       case 'last_edited_time':
       case 'last_edited_by':
+      case 'verification':
         return (
           <input
             type="text"
-            value={value || '(auto-generated)'}
+            value={formatTemplateValue(value) || '(auto-generated)'}
             disabled
             className={`${inputClasses} bg-gray-100 dark:bg-gray-800 text-gray-500 dark:text-gray-400`}
           />
@@ -445,6 +576,7 @@ export default function FormRenderer({
           return (
             <RelationPicker
               databaseId={field.relationDatabaseId}
+              formId={formId}
               value={value || []}
               onChange={(ids) => updateField(field.notionPropertyId, ids)}
               multiple={true}
@@ -482,6 +614,154 @@ export default function FormRenderer({
     }
   };
 
+  // Display a value on the review step
+  const formatReviewValue = (field: FieldConfig, value: any): string => {
+    if (isEmptyValue(value)) return '—';
+
+    switch (field.notionPropertyType) {
+      case 'checkbox':
+        return value ? 'Yes' : 'No';
+      case 'people':
+        return (Array.isArray(value) ? value : [value])
+          .map((id: string) => workspaceUsers.find(u => u.id === id)?.name || id)
+          .join(', ');
+      case 'relation': {
+        const count = Array.isArray(value) ? value.length : 1;
+        return `${count} linked record${count === 1 ? '' : 's'}`;
+      }
+      case 'files':
+        return (Array.isArray(value) ? value : [])
+          .map((f: FileValue) => f.name)
+          .join(', ');
+      case 'rich_text':
+        return getPlainText(value);
+      case 'date':
+        return formatDateValue(value) || String(value);
+      default:
+        return Array.isArray(value) ? value.join(', ') : String(value);
+    }
+  };
+
+  const gridColumns = Math.min(Math.max(Math.round(columns), 1), 4);
+  const fieldsClassName = gridColumns > 1
+    ? `grid grid-cols-1 ${GRID_COLUMNS[gridColumns]} gap-4`
+    : 'space-y-4';
+
+  const renderFieldBlock = (field: FieldConfig) => (
+    <div
+      key={field.notionPropertyId}
+      className={COLUMN_SPANS[Math.min(field.columnSpan || 1, gridColumns)] || undefined}
+    >
+      <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+        {field.label}
+        {isFieldRequired(field, visibleData) && <span className="text-red-500 dark:text-red-400 ml-1">*</span>}
+      </label>
+
+      {renderField(field as FieldWithOptions)}
+
+      {field.helpText && (
+        <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">{field.helpText}</p>
+      )}
+
+      {errors[field.notionPropertyId] && (
+        <p className="text-xs text-red-500 dark:text-red-400 mt-1">{errors[field.notionPropertyId]}</p>
+      )}
+    </div>
+  );
+
+  const renderWizard = () => {
+    const stepTitles = [...steps.map(s => s.title || 'Untitled section'), 'Review'];
+    const activeStep = steps[currentStep];
+
+    return (
+      <>
+        {/* Progress */}
+        <div>
+          <div className="flex items-center justify-between text-xs text-gray-500 dark:text-gray-400 mb-2">
+            <span>Step {currentStep + 1} of {stepTitles.length}</span>
+            <span className="font-medium text-gray-700 dark:text-gray-300">{stepTitles[currentStep]}</span>
+          </div>
+          <div className="h-1.5 bg-gray-200 dark:bg-gray-700 rounded-full overflow-hidden">
+            <div
+              className="h-full bg-blue-600 transition-all"
+              style={{ width: `${((currentStep + 1) / stepTitles.length) * 100}%` }}
+            />
+          </div>
+        </div>
+
+        {activeStep ? (
+          <div className="space-y-4">
+            {activeStep.description && (
+              <p className="text-sm text-gray-600 dark:text-gray-400">{activeStep.description}</p>
+            )}
+            <div className={fieldsClassName}>
+              {activeStep.fields.map(renderFieldBlock)}
+            </div>
+          </div>
+        ) : (
+          <div className="space-y-6">
+            {steps.map((s, index) => (
+              <div key={s.id}>
+                <div className="flex items-center justify-between mb-2">
+                  <h3 className="text-sm font-semibold text-gray-900 dark:text-gray-100">{s.title || 'Untitled section'}</h3>
+                  <button
+                    type="button"
+                    onClick={() => setStep(index)}
+                    disabled={submitting}
+                    className="text-xs text-blue-600 dark:text-blue-400 hover:text-blue-800 dark:hover:text-blue-300"
+                  >
+                    Edit
+                  </button>
+                </div>
+                <dl className="border dark:border-gray-700 rounded-lg divide-y divide-gray-200 dark:divide-gray-700">
+                  {s.fields.map(field => (
+                    <div key={field.notionPropertyId} className="px-3 py-2 grid grid-cols-3 gap-2 text-sm">
+                      <dt className="text-gray-500 dark:text-gray-400">{field.label}</dt>
+                      <dd className="col-span-2 text-gray-900 dark:text-gray-100 break-words">
+                        {formatReviewValue(field, formData[field.notionPropertyId])}
+                      </dd>
+                    </div>
+                  ))}
+                </dl>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <div className="flex gap-3">
+          {currentStep > 0 && (
+            <button
+              type="button"
+              onClick={() => setStep(currentStep - 1)}
+              disabled={disabled || submitting}
+              className="flex-1 px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg hover:bg-gray-50 dark:hover:bg-gray-700 transition-colors font-medium dark:text-gray-200 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              Back
+            </button>
+          )}
+          {activeStep ? (
+            <button
+              type="button"
+              onClick={goNext}
+              disabled={disabled || submitting}
+              className="flex-1 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors font-medium disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              Next
+            </button>
+          ) : (
+            <button
+              type="submit"
+              disabled={disabled || submitting}
+              className="flex-1 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors font-medium disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {submitting ? 'Submitting...' : submitLabel}
+            </button>
+          )}
+        </div>
+      </>
+    );
+  };
+
   return (
     <form onSubmit={handleSubmit} className="space-y-6">
       <div className="border-b dark:border-gray-700 pb-4">
@@ -491,34 +771,34 @@ export default function FormRenderer({
         )}
       </div>
 
-      <div className="space-y-4">
-        {visibleFields.map((field) => (
-          <div key={field.notionPropertyId}>
-            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
-              {field.label}
-              {field.required && <span className="text-red-500 dark:text-red-400 ml-1">*</span>}
-            </label>
-
-            {renderField(field as FieldWithOptions)}
-
-            {field.helpText && (
-              <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">{field.helpText}</p>
-            )}
-
-            {errors[field.notionPropertyId] && (
-              <p className="text-xs text-red-500 dark:text-red-400 mt-1">{errors[field.notionPropertyId]}</p>
-            )}
+      {isWizard && steps.length > 0 ? renderWizard() : (
+        <>
+          <div className={fieldsClassName}>
+            {visibleFields.map(renderFieldBlock)}
           </div>
-        ))}
-      </div>
 
-      <button
-        type="submit"
-        disabled={disabled || submitting}
-        className="w-full px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors font-medium disabled:opacity-50 disabled:cursor-not-allowed"
-      >
-        {submitting ? 'Submitting...' : submitLabel}
-      </button>
+          <button
+            type="submit"
+            disabled={disabled || submitting}
+            className="w-full px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors font-medium disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {submitting ? 'Submitting...' : submitLabel}
+          </button>
+        </>
+      )}
+
+      {conflicts && (
+        <ConflictDialog
+          conflicts={conflicts}
+          getLabel={(propertyId) => fields.find(f => f.notionPropertyId === propertyId)?.label || propertyId}
+          formatValue={(propertyId, value) => {
+            const field = fields.find(f => f.notionPropertyId === propertyId);
+            return field ? formatReviewValue(field, value) : String(value ?? '');
+          }}
+          onResolve={resolveConflicts}
+          onCancel={() => setConflicts(null)}
+        />
+      )}
     </form>
   );
 }
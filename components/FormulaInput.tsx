@@ -0,0 +1,59 @@
+'use client';
+
+import { evaluateFormula, validateFormula, FormulaError, FormulaField } from '@/lib/formula';
+
+interface FormulaInputProps {
+  value: string;
+  onChange: (value: string) => void;
+  fieldType: string;
+  fields: FormulaField[];
+}
+
+// Sample user for previewing user.name / user.email
+const PREVIEW_USER = { name: 'Jane Doe', email: 'jane@example.com' };
+
+// Expression editor for formula default values with validation and a live preview
+export default function FormulaInput({ value, onChange, fieldType, fields }: FormulaInputProps) {
+  const error = value.trim() ? validateFormula(value, fields) : null;
+
+  let preview: string | null = null;
+  let previewError: string | null = null;
+  if (value.trim() && !error) {
+    try {
+      const result = evaluateFormula(value, fieldType, { fields, data: {}, user: PREVIEW_USER });
+      preview = result === undefined ? null : String(result);
+    } catch (err) {
+      if (!(err instanceof FormulaError)) throw err;
+      previewError = err.message;
+    }
+  }
+
+  return (
+    <div className="mt-2">
+      <input
+        type="text"
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        placeholder='e.g. today() + 7d'
+        className={`w-full px-2 py-1.5 text-sm font-mono border rounded focus:ring-1 bg-white dark:bg-gray-700 dark:text-gray-100 ${
+          error ? 'border-red-500 focus:ring-red-500' : 'dark:border-gray-600 focus:ring-blue-500'
+        }`}
+      />
+      {error || previewError ? (
+        <p className="text-xs text-red-500 dark:text-red-400 mt-1">{error || previewError}</p>
+      ) : value.trim() ? (
+        <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+          Preview: {preview !== null ? (
+            <span className="font-mono text-gray-700 dark:text-gray-300">{preview}</span>
+          ) : (
+            <span className="italic">empty until referenced fields have values</span>
+          )}
+        </p>
+      ) : (
+        <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+          Use prop(&quot;Field&quot;), user.name, user.email, today(), now(), durations like 7d / 2w / 3h
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,428 @@
+'use client';
+
+import { useState, useEffect, useMemo, useRef } from 'react';
+import { FieldConfig } from '@/types/form';
+import { parseCsv } from '@/lib/csv';
+import { toCsvLine } from '@/lib/list-export';
+import {
+  buildImportRows,
+  getImportableFields,
+  guessColumnMapping,
+  toImportSubmission,
+  ImportUser,
+} from '@/lib/record-import';
+
+interface ImportWizardProps {
+  formId: string;
+  fields: FieldConfig[];  // The saved form fields (what the pages route validates against)
+  properties: { id: string; options?: { name: string }[] }[];
+  allowCreate: boolean;
+}
+
+type Step = 'upload' | 'map' | 'preview' | 'import';
+
+interface RowResult {
+  status: 'created' | 'failed' | 'skipped';
+  url?: string;
+  error?: string;
+}
+
+const MAX_IMPORT_ROWS = 1000;
+const PREVIEW_ROWS = 200;
+
+// Notion allows about three requests per second and each created row takes
+// two (schema lookup and create), so rows are sent in small paced batches
+const BATCH_SIZE = 2;
+const BATCH_DELAY_MS = 1000;
+const MAX_ATTEMPTS = 3;
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// Admin wizard for creating records from a CSV file: upload, map columns to
+// form fields, preview validation, then create pages through the form
+export default function ImportWizard({ formId, fields, properties, allowCreate }: ImportWizardProps) {
+  const [step, setStep] = useState<Step>('upload');
+  const [fileName, setFileName] = useState('');
+  const [headers, setHeaders] = useState<string[]>([]);
+  const [dataRows, setDataRows] = useState<string[][]>([]);
+  const [mapping, setMapping] = useState<(string | null)[]>([]);
+  const [users, setUsers] = useState<ImportUser[]>([]);
+  const [parseError, setParseError] = useState<string | null>(null);
+  const [onlyErrors, setOnlyErrors] = useState(false);
+  const [results, setResults] = useState<Record<number, RowResult>>({});
+  const [importing, setImporting] = useState(false);
+  const cancelRef = useRef(false);
+
+  const importableFields = useMemo(() => getImportableFields(fields), [fields]);
+  const fieldMap = useMemo(() => new Map(fields.map(f => [f.notionPropertyId, f])), [fields]);
+
+  const options = useMemo(() => {
+    const byId: Record<string, { name: string }[]> = {};
+    properties.forEach(p => {
+      if (p.options) byId[p.id] = p.options;
+    });
+    return byId;
+  }, [properties]);
+
+  // People columns are matched against workspace users by name or email
+  const needsUsers = mapping.some(id => id && fieldMap.get(id)?.notionPropertyType === 'people');
+  useEffect(() => {
+    if (!needsUsers || users.length > 0) return;
+
+    fetch('/api/notion/users')
+      .then(res => res.json())
+      .then(data => {
+        if (data.users) {
+          setUsers(data.users);
+        }
+      })
+      .catch(err => console.error('Failed to fetch users:', err));
+  }, [needsUsers, users.length]);
+
+  const importRows = useMemo(
+    () => (step === 'preview' || step === 'import')
+      ? buildImportRows(dataRows, mapping, fields, { options, users })
+      : [],
+    [step, dataRows, mapping, fields, options, users]
+  );
+
+  const validRows = importRows.filter(row => Object.keys(row.errors).length === 0);
+  const invalidCount = importRows.length - validRows.length;
+  const mappedFields = mapping
+    .map((id, column) => ({ column, field: id ? fieldMap.get(id) : undefined }))
+    .filter((m): m is { column: number; field: FieldConfig } => !!m.field);
+
+  const handleFile = async (file: File) => {
+    setParseError(null);
+
+    try {
+      const rows = parseCsv(await file.text());
+      if (rows.length < 2) {
+        throw new Error('The file needs a header row and at least one data row');
+      }
+      if (rows.length - 1 > MAX_IMPORT_ROWS) {
+        throw new Error(`At most ${MAX_IMPORT_ROWS} rows can be imported at once`);
+      }
+
+      const headerRow = rows[0].map(h => h.trim());
+      setFileName(file.name);
+      setHeaders(headerRow);
+      setDataRows(rows.slice(1));
+      setMapping(guessColumnMapping(headerRow, importableFields));
+      setResults({});
+      setStep('map');
+    } catch (err) {
+      setParseError(err instanceof Error ? err.message : 'Could not read the file');
+    }
+  };
+
+  const updateMapping = (column: number, propertyId: string) => {
+    setMapping(prev => prev.map((id, i) => {
+      if (i === column) return propertyId || null;
+      // A field can only take one column
+      return propertyId && id === propertyId ? null : id;
+    }));
+  };
+
+  // Create one row's page, waiting out rate limits
+  const createRow = async (row: typeof importRows[number]): Promise<RowResult> => {
+    for (let attempt = 1; ; attempt++) {
+      const response = await fetch('/api/notion/pages', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ formId, fields: toImportSubmission(row, fields) }),
+      });
+      const data = await response.json().catch(() => ({}));
+
+      if (response.ok) {
+        return { status: 'created', url: data.url };
+      }
+
+      if (response.status === 429 && attempt < MAX_ATTEMPTS) {
+        await sleep((Number(response.headers.get('Retry-After')) || 1) * 1000);
+        continue;
+      }
+
+      const fieldErrors = Object.entries((data.fieldErrors || {}) as Record<string, string>)
+        .map(([id, message]) => `${fieldMap.get(id)?.label || id}: ${message}`);
+      return { status: 'failed', error: fieldErrors.join('; ') || data.error || 'Failed to create record' };
+    }
+  };
+
+  const runImport = async () => {
+    cancelRef.current = false;
+    setImporting(true);
+    setStep('import');
+
+    const skipped: Record<number, RowResult> = {};
+    importRows
+      .filter(row => Object.keys(row.errors).length > 0)
+      .forEach(row => {
+        skipped[row.line] = { status: 'skipped', error: Object.values(row.errors).join('; ') };
+      });
+    setResults(skipped);
+
+    for (let i = 0; i < validRows.length && !cancelRef.current; i += BATCH_SIZE) {
+      const batch = validRows.slice(i, i + BATCH_SIZE);
+      const batchResults = await Promise.all(batch.map(row =>
+        createRow(row).catch(err => ({
+          status: 'failed' as const,
+          error: err instanceof Error ? err.message : 'Failed to create record',
+        }))
+      ));
+
+      setResults(prev => {
+        const next = { ...prev };
+        batch.forEach((row, index) => {
+          next[row.line] = batchResults[index];
+        });
+        return next;
+      });
+
+      if (i + BATCH_SIZE < validRows.length) {
+        await sleep(BATCH_DELAY_MS);
+      }
+    }
+
+    setImporting(false);
+  };
+
+  const downloadReport = () => {
+    const lines = [toCsvLine(['Row', 'Status', 'Record URL', 'Error'])];
+    importRows.forEach(row => {
+      const result = results[row.line];
+      lines.push(toCsvLine([row.line, result?.status || 'not imported', result?.url || '', result?.error || '']));
+    });
+
+    const url = URL.createObjectURL(new Blob(lines, { type: 'text/csv;charset=utf-8' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `${fileName.replace(/\.csv$/i, '') || 'import'}-report.csv`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const reset = () => {
+    setStep('upload');
+    setFileName('');
+    setHeaders([]);
+    setDataRows([]);
+    setMapping([]);
+    setResults({});
+  };
+
+  const inputClasses = 'w-full px-3 py-2 border dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 bg-white dark:bg-gray-700 dark:text-gray-100 text-sm';
+  const primaryButton = 'px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 text-sm font-medium';
+  const secondaryButton = 'px-4 py-2 text-gray-600 dark:text-gray-400 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-lg text-sm';
+
+  if (!allowCreate) {
+    return (
+      <p className="text-sm text-gray-500 dark:text-gray-400">
+        Importing creates records through this form, so it needs the &quot;Allow create&quot; permission.
+      </p>
+    );
+  }
+
+  const createdCount = Object.values(results).filter(r => r.status === 'created').length;
+  const failedCount = Object.values(results).filter(r => r.status === 'failed').length;
+  const processedCount = createdCount + failedCount;
+
+  return (
+    <div className="space-y-4">
+      {step === 'upload' && (
+        <div className="space-y-3">
+          <p className="text-sm text-gray-600 dark:text-gray-400">
+            Upload a CSV file with a header row. Each row becomes a record, checked against this form&apos;s
+            required fields and validation rules. Up to {MAX_IMPORT_ROWS} rows per import.
+          </p>
+          <input
+            type="file"
+            accept=".csv,text/csv"
+            onChange={(e) => e.target.files?.[0] && handleFile(e.target.files[0])}
+            className="block text-sm text-gray-600 dark:text-gray-400 file:mr-3 file:px-4 file:py-2 file:rounded-lg file:border-0 file:bg-blue-50 file:text-blue-700 dark:file:bg-blue-900/30 dark:file:text-blue-300"
+          />
+          {parseError && <p className="text-sm text-red-600 dark:text-red-400">{parseError}</p>}
+        </div>
+      )}
+
+      {step === 'map' && (
+        <div className="space-y-4">
+          <p className="text-sm text-gray-600 dark:text-gray-400">
+            Choose the form field for each column of <span className="font-medium">{fileName}</span> ({dataRows.length} rows).
+            Unmapped columns are ignored.
+          </p>
+          <div className="space-y-2">
+            {headers.map((header, column) => (
+              <div key={column} className="grid grid-cols-2 gap-3 items-center">
+                <div className="text-sm text-gray-800 dark:text-gray-200 truncate" title={header}>
+                  {header || `Column ${column + 1}`}
+                  {dataRows[0]?.[column] && (
+                    <span className="ml-2 text-xs text-gray-400 dark:text-gray-500">e.g. {dataRows[0][column]}</span>
+                  )}
+                </div>
+                <select
+                  value={mapping[column] || ''}
+                  onChange={(e) => updateMapping(column, e.target.value)}
+                  className={inputClasses}
+                >
+                  <option value="">Don&apos;t import</option>
+                  {importableFields.map(field => (
+                    <option key={field.notionPropertyId} value={field.notionPropertyId}>
+                      {field.label}{field.required ? ' *' : ''}
+                    </option>
+                  ))}
+                </select>
+              </div>
+            ))}
+          </div>
+          <div className="flex justify-end gap-2">
+            <button onClick={reset} className={secondaryButton}>Back</button>
+            <button
+              onClick={() => setStep('preview')}
+              disabled={mappedFields.length === 0}
+              className={primaryButton}
+            >
+              Preview
+            </button>
+          </div>
+        </div>
+      )}
+
+      {(step === 'preview' || step === 'import') && (
+        <div className="space-y-4">
+          {step === 'preview' ? (
+            <div className="flex flex-wrap items-center justify-between gap-3">
+              <p className="text-sm text-gray-600 dark:text-gray-400">
+                <span className="font-medium text-green-700 dark:text-green-400">{validRows.length} ready</span>
+                {invalidCount > 0 && (
+                  <>, <span className="font-medium text-red-600 dark:text-red-400">{invalidCount} with errors</span> (skipped)</>
+                )}
+              </p>
+              {invalidCount > 0 && (
+                <label className="flex items-center gap-2 text-sm text-gray-600 dark:text-gray-400">
+                  <input
+                    type="checkbox"
+                    checked={onlyErrors}
+                    onChange={(e) => setOnlyErrors(e.target.checked)}
+                    className="h-4 w-4 text-blue-600 rounded dark:bg-gray-700 dark:border-gray-600"
+                  />
+                  Only rows with errors
+                </label>
+              )}
+            </div>
+          ) : (
+            <div className="space-y-2">
+              <div className="flex items-center justify-between text-sm text-gray-600 dark:text-gray-400">
+                <span>
+                  {importing ? `Importing... ${processedCount} of ${validRows.length}` : `Done: ${createdCount} created`}
+                  {failedCount > 0 && <span className="text-red-600 dark:text-red-400">, {failedCount} failed</span>}
+                  {invalidCount > 0 && `, ${invalidCount} skipped`}
+                </span>
+                {importing && (
+                  <button onClick={() => { cancelRef.current = true; }} className="text-red-600 dark:text-red-400 hover:underline">
+                    Stop
+                  </button>
+                )}
+              </div>
+              <div className="h-2 bg-gray-200 dark:bg-gray-700 rounded-full overflow-hidden">
+                <div
+                  className="h-full bg-blue-600 transition-all"
+                  style={{ width: `${validRows.length > 0 ? (processedCount / validRows.length) * 100 : 100}%` }}
+                />
+              </div>
+            </div>
+          )}
+
+          <div className="border dark:border-gray-700 rounded-lg overflow-x-auto max-h-96">
+            <table className="w-full text-sm">
+              <thead className="bg-gray-50 dark:bg-gray-900 sticky top-0">
+                <tr>
+                  <th className="px-3 py-2 text-left font-medium text-gray-600 dark:text-gray-400">Row</th>
+                  {step === 'import' && (
+                    <th className="px-3 py-2 text-left font-medium text-gray-600 dark:text-gray-400">Result</th>
+                  )}
+                  {mappedFields.map(({ field }) => (
+                    <th key={field.notionPropertyId} className="px-3 py-2 text-left font-medium text-gray-600 dark:text-gray-400 whitespace-nowrap">
+                      {field.label}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody className="divide-y dark:divide-gray-700">
+                {importRows
+                  .filter(row => step === 'import' || !onlyErrors || Object.keys(row.errors).length > 0)
+                  .slice(0, PREVIEW_ROWS)
+                  .map(row => {
+                    const result = results[row.line];
+                    const rowErrors = Object.entries(row.errors).filter(([id]) => !mappedFields.some(m => m.field.notionPropertyId === id));
+                    return (
+                      <tr key={row.line} className={Object.keys(row.errors).length > 0 ? 'bg-red-50/50 dark:bg-red-900/10' : ''}>
+                        <td className="px-3 py-2 text-gray-500 dark:text-gray-400 align-top">
+                          {row.line}
+                          {rowErrors.map(([id, message]) => (
+                            <div key={id} className="text-xs text-red-600 dark:text-red-400 whitespace-nowrap">
+                              {fieldMap.get(id)?.label}: {message}
+                            </div>
+                          ))}
+                        </td>
+                        {step === 'import' && (
+                          <td className="px-3 py-2 align-top whitespace-nowrap">
+                            {!result && <span className="text-gray-400 dark:text-gray-500">Pending</span>}
+                            {result?.status === 'created' && (
+                              result.url
+                                ? <a href={result.url} target="_blank" rel="noopener noreferrer" className="text-green-700 dark:text-green-400 hover:underline">Created</a>
+                                : <span className="text-green-700 dark:text-green-400">Created</span>
+                            )}
+                            {result?.status === 'skipped' && <span className="text-gray-500 dark:text-gray-400">Skipped</span>}
+                            {result?.status === 'failed' && (
+                              <span className="text-red-600 dark:text-red-400" title={result.error}>
+                                Failed{result.error ? `: ${result.error}` : ''}
+                              </span>
+                            )}
+                          </td>
+                        )}
+                        {mappedFields.map(({ column, field }) => {
+                          const error = row.errors[field.notionPropertyId];
+                          return (
+                            <td key={field.notionPropertyId} className="px-3 py-2 align-top text-gray-800 dark:text-gray-200">
+                              <div className="truncate max-w-[12rem]" title={dataRows[row.line - 2]?.[column]}>
+                                {dataRows[row.line - 2]?.[column]}
+                              </div>
+                              {error && <div className="text-xs text-red-600 dark:text-red-400">{error}</div>}
+                            </td>
+                          );
+                        })}
+                      </tr>
+                    );
+                  })}
+              </tbody>
+            </table>
+          </div>
+          {importRows.length > PREVIEW_ROWS && (
+            <p className="text-xs text-gray-500 dark:text-gray-400">Showing the first {PREVIEW_ROWS} rows.</p>
+          )}
+
+          <div className="flex justify-end gap-2">
+            {step === 'preview' ? (
+              <>
+                <button onClick={() => setStep('map')} className={secondaryButton}>Back</button>
+                <button onClick={runImport} disabled={validRows.length === 0} className={primaryButton}>
+                  Import {validRows.length} record{validRows.length === 1 ? '' : 's'}
+                </button>
+              </>
+            ) : (
+              <>
+                <button onClick={downloadReport} disabled={importing} className={secondaryButton}>
+                  Download report
+                </button>
+                <button onClick={reset} disabled={importing} className={primaryButton}>
+                  Import another file
+                </button>
+              </>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
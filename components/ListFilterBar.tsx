@@ -0,0 +1,214 @@
+'use client';
+
+import { useState, useEffect, useRef } from 'react';
+import { DesignTimeFilter, FilterOperator } from '@/types/form';
+import {
+  getFilterOperators,
+  getOperatorLabel,
+  operatorNeedsValue,
+  isFilterComplete,
+  DAY_COUNT_OPERATORS,
+} from '@/lib/list-filters';
+import FilterValueInput from './FilterValueInput';
+
+export interface FilterableProperty {
+  propertyId: string;
+  label: string;
+  type: string;
+  options?: { name: string }[];
+}
+
+interface FilterUser {
+  id: string;
+  name: string;
+}
+
+interface ListFilterBarProps {
+  properties: FilterableProperty[];
+  filters: DesignTimeFilter[];
+  onChange: (filters: DesignTimeFilter[]) => void;
+  users?: FilterUser[];
+}
+
+function newFilter(property: FilterableProperty): DesignTimeFilter {
+  const operator = getFilterOperators(property.type)[0];
+  return {
+    propertyId: property.propertyId,
+    propertyType: property.type,
+    operator,
+    value: property.type === 'checkbox' ? true : undefined,
+  };
+}
+
+// Ad-hoc filters for list viewers, shown as removable chips with an editor popover
+export default function ListFilterBar({ properties, filters, onChange, users = [] }: ListFilterBarProps) {
+  const [draft, setDraft] = useState<DesignTimeFilter | null>(null);
+  const [editIndex, setEditIndex] = useState<number | null>(null);
+  const popoverRef = useRef<HTMLDivElement>(null);
+
+  const filterable = properties.filter(p => getFilterOperators(p.type).length > 0);
+  const propertyMap = new Map(filterable.map(p => [p.propertyId, p]));
+
+  // Close the editor when clicking outside
+  useEffect(() => {
+    if (!draft) return;
+    const handleClickOutside = (e: MouseEvent) => {
+      if (popoverRef.current && !popoverRef.current.contains(e.target as Node)) {
+        setDraft(null);
+        setEditIndex(null);
+      }
+    };
+    document.addEventListener('mousedown', handleClickOutside);
+    return () => document.removeEventListener('mousedown', handleClickOutside);
+  }, [draft]);
+
+  if (filterable.length === 0) return null;
+
+  const openNew = () => {
+    setDraft(newFilter(filterable[0]));
+    setEditIndex(null);
+  };
+
+  const openEdit = (index: number) => {
+    setDraft(filters[index]);
+    setEditIndex(index);
+  };
+
+  const applyDraft = () => {
+    if (!draft || !isFilterComplete(draft)) return;
+    const applied = operatorNeedsValue(draft.operator) ? draft : { ...draft, value: undefined };
+    onChange(editIndex === null
+      ? [...filters, applied]
+      : filters.map((f, i) => (i === editIndex ? applied : f))
+    );
+    setDraft(null);
+    setEditIndex(null);
+  };
+
+  const removeFilter = (index: number) => {
+    onChange(filters.filter((_, i) => i !== index));
+  };
+
+  const formatValue = (filter: DesignTimeFilter): string => {
+    if (!operatorNeedsValue(filter.operator)) return '';
+    if (filter.propertyType === 'checkbox') return filter.value === true || filter.value === 'true' ? 'checked' : 'unchecked';
+    if (filter.propertyType === 'people') {
+      return users.find(u => u.id === filter.value)?.name || 'selected person';
+    }
+    return String(filter.value);
+  };
+
+  // "is in the past N days" reads better with the count filled in
+  const formatOperator = (filter: DesignTimeFilter): string => {
+    const label = getOperatorLabel(filter.propertyType, filter.operator);
+    return DAY_COUNT_OPERATORS.includes(filter.operator) ? label.replace('N', String(filter.value)) : label;
+  };
+
+  const inputClasses = 'w-full px-2 py-1.5 text-sm border dark:border-gray-600 rounded focus:ring-1 focus:ring-blue-500 bg-white dark:bg-gray-700 dark:text-gray-100';
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      {filters.map((filter, index) => {
+        const property = propertyMap.get(filter.propertyId);
+        const value = DAY_COUNT_OPERATORS.includes(filter.operator) ? '' : formatValue(filter);
+        return (
+          <span
+            key={`${filter.propertyId}-${index}`}
+            className="inline-flex items-center gap-1 pl-2 pr-1 py-1 text-xs rounded-full bg-blue-50 dark:bg-blue-900/30 text-blue-800 dark:text-blue-200 border border-blue-200 dark:border-blue-800"
+          >
+            <button type="button" onClick={() => openEdit(index)} className="hover:underline">
+              <span className="font-medium">{property?.label || filter.propertyId}</span>{' '}
+              {formatOperator(filter)}
+              {value && <> <span className="font-medium">{value}</span></>}
+            </button>
+            <button
+              type="button"
+              onClick={() => removeFilter(index)}
+              className="px-1 text-blue-400 hover:text-blue-700 dark:hover:text-blue-100"
+              title="Remove filter"
+            >
+              &times;
+            </button>
+          </span>
+        );
+      })}
+
+      <div className="relative" ref={popoverRef}>
+        <button
+          type="button"
+          onClick={openNew}
+          className="inline-flex items-center gap-1 px-3 py-1.5 text-sm text-gray-600 dark:text-gray-400 hover:text-gray-800 dark:hover:text-gray-200 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-lg transition-colors"
+        >
+          <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M3 4h18l-7 8v6l-4 2v-8L3 4z" />
+          </svg>
+          Filter
+        </button>
+
+        {draft && (
+          <div className="absolute left-0 top-full mt-1 w-72 p-3 space-y-2 bg-white dark:bg-gray-800 border dark:border-gray-700 rounded-lg shadow-lg z-50">
+            <select
+              value={draft.propertyId}
+              onChange={(e) => {
+                const property = propertyMap.get(e.target.value);
+                if (property) setDraft(newFilter(property));
+              }}
+              className={inputClasses}
+            >
+              {filterable.map(p => (
+                <option key={p.propertyId} value={p.propertyId}>{p.label}</option>
+              ))}
+            </select>
+            <select
+              value={draft.operator}
+              onChange={(e) => setDraft({ ...draft, operator: e.target.value as FilterOperator, value: draft.propertyType === 'checkbox' ? draft.value : undefined })}
+              className={inputClasses}
+            >
+              {getFilterOperators(draft.propertyType).map(op => (
+                <option key={op} value={op}>{getOperatorLabel(draft.propertyType, op)}</option>
+              ))}
+            </select>
+            <FilterValueInput
+              filter={draft}
+              onChange={(value) => setDraft({ ...draft, value })}
+              options={propertyMap.get(draft.propertyId)?.options}
+              users={users}
+              onSubmit={applyDraft}
+              className={inputClasses}
+            />
+            <div className="flex justify-end gap-2 pt-1">
+              <button
+                type="button"
+                onClick={() => {
+                  setDraft(null);
+                  setEditIndex(null);
+                }}
+                className="px-3 py-1 text-sm text-gray-600 dark:text-gray-400 hover:bg-gray-100 dark:hover:bg-gray-700 rounded"
+              >
+                Cancel
+              </button>
+              <button
+                type="button"
+                onClick={applyDraft}
+                disabled={!isFilterComplete(draft)}
+                className="px-3 py-1 text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 rounded disabled:opacity-50"
+              >
+                Apply
+              </button>
+            </div>
+          </div>
+        )}
+      </div>
+
+      {filters.length > 0 && (
+        <button
+          type="button"
+          onClick={() => onChange([])}
+          className="text-xs text-gray-500 dark:text-gray-400 hover:text-gray-700 dark:hover:text-gray-200 underline"
+        >
+          Clear filters
+        </button>
+      )}
+    </div>
+  );
+}
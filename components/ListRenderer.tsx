@@ -1,16 +1,41 @@
 'use client';
 
-import React, { useState, useEffect, useCallback, useRef } from 'react';
+import React, { useState, useEffect, useCallback, useMemo, useRef } from 'react';
 import { createPortal } from 'react-dom';
-import { DesignTimeFilter } from '@/types/form';
+import { DesignTimeFilter, FieldConfig, FilterNode, ListConfig } from '@/types/form';
+import { validateFieldValue, isEmptyValue } from '@/lib/form-validation';
 import { CommentPreview } from './CommentsPanel';
+import EditableCell, { CellUser, INLINE_EDITABLE_TYPES } from './EditableCell';
+import ListFilterBar, { FilterableProperty } from './ListFilterBar';
+import { serializeFilters, isFilterComplete, TEXT_PROPERTY_TYPES } from '@/lib/list-filters';
+import { renderTitleTemplate, TemplateField } from '@/lib/title-template';
+import BoardView from './BoardView';
+import CalendarView from './CalendarView';
+import { CalendarMode, getCalendarDays, getToday } from '@/lib/calendar';
+import { formatDateValue } from '@/lib/date-value';
+import { isRichText } from '@/lib/rich-text';
+import RichTextView from './RichTextView';
 
 interface ListColumn {
   propertyId: string;
   label: string;
   type: string;
+  field?: FieldConfig & { options?: { name: string; color?: string }[] };  // Set for columns that can be edited inline
 }
 
+interface ListBoard {
+  groupBy: ListColumn;  // Select or status property; cards can be moved when it has a field
+  options: { name: string; color?: string }[];
+  cardColumns: ListColumn[];
+}
+
+interface ListCalendar {
+  dateColumn: ListColumn;  // Date property; events can be moved when it has a field
+}
+
+// Rows loaded per request in calendar view, which loads a whole month at once
+const CALENDAR_PAGE_SIZE = 100;
+
 interface RowData {
   id: string;
   url: string;
@@ -20,14 +45,27 @@ interface RowData {
 
 interface ListRendererProps {
   databaseId: string;
+  formId?: string;  // Form the list is shown through (required for form users)
   columns: ListColumn[];
-  filters?: DesignTimeFilter[];
+  filters?: FilterNode[];  // Design-time filters from the form config
+  userFilters?: DesignTimeFilter[];  // Ad-hoc filters added by the viewer
+  onUserFiltersChange?: (filters: DesignTimeFilter[]) => void;  // Shows the filter bar when set
+  filterProperties?: FilterableProperty[];  // Properties the viewer can filter on
+  search?: string;  // Full-text search across the visible text columns
+  onSearchChange?: (search: string) => void;  // Shows the search box when set
   pageSize?: number;
   defaultSort?: { propertyId: string; direction: 'ascending' | 'descending' };
   allowEdit?: boolean;
   allowCreate?: boolean;
+  allowDelete?: boolean;  // Row selection, bulk archive and an Archive row action
   onEditClick?: (rowId: string) => void;
-  onCreateClick?: () => void;
+  onCreateClick?: (defaults?: Record<string, any>) => void;  // Calendar days pass their date as a default
+  titleTemplate?: string;  // Shown as a "Record" label column when set
+  templateFields?: TemplateField[];  // Fields the template can reference
+  view?: ListConfig['view'];
+  onViewChange?: (view: ListConfig['view']) => void;  // Shows the view switch when a board or calendar is set
+  board?: ListBoard;  // Board view settings; the board is only shown when set
+  calendar?: ListCalendar;  // Calendar view settings; the calendar is only shown when set
 }
 
 // Truncated cell with expand on hover - uses portal to escape table overflow
@@ -90,6 +128,13 @@ function formatCellValue(type: string, value: any, expanded: boolean = false): R
     return <span className="text-gray-400 dark:text-gray-500">-</span>;
   }
 
+  // Formatted text; plain text is shown like other text below
+  if (type === 'rich_text' && isRichText(value)) {
+    return expanded
+      ? <span className="whitespace-pre-wrap break-words"><RichTextView value={value} /></span>
+      : <TruncatedCell><RichTextView value={value} /></TruncatedCell>;
+  }
+
   switch (type) {
     case 'title':
     case 'rich_text':
@@ -138,11 +183,7 @@ function formatCellValue(type: string, value: any, expanded: boolean = false): R
 
     case 'date':
       if (value) {
-        try {
-          return <span>{new Date(value).toLocaleDateString()}</span>;
-        } catch {
-          return <span>{String(value)}</span>;
-        }
+        return <span>{formatDateValue(value) || String(value)}</span>;
       }
       return <span className="text-gray-400 dark:text-gray-500">-</span>;
 
@@ -163,6 +204,14 @@ function formatCellValue(type: string, value: any, expanded: boolean = false): R
       }
       return <span className="text-gray-400 dark:text-gray-500">-</span>;
 
+    case 'created_by':
+    case 'last_edited_by':
+      return <span>{value.name || value.id}</span>;
+
+    case 'formula':
+      // Date results are dates or date ranges
+      return <span>{typeof value === 'object' ? formatDateValue(value) : String(value)}</span>;
+
     case 'created_time':
     case 'last_edited_time':
       if (value) {
@@ -213,23 +262,95 @@ function formatCellValue(type: string, value: any, expanded: boolean = false): R
 
 export default function ListRenderer({
   databaseId,
+  formId,
   columns,
   filters = [],
+  userFilters,
+  onUserFiltersChange,
+  filterProperties = [],
+  search = '',
+  onSearchChange,
   pageSize = 20,
   defaultSort,
   allowEdit = false,
   allowCreate = false,
+  allowDelete = false,
   onEditClick,
   onCreateClick,
+  titleTemplate,
+  templateFields = [],
+  view = 'table',
+  onViewChange,
+  board,
+  calendar,
 }: ListRendererProps) {
   const [rows, setRows] = useState<RowData[]>([]);
   const [loading, setLoading] = useState(true);
+  const [loaded, setLoaded] = useState(false);  // Keeps the toolbar mounted while reloading
   const [error, setError] = useState<string | null>(null);
   const [hasMore, setHasMore] = useState(false);
   const [nextCursor, setNextCursor] = useState<string | null>(null);
   const [loadingMore, setLoadingMore] = useState(false);
   const [expandedRows, setExpandedRows] = useState<Set<string>>(new Set());
 
+  // Row selection and context menu (for archiving)
+  const [selectedRows, setSelectedRows] = useState<Set<string>>(new Set());
+  const [rowMenu, setRowMenu] = useState<{ rowId: string; x: number; y: number } | null>(null);
+  const [archiving, setArchiving] = useState(false);
+  const rowMenuRef = useRef<HTMLDivElement>(null);
+
+  // Inline cell editing, keyed by `${rowId}:${propertyId}`
+  const [editingCell, setEditingCell] = useState<string | null>(null);
+  const [savingCells, setSavingCells] = useState<Set<string>>(new Set());
+  const [cellErrors, setCellErrors] = useState<Record<string, string>>({});
+  const [workspaceUsers, setWorkspaceUsers] = useState<CellUser[]>([]);
+
+  // Search box text, passed up after a short pause in typing
+  const [searchInput, setSearchInput] = useState(search);
+
+  useEffect(() => {
+    setSearchInput(current => (current.trim() === search ? current : search));
+  }, [search]);
+
+  useEffect(() => {
+    if (!onSearchChange || searchInput.trim() === search) return;
+    const timeoutId = setTimeout(() => onSearchChange(searchInput.trim()), 300);
+    return () => clearTimeout(timeoutId);
+  }, [searchInput, search, onSearchChange]);
+
+  const showRowLabel = !!titleTemplate?.trim();
+
+  const getRowLabel = (row: Pick<RowData, 'properties'>): string => {
+    const values: Record<string, any> = {};
+    Object.entries(row.properties).forEach(([id, prop]) => {
+      values[id] = prop.value;
+    });
+    return renderTitleTemplate(titleTemplate || '', templateFields, values) || 'Untitled';
+  };
+
+  const showBoard = view === 'board' && !!board;
+  const showCalendar = view === 'calendar' && !!calendar;
+  const showTable = !showBoard && !showCalendar;
+  const availableViews: ListConfig['view'][] = [
+    'table',
+    ...(board ? ['board' as const] : []),
+    ...(calendar ? ['calendar' as const] : []),
+  ];
+
+  // Month or week shown by the calendar, which only loads rows dated in it
+  const [calendarMode, setCalendarMode] = useState<CalendarMode>('month');
+  const [calendarAnchor, setCalendarAnchor] = useState(getToday);
+  const calendarDays = showCalendar ? getCalendarDays(calendarMode, calendarAnchor) : [];
+  const calendarFrom = calendarDays[0];
+  const calendarTo = calendarDays[calendarDays.length - 1];
+
+  // Board cards and calendar events are headed by the record label, or the title property without a template
+  const getRecordTitle = (row: Pick<RowData, 'properties'>): string => {
+    if (showRowLabel) return getRowLabel(row);
+    const title = Object.values(row.properties).find(prop => prop.type === 'title')?.value;
+    return title ? String(title) : 'Untitled';
+  };
+
   // Column widths state (in pixels, null means auto)
   const [columnWidths, setColumnWidths] = useState<Record<string, number>>({});
   const resizingRef = useRef<{ columnId: string; startX: number; startWidth: number } | null>(null);
@@ -250,6 +371,11 @@ export default function ListRenderer({
   const [showColumnMenu, setShowColumnMenu] = useState(false);
   const columnMenuRef = useRef<HTMLDivElement>(null);
 
+  // Export menu
+  const [showExportMenu, setShowExportMenu] = useState(false);
+  const [exporting, setExporting] = useState(false);
+  const exportMenuRef = useRef<HTMLDivElement>(null);
+
   // Sorting state
   // Sorting state - initialize with defaultSort if provided
   const [sortConfig, setSortConfig] = useState<{ propertyId: string; direction: 'ascending' | 'descending' } | null>(
@@ -276,6 +402,136 @@ export default function ListRenderer({
     return () => document.removeEventListener('mousedown', handleClickOutside);
   }, [showColumnMenu]);
 
+  // Close export menu when clicking outside
+  useEffect(() => {
+    if (!showExportMenu) return;
+    const handleClickOutside = (e: MouseEvent) => {
+      if (exportMenuRef.current && !exportMenuRef.current.contains(e.target as Node)) {
+        setShowExportMenu(false);
+      }
+    };
+    document.addEventListener('mousedown', handleClickOutside);
+    return () => document.removeEventListener('mousedown', handleClickOutside);
+  }, [showExportMenu]);
+
+  // Close row menu when clicking outside or scrolling
+  useEffect(() => {
+    if (!rowMenu) return;
+    const handleClickOutside = (e: MouseEvent) => {
+      if (rowMenuRef.current && !rowMenuRef.current.contains(e.target as Node)) {
+        setRowMenu(null);
+      }
+    };
+    const handleScroll = () => setRowMenu(null);
+    document.addEventListener('mousedown', handleClickOutside);
+    window.addEventListener('scroll', handleScroll, true);
+    return () => {
+      document.removeEventListener('mousedown', handleClickOutside);
+      window.removeEventListener('scroll', handleScroll, true);
+    };
+  }, [rowMenu]);
+
+  const canWriteColumn = (col: ListColumn) => allowEdit && !!col.field && col.field.editable !== false;
+
+  // Date ranges and times are edited in the full form, where both ends and the zone can be set.
+  // So is formatted text, which the plain cell editor would flatten, and people
+  // cells with several people, which the single-person picker would cut to one.
+  const isCellEditable = (col: ListColumn, value?: any) =>
+    canWriteColumn(col) && INLINE_EDITABLE_TYPES.includes(col.type) && !isRichText(value) && !(col.type === 'date' && (
+      col.field?.dateConfig?.includeTime || col.field?.dateConfig?.range || (value && typeof value === 'object')
+    )) && !(col.type === 'people' && Array.isArray(value) && value.length > 1);
+
+  // Fetch workspace users if a people column can be edited inline or filtered on
+  const needsUsers = columns.some(col => col.type === 'people' && isCellEditable(col)) ||
+    (!!onUserFiltersChange && filterProperties.some(p => p.type === 'people'));
+  useEffect(() => {
+    if (!needsUsers) return;
+    fetch('/api/notion/users')
+      .then(res => res.json())
+      .then(data => {
+        if (data.users) {
+          setWorkspaceUsers(data.users);
+        }
+      })
+      .catch(err => console.error('Failed to fetch users:', err));
+  }, [needsUsers]);
+
+  const setRowProperty = (rowId: string, propertyId: string, property: RowData['properties'][string]) => {
+    setRows(prev => prev.map(row => row.id === rowId
+      ? { ...row, properties: { ...row.properties, [propertyId]: property } }
+      : row
+    ));
+  };
+
+  const setCellError = (cellKey: string, error: string | null) => {
+    setCellErrors(prev => {
+      const next = { ...prev };
+      if (error) {
+        next[cellKey] = error;
+      } else {
+        delete next[cellKey];
+      }
+      return next;
+    });
+  };
+
+  // Save one cell: update the row optimistically, PATCH only that property,
+  // and roll back with an error on the cell if the update fails
+  const saveCell = async (row: Pick<RowData, 'id' | 'properties'>, col: ListColumn, value: any) => {
+    const cellKey = `${row.id}:${col.propertyId}`;
+    const previous = row.properties[col.propertyId];
+    setEditingCell(null);
+
+    if (!col.field) return;
+
+    if (isEmptyValue(value)) {
+      setCellError(cellKey, 'Values cannot be cleared inline');
+      return;
+    }
+
+    const validationError = validateFieldValue(col.field, value);
+    if (validationError) {
+      setCellError(cellKey, validationError);
+      return;
+    }
+
+    // People cells display user objects, but the API takes IDs
+    const user = col.type === 'people' ? workspaceUsers.find(u => u.id === value) : undefined;
+    const displayValue = col.type === 'people'
+      ? [{ id: value, name: user?.name, email: user?.email }]
+      : value;
+    const submitValue = col.type === 'people' ? [value] : value;
+
+    setCellError(cellKey, null);
+    setRowProperty(row.id, col.propertyId, { type: col.type, value: displayValue });
+    setSavingCells(prev => new Set(prev).add(cellKey));
+
+    try {
+      const response = await fetch(`/api/notion/pages/${row.id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          formId,
+          fields: [{ propertyId: col.propertyId, propertyType: col.type, value: submitValue }],
+        }),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.fieldErrors?.[col.propertyId] || data.error || 'Failed to update record');
+      }
+    } catch (err) {
+      setRowProperty(row.id, col.propertyId, previous ?? { type: col.type, value: null });
+      setCellError(cellKey, err instanceof Error ? err.message : 'Failed to update record');
+    } finally {
+      setSavingCells(prev => {
+        const next = new Set(prev);
+        next.delete(cellKey);
+        return next;
+      });
+    }
+  };
+
   const toggleColumnVisibility = (propertyId: string) => {
     setHiddenColumns(prev => {
       const next = new Set(prev);
@@ -341,20 +597,115 @@ export default function ListRenderer({
     });
   };
 
+  const toggleRowSelected = (rowId: string) => {
+    setSelectedRows(prev => {
+      const next = new Set(prev);
+      if (next.has(rowId)) {
+        next.delete(rowId);
+      } else {
+        next.add(rowId);
+      }
+      return next;
+    });
+  };
+
+  const openRowMenu = (e: React.MouseEvent, rowId: string) => {
+    e.preventDefault();
+    setRowMenu({ rowId, x: e.clientX, y: e.clientY });
+  };
+
+  // Archive rows in Notion one at a time; rows that fail stay in the list
+  const archiveRows = async (rowIds: string[]) => {
+    if (rowIds.length === 0 || archiving) return;
+
+    const message = rowIds.length === 1
+      ? 'Are you sure you want to delete this record? It will be archived in Notion.'
+      : `Are you sure you want to delete ${rowIds.length} records? They will be archived in Notion.`;
+    if (!confirm(message)) return;
+
+    setRowMenu(null);
+    setArchiving(true);
+
+    const archived: string[] = [];
+    const failures: string[] = [];
+
+    for (const rowId of rowIds) {
+      try {
+        const params = new URLSearchParams();
+        if (formId) {
+          params.set('form_id', formId);
+        }
+        const response = await fetch(`/api/notion/pages/${rowId}?${params.toString()}`, {
+          method: 'DELETE',
+        });
+        const data = await response.json();
+
+        if (!response.ok) {
+          throw new Error(data.error || 'Failed to delete record');
+        }
+        archived.push(rowId);
+      } catch (err) {
+        failures.push(err instanceof Error ? err.message : 'Failed to delete record');
+      }
+    }
+
+    const archivedSet = new Set(archived);
+    setRows(prev => prev.filter(row => !archivedSet.has(row.id)));
+    setSelectedRows(prev => new Set([...prev].filter(id => !archivedSet.has(id))));
+    setArchiving(false);
+
+    if (failures.length > 0) {
+      alert(`${failures.length} of ${rowIds.length} record(s) could not be deleted: ${failures[0]}`);
+    }
+  };
+
+  // Serialized so that a new array with the same filters doesn't refetch
+  const completeUserFilters = (userFilters || []).filter(isFilterComplete);
+  const userFiltersParam = completeUserFilters.length > 0 ? serializeFilters(completeUserFilters) : '';
+
+  // Search only looks at the text columns the viewer can see
+  const searchColumns = visibleColumns.filter(col => TEXT_PROPERTY_TYPES.includes(col.type));
+  const searchPropertiesParam = search ? searchColumns.map(col => col.propertyId).join(',') : '';
+
+  const calendarPropertyId = showCalendar ? calendar.dateColumn.propertyId : null;
+
+  // Filter, search and sort params shared by the rows and export requests
+  const listQuery = useMemo(() => {
+    const params = new URLSearchParams();
+    if (formId) {
+      params.set('form_id', formId);
+    }
+    if (filters.length > 0) {
+      params.set('filters', JSON.stringify(filters));
+    }
+    if (userFiltersParam) {
+      params.set('user_filters', userFiltersParam);
+    }
+    if (search) {
+      params.set('search', search);
+      params.set('search_properties', searchPropertiesParam);
+    }
+    if (sortConfig) {
+      params.set('sort_property', sortConfig.propertyId);
+      params.set('sort_direction', sortConfig.direction);
+    }
+    if (calendarPropertyId) {
+      params.set('date_property', calendarPropertyId);
+      params.set('date_from', calendarFrom);
+      params.set('date_to', calendarTo);
+    }
+    return params.toString();
+  }, [formId, filters, userFiltersParam, search, searchPropertiesParam, sortConfig, calendarPropertyId, calendarFrom, calendarTo]);
+
+  const rowsPageSize = showCalendar ? CALENDAR_PAGE_SIZE : pageSize;
+
   const fetchRows = useCallback(async (cursor?: string) => {
     try {
-      const params = new URLSearchParams();
-      params.set('page_size', String(pageSize));
+      const params = new URLSearchParams(listQuery);
+      params.set('page_size', String(rowsPageSize));
       if (cursor) {
         params.set('start_cursor', cursor);
       }
-      if (filters.length > 0) {
-        params.set('filters', JSON.stringify(filters));
-      }
-      if (sortConfig) {
-        params.set('sort_property', sortConfig.propertyId);
-        params.set('sort_direction', sortConfig.direction);
-      }
 
       const response = await fetch(
         `/api/notion/databases/${databaseId}/rows?${params.toString()}`
@@ -369,7 +720,7 @@ export default function ListRenderer({
     } catch (err) {
       throw err;
     }
-  }, [databaseId, pageSize, filters, sortConfig]);
+  }, [databaseId, rowsPageSize, listQuery]);
 
   // Initial load
   useEffect(() => {
@@ -383,6 +734,7 @@ export default function ListRenderer({
         const data = await fetchRows();
         if (!cancelled) {
           setRows(data.rows);
+          setSelectedRows(new Set());
           setHasMore(data.hasMore);
           setNextCursor(data.nextCursor);
         }
@@ -393,6 +745,7 @@ export default function ListRenderer({
       } finally {
         if (!cancelled) {
           setLoading(false);
+          setLoaded(true);
         }
       }
     }
@@ -421,12 +774,49 @@ export default function ListRenderer({
     }
   };
 
+  // Download every row matching the current filters, search and sort
+  const handleExport = async (format: 'csv' | 'xlsx') => {
+    setShowExportMenu(false);
+    setExporting(true);
+
+    try {
+      const params = new URLSearchParams(listQuery);
+      params.set('format', format);
+      params.set('columns', JSON.stringify(
+        visibleColumns.map(col => ({ propertyId: col.propertyId, label: col.label }))
+      ));
+
+      const response = await fetch(`/api/notion/databases/${databaseId}/export?${params.toString()}`);
+
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}));
+        throw new Error(data.error || 'Failed to export');
+      }
+
+      const blob = await response.blob();
+      const fileName = response.headers.get('Content-Disposition')?.match(/filename="([^"]+)"/)?.[1]
+        || `export.${format}`;
+
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = fileName;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Failed to export');
+    } finally {
+      setExporting(false);
+    }
+  };
+
   // Refresh function (can be called after edit)
   const refresh = useCallback(async () => {
     setLoading(true);
     try {
       const data = await fetchRows();
       setRows(data.rows);
+      setSelectedRows(new Set());
       setHasMore(data.hasMore);
       setNextCursor(data.nextCursor);
       setError(null);
@@ -437,7 +827,7 @@ export default function ListRenderer({
     }
   }, [fetchRows]);
 
-  if (loading) {
+  if (loading && !loaded) {
     return (
       <div className="flex items-center justify-center py-12">
         <div className="text-gray-500 dark:text-gray-400">Loading...</div>
@@ -463,78 +853,183 @@ export default function ListRenderer({
     <div className="space-y-4">
       {/* Header with Column visibility and Create button */}
       <div className="flex justify-between items-center">
-        {/* Column visibility dropdown */}
-        <div className="relative" ref={columnMenuRef}>
-          <button
-            onClick={() => setShowColumnMenu(!showColumnMenu)}
-            className="inline-flex items-center gap-2 px-3 py-1.5 text-sm text-gray-600 dark:text-gray-400 hover:text-gray-800 dark:hover:text-gray-200 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-lg transition-colors"
-          >
-            <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 17V7m0 10a2 2 0 01-2 2H5a2 2 0 01-2-2V7a2 2 0 012-2h2a2 2 0 012 2m0 10a2 2 0 002 2h2a2 2 0 002-2M9 7a2 2 0 012-2h2a2 2 0 012 2m0 10V7m0 10a2 2 0 002 2h2a2 2 0 002-2V7a2 2 0 00-2-2h-2a2 2 0 00-2 2" />
-            </svg>
-            Columns
-            {hiddenColumns.size > 0 && (
-              <span className="text-xs bg-gray-200 dark:bg-gray-600 text-gray-600 dark:text-gray-300 px-1.5 py-0.5 rounded">
-                {columns.length - hiddenColumns.size}/{columns.length}
-              </span>
-            )}
-          </button>
-
-          {showColumnMenu && (
-            <div className="absolute left-0 top-full mt-1 bg-white dark:bg-gray-800 border dark:border-gray-700 rounded-lg shadow-lg py-1 z-50 min-w-[200px]">
-              <div className="px-3 py-2 text-xs font-medium text-gray-500 dark:text-gray-400 border-b dark:border-gray-700">
-                Toggle columns
-              </div>
-              {columns.map(col => (
-                <label
-                  key={col.propertyId}
-                  className="flex items-center gap-2 px-3 py-2 hover:bg-gray-50 dark:hover:bg-gray-700 cursor-pointer"
+        <div className="flex flex-wrap items-center gap-2">
+          {/* View switch */}
+          {availableViews.length > 1 && onViewChange && (
+            <div className="inline-flex rounded-lg border dark:border-gray-600 overflow-hidden text-sm">
+              {availableViews.map(option => (
+                <button
+                  key={option}
+                  onClick={() => onViewChange(option)}
+                  className={`px-3 py-1.5 capitalize transition-colors ${
+                    (showTable ? 'table' : view) === option
+                      ? 'bg-gray-100 dark:bg-gray-700 text-gray-900 dark:text-gray-100 font-medium'
+                      : 'text-gray-600 dark:text-gray-400 hover:bg-gray-50 dark:hover:bg-gray-700/50'
+                  }`}
                 >
-                  <input
-                    type="checkbox"
-                    checked={!hiddenColumns.has(col.propertyId)}
-                    onChange={() => toggleColumnVisibility(col.propertyId)}
-                    className="h-4 w-4 text-blue-600 rounded dark:bg-gray-700 dark:border-gray-600"
-                  />
-                  <span className="text-sm text-gray-700 dark:text-gray-300">{col.label}</span>
-                </label>
+                  {option}
+                </button>
               ))}
-              {hiddenColumns.size > 0 && (
-                <div className="border-t dark:border-gray-700 mt-1 pt-1">
+            </div>
+          )}
+
+          {/* Column visibility dropdown */}
+          {showTable && (
+            <div className="relative" ref={columnMenuRef}>
+              <button
+                onClick={() => setShowColumnMenu(!showColumnMenu)}
+                className="inline-flex items-center gap-2 px-3 py-1.5 text-sm text-gray-600 dark:text-gray-400 hover:text-gray-800 dark:hover:text-gray-200 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-lg transition-colors"
+              >
+                <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 17V7m0 10a2 2 0 01-2 2H5a2 2 0 01-2-2V7a2 2 0 012-2h2a2 2 0 012 2m0 10a2 2 0 002 2h2a2 2 0 002-2M9 7a2 2 0 012-2h2a2 2 0 012 2m0 10V7m0 10a2 2 0 002 2h2a2 2 0 002-2V7a2 2 0 00-2-2h-2a2 2 0 00-2 2" />
+                </svg>
+                Columns
+                {hiddenColumns.size > 0 && (
+                  <span className="text-xs bg-gray-200 dark:bg-gray-600 text-gray-600 dark:text-gray-300 px-1.5 py-0.5 rounded">
+                    {columns.length - hiddenColumns.size}/{columns.length}
+                  </span>
+                )}
+              </button>
+
+              {showColumnMenu && (
+                <div className="absolute left-0 top-full mt-1 bg-white dark:bg-gray-800 border dark:border-gray-700 rounded-lg shadow-lg py-1 z-50 min-w-[200px]">
+                  <div className="px-3 py-2 text-xs font-medium text-gray-500 dark:text-gray-400 border-b dark:border-gray-700">
+                    Toggle columns
+                  </div>
+                  {columns.map(col => (
+                    <label
+                      key={col.propertyId}
+                      className="flex items-center gap-2 px-3 py-2 hover:bg-gray-50 dark:hover:bg-gray-700 cursor-pointer"
+                    >
+                      <input
+                        type="checkbox"
+                        checked={!hiddenColumns.has(col.propertyId)}
+                        onChange={() => toggleColumnVisibility(col.propertyId)}
+                        className="h-4 w-4 text-blue-600 rounded dark:bg-gray-700 dark:border-gray-600"
+                      />
+                      <span className="text-sm text-gray-700 dark:text-gray-300">{col.label}</span>
+                    </label>
+                  ))}
+                  {hiddenColumns.size > 0 && (
+                    <div className="border-t dark:border-gray-700 mt-1 pt-1">
+                      <button
+                        onClick={() => setHiddenColumns(new Set())}
+                        className="w-full text-left px-3 py-2 text-sm text-blue-600 dark:text-blue-400 hover:bg-gray-50 dark:hover:bg-gray-700"
+                      >
+                        Show all columns
+                      </button>
+                    </div>
+                  )}
+                </div>
+              )}
+            </div>
+          )}
+
+          {/* Full-text search */}
+          {onSearchChange && (searchColumns.length > 0 || search) && (
+            <div className="relative">
+              <svg className="absolute left-2.5 top-1/2 -translate-y-1/2 w-4 h-4 text-gray-400" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M21 21l-6-6m2-5a7 7 0 11-14 0 7 7 0 0114 0z" />
+              </svg>
+              <input
+                type="search"
+                value={searchInput}
+                onChange={(e) => setSearchInput(e.target.value)}
+                onKeyDown={(e) => e.key === 'Escape' && setSearchInput('')}
+                placeholder="Search..."
+                className="w-48 pl-8 pr-2 py-1.5 text-sm border dark:border-gray-600 rounded-lg focus:ring-1 focus:ring-blue-500 focus:border-blue-500 bg-white dark:bg-gray-700 dark:text-gray-100"
+              />
+            </div>
+          )}
+
+          {/* Viewer filters */}
+          {onUserFiltersChange && (
+            <ListFilterBar
+              properties={filterProperties}
+              filters={userFilters || []}
+              onChange={onUserFiltersChange}
+              users={workspaceUsers}
+            />
+          )}
+        </div>
+
+        <div className="flex items-center gap-3">
+          {/* Bulk archive */}
+          {allowDelete && selectedRows.size > 0 && (
+            <div className="flex items-center gap-2 text-sm">
+              <span className="text-gray-600 dark:text-gray-400">{selectedRows.size} selected</span>
+              <button
+                onClick={() => setSelectedRows(new Set())}
+                className="px-2 py-1 text-gray-600 dark:text-gray-400 hover:text-gray-800 dark:hover:text-gray-200 hover:bg-gray-100 dark:hover:bg-gray-700 rounded transition-colors"
+              >
+                Clear
+              </button>
+              <button
+                onClick={() => archiveRows([...selectedRows])}
+                disabled={archiving}
+                className="px-3 py-1.5 font-medium text-red-600 dark:text-red-400 bg-red-50 dark:bg-red-900/30 hover:bg-red-100 dark:hover:bg-red-900/50 rounded-lg transition-colors disabled:opacity-50"
+              >
+                {archiving ? 'Deleting...' : 'Delete selected'}
+              </button>
+            </div>
+          )}
+
+          {/* Export */}
+          {visibleColumns.length > 0 && (
+            <div className="relative" ref={exportMenuRef}>
+              <button
+                onClick={() => setShowExportMenu(!showExportMenu)}
+                disabled={exporting}
+                className="inline-flex items-center gap-2 px-3 py-1.5 text-sm text-gray-600 dark:text-gray-400 hover:text-gray-800 dark:hover:text-gray-200 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-lg transition-colors disabled:opacity-50"
+              >
+                <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-4l-4 4m0 0l-4-4m4 4V4" />
+                </svg>
+                {exporting ? 'Exporting...' : 'Export'}
+              </button>
+
+              {showExportMenu && (
+                <div className="absolute right-0 top-full mt-1 bg-white dark:bg-gray-800 border dark:border-gray-700 rounded-lg shadow-lg py-1 z-50 min-w-[160px]">
                   <button
-                    onClick={() => setHiddenColumns(new Set())}
-                    className="w-full text-left px-3 py-2 text-sm text-blue-600 dark:text-blue-400 hover:bg-gray-50 dark:hover:bg-gray-700"
+                    onClick={() => handleExport('csv')}
+                    className="w-full text-left px-3 py-2 text-sm text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700"
                   >
-                    Show all columns
+                    CSV
+                  </button>
+                  <button
+                    onClick={() => handleExport('xlsx')}
+                    className="w-full text-left px-3 py-2 text-sm text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700"
+                  >
+                    Excel (.xlsx)
                   </button>
                 </div>
               )}
             </div>
           )}
-        </div>
 
-        {/* Create button */}
-        {allowCreate && onCreateClick && (
-          <button
-            onClick={onCreateClick}
-            className="inline-flex items-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors text-sm font-medium"
-          >
-            <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 4v16m8-8H4" />
-            </svg>
-            New
-          </button>
-        )}
+          {/* Create button */}
+          {allowCreate && onCreateClick && (
+            <button
+              onClick={() => onCreateClick()}
+              className="inline-flex items-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors text-sm font-medium"
+            >
+              <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 4v16m8-8H4" />
+              </svg>
+              New
+            </button>
+          )}
+        </div>
       </div>
 
       {/* No columns visible */}
-      {visibleColumns.length === 0 ? (
+      {showTable && visibleColumns.length === 0 ? (
         <div className="text-center py-12 text-gray-500 dark:text-gray-400 border dark:border-gray-700 rounded-lg border-dashed">
           {columns.length === 0 ? (
             <>
               <p className="font-medium">No columns configured</p>
               <p className="text-sm mt-1">
-                Edit this form and enable "Show in List" on the fields you want to display.
+                Edit this form and enable &quot;Show in List&quot; on the fields you want to display.
               </p>
             </>
           ) : (
@@ -546,22 +1041,66 @@ export default function ListRenderer({
             </>
           )}
         </div>
+      ) : showCalendar ? (
+        <CalendarView
+          rows={rows}
+          datePropertyId={calendar.dateColumn.propertyId}
+          mode={calendarMode}
+          anchor={calendarAnchor}
+          onPeriodChange={(mode, anchor) => {
+            setCalendarMode(mode);
+            setCalendarAnchor(anchor);
+          }}
+          loading={loading}
+          canMove={canWriteColumn(calendar.dateColumn)}
+          getEventTitle={getRecordTitle}
+          onMove={(row, value) => saveCell(row, calendar.dateColumn, value)}
+          onEventClick={allowEdit ? onEditClick : undefined}
+          onCreate={allowCreate && onCreateClick
+            ? (day) => onCreateClick({ [calendar.dateColumn.propertyId]: day })
+            : undefined}
+          isSaving={(rowId) => savingCells.has(`${rowId}:${calendar.dateColumn.propertyId}`)}
+          getError={(rowId) => cellErrors[`${rowId}:${calendar.dateColumn.propertyId}`]}
+        />
+      ) : loading ? (
+        <div className="flex items-center justify-center py-12">
+          <div className="text-gray-500 dark:text-gray-400">Loading...</div>
+        </div>
       ) : rows.length === 0 ? (
         <div className="text-center py-12 text-gray-500 dark:text-gray-400 border dark:border-gray-700 rounded-lg">
-          <p>No records found</p>
-          {filters.length > 0 && (
-            <p className="text-sm mt-1">Try adjusting the filters</p>
+          <p>{search ? `No records match "${search}"` : 'No records found'}</p>
+          {(filters.length > 0 || userFiltersParam || search) && (
+            <p className="text-sm mt-1">Try adjusting the {search ? 'search or filters' : 'filters'}</p>
           )}
         </div>
+      ) : showBoard ? (
+        <BoardView
+          rows={rows}
+          groupByPropertyId={board.groupBy.propertyId}
+          groupByLabel={board.groupBy.label}
+          options={board.options}
+          cardFields={board.cardColumns}
+          canMove={isCellEditable(board.groupBy)}
+          getCardTitle={getRecordTitle}
+          renderValue={(type, value) => formatCellValue(type, value, true)}
+          onMove={(row, option) => saveCell(row, board.groupBy, option)}
+          onCardClick={allowEdit ? onEditClick : undefined}
+          isSaving={(rowId) => savingCells.has(`${rowId}:${board.groupBy.propertyId}`)}
+          getError={(rowId) => cellErrors[`${rowId}:${board.groupBy.propertyId}`]}
+        />
       ) : (
         <div className="border dark:border-gray-700 rounded-lg overflow-hidden">
           <div className="overflow-x-auto">
             <table className="w-full divide-y divide-gray-200 dark:divide-gray-700" style={{ tableLayout: 'fixed' }}>
               <colgroup>
+                {/* Selection checkbox column */}
+                {allowDelete && <col style={{ width: '32px' }} />}
                 {/* Expand arrow column */}
                 <col style={{ width: '24px' }} />
                 {/* Edit button column */}
                 {allowEdit && <col style={{ width: '44px' }} />}
+                {/* Record label column (from the title template) */}
+                {showRowLabel && <col style={{ width: '200px' }} />}
                 {/* Data columns - use stored widths or auto */}
                 {visibleColumns.map((col) => (
                   <col
@@ -572,10 +1111,26 @@ export default function ListRenderer({
               </colgroup>
               <thead className="bg-gray-50 dark:bg-gray-900">
                 <tr>
+                  {allowDelete && (
+                    <th className="pl-3 py-2 text-left">
+                      <input
+                        type="checkbox"
+                        checked={rows.length > 0 && rows.every(row => selectedRows.has(row.id))}
+                        onChange={(e) => setSelectedRows(e.target.checked ? new Set(rows.map(row => row.id)) : new Set())}
+                        className="h-4 w-4 text-blue-600 rounded dark:bg-gray-700 dark:border-gray-600"
+                        title="Select all loaded records"
+                      />
+                    </th>
+                  )}
                   <th className="py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-400"></th>
                   {allowEdit && (
                     <th className="py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-400"></th>
                   )}
+                  {showRowLabel && (
+                    <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider truncate border-r border-gray-200 dark:border-gray-700">
+                      Record
+                    </th>
+                  )}
                   {visibleColumns.map((col) => {
                     const isSorted = sortConfig?.propertyId === col.propertyId;
                     const sortDirection = isSorted ? sortConfig.direction : null;
@@ -628,10 +1183,23 @@ export default function ListRenderer({
               <tbody className="bg-white dark:bg-gray-800 divide-y divide-gray-200 dark:divide-gray-700">
                 {rows.map((row) => {
                   const isExpanded = expandedRows.has(row.id);
-                  const colSpan = visibleColumns.length + 1 + (allowEdit ? 1 : 0);
+                  const colSpan = visibleColumns.length + 1 + (allowDelete ? 1 : 0) + (allowEdit ? 1 : 0) + (showRowLabel ? 1 : 0);
                   return (
                     <React.Fragment key={row.id}>
-                      <tr className={`hover:bg-gray-50 dark:hover:bg-gray-700/50 ${isExpanded ? 'bg-blue-50/30 dark:bg-blue-900/20' : ''}`}>
+                      <tr
+                        className={`hover:bg-gray-50 dark:hover:bg-gray-700/50 ${isExpanded ? 'bg-blue-50/30 dark:bg-blue-900/20' : ''}`}
+                        onContextMenu={allowDelete ? (e) => openRowMenu(e, row.id) : undefined}
+                      >
+                        {allowDelete && (
+                          <td className="pl-3 py-2 align-top">
+                            <input
+                              type="checkbox"
+                              checked={selectedRows.has(row.id)}
+                              onChange={() => toggleRowSelected(row.id)}
+                              className="h-4 w-4 mt-1 text-blue-600 rounded dark:bg-gray-700 dark:border-gray-600"
+                            />
+                          </td>
+                        )}
                         <td className="px-1 py-2 align-top">
                           <button
                             onClick={() => toggleRowExpanded(row.id)}
@@ -657,14 +1225,52 @@ export default function ListRenderer({
                             </button>
                           </td>
                         )}
+                        {showRowLabel && (
+                          <td className="px-4 py-3 text-sm font-medium text-gray-900 dark:text-gray-100">
+                            <TruncatedCell>{getRowLabel(row)}</TruncatedCell>
+                          </td>
+                        )}
                         {visibleColumns.map((col) => {
                           const prop = row.properties[col.propertyId];
+                          const cellKey = `${row.id}:${col.propertyId}`;
+                          const editable = isCellEditable(col, prop?.value) && !savingCells.has(cellKey);
+                          const cellError = cellErrors[cellKey];
+
+                          if (editingCell === cellKey) {
+                            return (
+                              <td key={col.propertyId} className="px-2 py-2 text-sm">
+                                <EditableCell
+                                  type={col.type}
+                                  value={prop?.value}
+                                  options={col.field?.options}
+                                  users={workspaceUsers}
+                                  onCommit={(value) => saveCell(row, col, value)}
+                                  onCancel={() => setEditingCell(null)}
+                                />
+                              </td>
+                            );
+                          }
+
                           return (
                             <td
                               key={col.propertyId}
-                              className="px-4 py-3 text-sm text-gray-900 dark:text-gray-100"
+                              onClick={editable ? () => {
+                                // Checkboxes toggle in place; other types open an editor
+                                if (col.type === 'checkbox') {
+                                  saveCell(row, col, !prop?.value);
+                                } else {
+                                  setEditingCell(cellKey);
+                                }
+                              } : undefined}
+                              className={`px-4 py-3 text-sm text-gray-900 dark:text-gray-100 ${
+                                editable ? 'cursor-pointer hover:bg-blue-50/50 dark:hover:bg-blue-900/10' : ''
+                              } ${savingCells.has(cellKey) ? 'opacity-60' : ''}`}
+                              title={editable ? 'Click to edit' : undefined}
                             >
                               {prop ? formatCellValue(prop.type, prop.value, isExpanded) : '-'}
+                              {cellError && (
+                                <p className="mt-1 text-xs text-red-500 dark:text-red-400 whitespace-normal">{cellError}</p>
+                              )}
                             </td>
                           );
                         })}
@@ -672,7 +1278,7 @@ export default function ListRenderer({
                       {isExpanded && (
                         <tr className="bg-blue-50/30 dark:bg-blue-900/20">
                           <td colSpan={colSpan} className="px-4 py-3 border-t border-blue-100 dark:border-blue-800">
-                            <CommentPreview pageId={row.id} />
+                            <CommentPreview pageId={row.id} formId={formId} />
                           </td>
                         </tr>
                       )}
@@ -686,7 +1292,7 @@ export default function ListRenderer({
       )}
 
       {/* Pagination */}
-      {visibleColumns.length > 0 && hasMore && (
+      {(!showTable || visibleColumns.length > 0) && hasMore && (
         <div className="flex justify-center">
           <button
             onClick={handleLoadMore}
@@ -698,8 +1304,35 @@ export default function ListRenderer({
         </div>
       )}
 
+      {/* Row context menu */}
+      {rowMenu && (
+        <div
+          ref={rowMenuRef}
+          className="fixed bg-white dark:bg-gray-800 border dark:border-gray-700 rounded-lg shadow-lg py-1 z-50 min-w-[160px]"
+          style={{ top: rowMenu.y, left: rowMenu.x }}
+        >
+          {allowEdit && onEditClick && (
+            <button
+              onClick={() => {
+                onEditClick(rowMenu.rowId);
+                setRowMenu(null);
+              }}
+              className="w-full text-left px-3 py-2 text-sm text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700"
+            >
+              Edit
+            </button>
+          )}
+          <button
+            onClick={() => archiveRows([rowMenu.rowId])}
+            className="w-full text-left px-3 py-2 text-sm text-red-600 dark:text-red-400 hover:bg-gray-50 dark:hover:bg-gray-700"
+          >
+            Delete
+          </button>
+        </div>
+      )}
+
       {/* Row count */}
-      {visibleColumns.length > 0 && (
+      {(!showTable || visibleColumns.length > 0) && (
         <div className="text-sm text-gray-500 dark:text-gray-400 text-center">
           {rows.length} record{rows.length !== 1 ? 's' : ''}{hasMore ? '+' : ''} shown
         </div>
@@ -0,0 +1,108 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+
+interface MirrorStatus {
+  enabled: boolean;
+  pageCount: number;
+  lastSyncedAt: string | null;
+  lastFullSyncAt: string | null;
+  syncError: string | null;
+}
+
+function formatTime(value: string | null): string {
+  return value ? new Date(value).toLocaleString() : 'never';
+}
+
+// Turns the local Postgres mirror of a database on and off, and runs full syncs
+export default function MirrorSettings({ databaseId }: { databaseId: string }) {
+  const [status, setStatus] = useState<MirrorStatus | null>(null);
+  const [busy, setBusy] = useState<'sync' | 'disable' | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetch(`/api/notion/databases/${databaseId}/mirror`)
+      .then(async response => {
+        const data = await response.json();
+        if (!response.ok) throw new Error(data.error || 'Failed to load mirror status');
+        setStatus(data);
+      })
+      .catch(err => setError(err instanceof Error ? err.message : 'An error occurred'));
+  }, [databaseId]);
+
+  const sync = async () => {
+    setBusy('sync');
+    setError(null);
+    try {
+      const response = await fetch(`/api/notion/databases/${databaseId}/mirror`, { method: 'POST' });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || 'Failed to sync mirror');
+      setStatus(data);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred');
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const disable = async () => {
+    if (!confirm('Stop mirroring this database? Lists will query Notion directly again.')) return;
+
+    setBusy('disable');
+    setError(null);
+    try {
+      const response = await fetch(`/api/notion/databases/${databaseId}/mirror`, { method: 'DELETE' });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || 'Failed to disable mirror');
+      setStatus({ enabled: false, pageCount: 0, lastSyncedAt: null, lastFullSyncAt: null, syncError: null });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred');
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  return (
+    <div className="mb-8 p-4 bg-white dark:bg-gray-800/50 border dark:border-gray-700 rounded-lg">
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <h2 className="text-lg font-semibold dark:text-gray-100">Local mirror</h2>
+          <p className="text-sm text-gray-500 dark:text-gray-400 mt-1">
+            Keeps a copy of this database in the app&apos;s Postgres database so list views load, sort and
+            search without querying Notion. Changes made in Notion show up within about 30 seconds.
+          </p>
+          {status?.enabled && (
+            <p className="text-sm text-gray-600 dark:text-gray-300 mt-2">
+              {status.pageCount} record{status.pageCount === 1 ? '' : 's'} · last synced {formatTime(status.lastSyncedAt)}
+              {' '}· last full sync {formatTime(status.lastFullSyncAt)}
+            </p>
+          )}
+          {status?.syncError && (
+            <p className="text-sm text-red-600 dark:text-red-400 mt-1">Last sync failed: {status.syncError}</p>
+          )}
+          {error && <p className="text-sm text-red-600 dark:text-red-400 mt-1">{error}</p>}
+        </div>
+        {status && (
+          <div className="flex items-center gap-2 shrink-0">
+            <button
+              onClick={sync}
+              disabled={busy !== null}
+              className="px-3 py-1.5 text-sm bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 transition-colors"
+            >
+              {busy === 'sync' ? 'Syncing...' : status.enabled ? 'Sync now' : 'Enable'}
+            </button>
+            {status.enabled && (
+              <button
+                onClick={disable}
+                disabled={busy !== null}
+                className="px-3 py-1.5 text-sm text-red-600 dark:text-red-400 border border-red-200 dark:border-red-800 rounded-lg hover:bg-red-50 dark:hover:bg-red-900/20 disabled:opacity-50 transition-colors"
+              >
+                {busy === 'disable' ? 'Disabling...' : 'Disable'}
+              </button>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
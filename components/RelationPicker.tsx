@@ -9,6 +9,7 @@ interface RelationPage {
 
 interface RelationPickerProps {
   databaseId: string;
+  formId?: string;  // Form the relation field belongs to; form users can only list its relations
   value: string | string[]; // Page ID(s)
   onChange: (value: string[]) => void;
   multiple?: boolean;
@@ -18,6 +19,7 @@ interface RelationPickerProps {
 
 export default function RelationPicker({
   databaseId,
+  formId,
   value,
   onChange,
   multiple = false,
@@ -28,6 +30,8 @@ export default function RelationPicker({
   const [search, setSearch] = useState('');
   const [pages, setPages] = useState<RelationPage[]>([]);
   const [loading, setLoading] = useState(false);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
   const [error, setError] = useState<string | null>(null);
   const [selectedPages, setSelectedPages] = useState<RelationPage[]>([]);
   const containerRef = useRef<HTMLDivElement>(null);
@@ -35,6 +39,23 @@ export default function RelationPicker({
   // Normalize value to array
   const selectedIds = Array.isArray(value) ? value : value ? [value] : [];
 
+  const fetchPageBatch = async (cursor?: string) => {
+    const params = new URLSearchParams();
+    if (formId) params.set('form_id', formId);
+    if (search) params.set('search', search);
+    if (cursor) params.set('start_cursor', cursor);
+    params.set('page_size', '50');
+
+    const response = await fetch(`/api/notion/databases/${databaseId}/pages?${params}`);
+    const data = await response.json();
+
+    if (!response.ok) {
+      throw new Error(data.error || 'Failed to fetch pages');
+    }
+
+    return data;
+  };
+
   // Fetch pages on mount and when search changes
   useEffect(() => {
     if (!databaseId) return;
@@ -43,18 +64,9 @@ export default function RelationPicker({
       setLoading(true);
       setError(null);
       try {
-        const params = new URLSearchParams();
-        if (search) params.set('search', search);
-        params.set('page_size', '50');
-
-        const response = await fetch(`/api/notion/databases/${databaseId}/pages?${params}`);
-        const data = await response.json();
-
-        if (!response.ok) {
-          throw new Error(data.error || 'Failed to fetch pages');
-        }
-
+        const data = await fetchPageBatch();
         setPages(data.pages || []);
+        setNextCursor(data.hasMore ? data.nextCursor : null);
       } catch (err) {
         setError(err instanceof Error ? err.message : 'Failed to load options');
       } finally {
@@ -65,7 +77,22 @@ export default function RelationPicker({
     // Debounce search
     const timeoutId = setTimeout(fetchPages, search ? 300 : 0);
     return () => clearTimeout(timeoutId);
-  }, [databaseId, search]);
+  }, [databaseId, formId, search]);
+
+  const handleLoadMore = async () => {
+    if (!nextCursor || loadingMore) return;
+
+    setLoadingMore(true);
+    try {
+      const data = await fetchPageBatch(nextCursor);
+      setPages(prev => [...prev, ...(data.pages || [])]);
+      setNextCursor(data.hasMore ? data.nextCursor : null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load options');
+    } finally {
+      setLoadingMore(false);
+    }
+  };
 
   // Load selected page titles on initial render
   useEffect(() => {
@@ -79,11 +106,16 @@ export default function RelationPicker({
     }
   }, [pages, selectedIds]);
 
-  // Update selected pages when value changes
+  // Update selected pages when value changes, keeping titles of selected
+  // pages that the current search no longer returns
   useEffect(() => {
     if (pages.length > 0) {
-      const found = pages.filter(p => selectedIds.includes(p.id));
-      setSelectedPages(found);
+      setSelectedPages(prev => {
+        const known = new Map([...prev, ...pages].map(p => [p.id, p]));
+        return selectedIds
+          .map(id => known.get(id))
+          .filter((p): p is RelationPage => !!p);
+      });
     }
   }, [value, pages]);
 
@@ -231,6 +263,17 @@ export default function RelationPicker({
                 </button>
               );
             })}
+
+            {!loading && !error && nextCursor && (
+              <button
+                type="button"
+                onClick={handleLoadMore}
+                disabled={loadingMore}
+                className="w-full px-3 py-2 text-sm text-blue-600 dark:text-blue-400 hover:bg-gray-100 dark:hover:bg-gray-700 disabled:opacity-50"
+              >
+                {loadingMore ? 'Loading...' : 'Load more'}
+              </button>
+            )}
           </div>
         </div>
       )}
@@ -0,0 +1,466 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import { RichTextAnnotations, RichTextSegment } from '@/types/form';
+import { getPlainText, normalizeSegments, toRichTextValue, toSegments } from '@/lib/rich-text';
+import { CODE_CLASSES, MENTION_CLASSES, RICH_TEXT_COLORS } from './RichTextView';
+
+export interface MentionUser {
+  id: string;
+  name: string;
+  email?: string | null;
+}
+
+interface RichTextEditorProps {
+  value: any;
+  onChange: (value: string | RichTextSegment[]) => void;
+  users?: MentionUser[];  // People that can be mentioned; the mention menu is hidden when empty
+  placeholder?: string;
+  disabled?: boolean;
+  className: string;  // Classes of the editable area
+}
+
+type StyleKey = Exclude<keyof RichTextAnnotations, 'color'>;
+
+const STYLE_BUTTONS: { key: StyleKey; label: string; title: string; className: string; command?: string }[] = [
+  { key: 'bold', label: 'B', title: 'Bold', className: 'font-bold', command: 'bold' },
+  { key: 'italic', label: 'I', title: 'Italic', className: 'italic', command: 'italic' },
+  { key: 'underline', label: 'U', title: 'Underline', className: 'underline', command: 'underline' },
+  { key: 'strikethrough', label: 'S', title: 'Strikethrough', className: 'line-through', command: 'strikeThrough' },
+  { key: 'code', label: '</>', title: 'Code', className: 'font-mono text-xs' },
+];
+
+// Elements the browser creates for new lines
+const BLOCK_TAGS = ['DIV', 'P', 'LI', 'H1', 'H2', 'H3', 'BLOCKQUOTE', 'PRE'];
+
+interface DomPoint {
+  node: Node;
+  offset: number;
+}
+
+interface InheritedStyle {
+  annotations: RichTextAnnotations;
+  href?: string | null;
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+// Editor HTML for segments. Mentions and equations are non-editable spans
+// carrying their data, so they survive editing unchanged.
+function toHtml(segments: RichTextSegment[]): string {
+  return segments.map(segment => {
+    let html = escapeHtml(segment.text);
+    if (segment.mention) {
+      html = `<span data-mention="${escapeHtml(JSON.stringify(segment.mention))}" contenteditable="false" class="${MENTION_CLASSES}">${html}</span>`;
+    } else if (segment.equation) {
+      html = `<span data-equation="true" contenteditable="false" class="font-mono">${html}</span>`;
+    }
+
+    const annotations = segment.annotations || {};
+    if (annotations.code) html = `<code class="${CODE_CLASSES}">${html}</code>`;
+    if (annotations.bold) html = `<strong>${html}</strong>`;
+    if (annotations.italic) html = `<em>${html}</em>`;
+    if (annotations.underline) html = `<u>${html}</u>`;
+    if (annotations.strikethrough) html = `<s>${html}</s>`;
+    if (annotations.color) {
+      html = `<span data-color="${escapeHtml(annotations.color)}" class="${RICH_TEXT_COLORS[annotations.color] || ''}">${html}</span>`;
+    }
+    if (segment.href) {
+      html = `<a href="${escapeHtml(segment.href)}" class="text-blue-600 dark:text-blue-400 underline">${html}</a>`;
+    }
+    return html;
+  }).join('');
+}
+
+// Styles an element adds, including the inline styles some browsers use for formatting commands
+function getElementStyle(el: HTMLElement, inherited: InheritedStyle): InheritedStyle {
+  const annotations = { ...inherited.annotations };
+  const tag = el.tagName;
+  const decoration = el.style.textDecoration || el.style.textDecorationLine || '';
+
+  if (tag === 'STRONG' || tag === 'B' || /^(bold|[6-9]00)$/.test(el.style.fontWeight)) annotations.bold = true;
+  if (tag === 'EM' || tag === 'I' || el.style.fontStyle === 'italic') annotations.italic = true;
+  if (tag === 'U' || decoration.includes('underline')) annotations.underline = true;
+  if (tag === 'S' || tag === 'STRIKE' || tag === 'DEL' || decoration.includes('line-through')) annotations.strikethrough = true;
+  if (tag === 'CODE') annotations.code = true;
+  if (el.dataset.color) annotations.color = el.dataset.color;
+
+  return { annotations, href: tag === 'A' ? el.getAttribute('href') : inherited.href };
+}
+
+// Segments of the editor's content, and the text offsets of the given DOM
+// points (-1 when a point isn't in the editor)
+function readEditor(root: HTMLElement, points: DomPoint[] = []): { segments: RichTextSegment[]; offsets: number[] } {
+  const segments: RichTextSegment[] = [];
+  const offsets = points.map(() => -1);
+  let length = 0;
+  let lastChar = '';
+
+  const push = (segment: RichTextSegment) => {
+    segments.push(segment);
+    length += segment.text.length;
+    if (segment.text) lastChar = segment.text[segment.text.length - 1];
+  };
+
+  const markChildPoints = (node: Node, index: number) => {
+    points.forEach((point, i) => {
+      if (point.node === node && point.offset === index) offsets[i] = length;
+    });
+  };
+
+  const walk = (node: Node, style: InheritedStyle) => {
+    if (node.nodeType === Node.TEXT_NODE) {
+      const text = node.textContent || '';
+      points.forEach((point, i) => {
+        if (point.node === node) offsets[i] = length + Math.min(point.offset, text.length);
+      });
+      push({ text, annotations: style.annotations, href: style.href });
+      return;
+    }
+    if (!(node instanceof HTMLElement)) return;
+
+    if (node.dataset.mention || node.dataset.equation) {
+      points.forEach((point, i) => {
+        if (node.contains(point.node)) offsets[i] = length;
+      });
+      let mention;
+      try {
+        mention = node.dataset.mention ? JSON.parse(node.dataset.mention) : undefined;
+      } catch {
+        // Keep the text of a mention we can't read
+      }
+      push({
+        text: node.textContent || '',
+        annotations: style.annotations,
+        href: style.href,
+        mention,
+        equation: !!node.dataset.equation,
+      });
+      return;
+    }
+
+    if (node.tagName === 'BR') {
+      push({ text: '\n', annotations: style.annotations });
+      return;
+    }
+
+    const childStyle = getElementStyle(node, style);
+    if (node !== root && BLOCK_TAGS.includes(node.tagName) && length > 0 && lastChar !== '\n') {
+      push({ text: '\n', annotations: style.annotations });
+    }
+    node.childNodes.forEach((child, index) => {
+      markChildPoints(node, index);
+      walk(child, childStyle);
+    });
+    markChildPoints(node, node.childNodes.length);
+  };
+
+  root.childNodes.forEach((child, index) => {
+    markChildPoints(root, index);
+    walk(child, { annotations: {} });
+  });
+  markChildPoints(root, root.childNodes.length);
+
+  // Browsers leave a trailing line break in the editor; drop trailing new lines
+  for (let i = segments.length - 1; i >= 0; i--) {
+    const segment = segments[i];
+    if (segment.mention || segment.equation) break;
+    segment.text = segment.text.replace(/\n+$/, '');
+    if (segment.text) break;
+  }
+  const total = segments.reduce((sum, segment) => sum + segment.text.length, 0);
+
+  return { segments, offsets: offsets.map(offset => (offset === -1 ? -1 : Math.min(offset, total))) };
+}
+
+// DOM point of a text offset in editor HTML built by toHtml
+function findPoint(root: HTMLElement, offset: number): DomPoint {
+  let remaining = offset;
+
+  const find = (node: Node): DomPoint | null => {
+    if (node.nodeType === Node.TEXT_NODE) {
+      const length = node.textContent?.length || 0;
+      if (remaining <= length) return { node, offset: remaining };
+      remaining -= length;
+      return null;
+    }
+    if (node instanceof HTMLElement && (node.dataset.mention || node.dataset.equation) && node.parentNode) {
+      const index = Array.from(node.parentNode.childNodes).indexOf(node);
+      if (remaining <= 0) return { node: node.parentNode, offset: index };
+      remaining -= node.textContent?.length || 0;
+      return remaining <= 0 ? { node: node.parentNode, offset: index + 1 } : null;
+    }
+    for (const child of Array.from(node.childNodes)) {
+      const point = find(child);
+      if (point) return point;
+    }
+    return null;
+  };
+
+  return find(root) || { node: root, offset: root.childNodes.length };
+}
+
+// Split segments so that `offset` falls between two of them. Mentions and
+// equations are never split.
+function splitAt(segments: RichTextSegment[], offset: number): RichTextSegment[] {
+  const result: RichTextSegment[] = [];
+  let position = 0;
+  segments.forEach(segment => {
+    const end = position + segment.text.length;
+    if (offset > position && offset < end && !segment.mention && !segment.equation) {
+      result.push(
+        { ...segment, text: segment.text.slice(0, offset - position) },
+        { ...segment, text: segment.text.slice(offset - position) }
+      );
+    } else {
+      result.push(segment);
+    }
+    position = end;
+  });
+  return result;
+}
+
+// Segments split at a range, with whether each lies inside it
+function splitRange(segments: RichTextSegment[], start: number, end: number): { segment: RichTextSegment; inside: boolean; from: number }[] {
+  let position = 0;
+  return splitAt(splitAt(segments, start), end).map(segment => {
+    const from = position;
+    position += segment.text.length;
+    return { segment, inside: from >= start && position <= end && segment.text.length > 0, from };
+  });
+}
+
+// Links typed without a scheme are taken as web addresses
+function normalizeUrl(url: string): string {
+  if (!url) return '';
+  return /^(https?:|mailto:|\/)/i.test(url) ? url : `https://${url}`;
+}
+
+// Multi-line text input that keeps Notion formatting: bold, italic,
+// underline, strikethrough, code, links and mentions. Styles are applied to
+// the segments rather than with browser commands, so every browser produces
+// the same value.
+export default function RichTextEditor({
+  value,
+  onChange,
+  users = [],
+  placeholder,
+  disabled = false,
+  className,
+}: RichTextEditorProps) {
+  const editorRef = useRef<HTMLDivElement>(null);
+  // JSON of the value the editor last showed or produced; other values replace its content
+  const shownValueRef = useRef<string | null>(null);
+  // Selection in the editor, kept while toolbar controls have focus
+  const savedRangeRef = useRef<Range | null>(null);
+  const [isEmpty, setIsEmpty] = useState(true);
+
+  useEffect(() => {
+    const root = editorRef.current;
+    if (!root) return;
+    const key = JSON.stringify(value ?? '');
+    if (key === shownValueRef.current) return;
+
+    shownValueRef.current = key;
+    root.innerHTML = toHtml(normalizeSegments(toSegments(value)));
+    setIsEmpty(!getPlainText(value));
+  }, [value]);
+
+  useEffect(() => {
+    const handleSelectionChange = () => {
+      const selection = window.getSelection();
+      const root = editorRef.current;
+      if (!root || !selection || selection.rangeCount === 0) return;
+      const range = selection.getRangeAt(0);
+      if (root.contains(range.startContainer) && root.contains(range.endContainer)) {
+        savedRangeRef.current = range.cloneRange();
+      }
+    };
+    document.addEventListener('selectionchange', handleSelectionChange);
+    return () => document.removeEventListener('selectionchange', handleSelectionChange);
+  }, []);
+
+  const emit = (segments: RichTextSegment[]) => {
+    const next = toRichTextValue(segments);
+    shownValueRef.current = JSON.stringify(next);
+    setIsEmpty(!getPlainText(next));
+    onChange(next);
+  };
+
+  // Current segments and selected text range (the end of the text when nothing is selected)
+  const readSelection = () => {
+    const root = editorRef.current!;
+    const selection = window.getSelection();
+    const current = selection && selection.rangeCount > 0 ? selection.getRangeAt(0) : null;
+    const range = current && root.contains(current.startContainer) && root.contains(current.endContainer)
+      ? current
+      : savedRangeRef.current;
+    const points = range
+      ? [{ node: range.startContainer, offset: range.startOffset }, { node: range.endContainer, offset: range.endOffset }]
+      : [];
+
+    const { segments, offsets } = readEditor(root, points);
+    const length = segments.reduce((sum, segment) => sum + segment.text.length, 0);
+    const start = offsets[0] >= 0 ? offsets[0] : length;
+    const end = offsets[1] >= 0 ? offsets[1] : length;
+    return { segments, start: Math.min(start, end), end: Math.max(start, end) };
+  };
+
+  // Show new segments and select a text range in them
+  const apply = (segments: RichTextSegment[], start: number, end: number) => {
+    const root = editorRef.current!;
+    const normalized = normalizeSegments(segments);
+    root.innerHTML = toHtml(normalized);
+
+    root.focus();
+    const from = findPoint(root, start);
+    const to = findPoint(root, end);
+    const range = document.createRange();
+    range.setStart(from.node, from.offset);
+    range.setEnd(to.node, to.offset);
+    const selection = window.getSelection();
+    selection?.removeAllRanges();
+    selection?.addRange(range);
+
+    emit(normalized);
+  };
+
+  const toggleStyle = (button: (typeof STYLE_BUTTONS)[number]) => {
+    const { segments, start, end } = readSelection();
+    if (start === end) {
+      // Nothing selected: let the browser style the text typed next
+      if (button.command) document.execCommand(button.command);
+      return;
+    }
+
+    const parts = splitRange(segments, start, end);
+    const selected = parts.filter(p => p.inside);
+    const active = selected.length > 0 && selected.every(p => p.segment.annotations?.[button.key]);
+    apply(
+      parts.map(p => (p.inside
+        ? { ...p.segment, annotations: { ...p.segment.annotations, [button.key]: !active } }
+        : p.segment)),
+      start,
+      end
+    );
+  };
+
+  const editLink = () => {
+    const { segments, start, end } = readSelection();
+    if (start === end) {
+      alert('Select the text to link first');
+      return;
+    }
+
+    const parts = splitRange(segments, start, end);
+    const current = parts.find(p => p.inside && p.segment.href)?.segment.href || '';
+    const input = window.prompt('Link URL (leave empty to remove the link)', current);
+    if (input === null) return;
+
+    const href = normalizeUrl(input.trim()) || null;
+    apply(
+      parts.map(p => (p.inside && !p.segment.mention && !p.segment.equation ? { ...p.segment, href } : p.segment)),
+      start,
+      end
+    );
+  };
+
+  const insertMention = (user: MentionUser) => {
+    const { segments, start, end } = readSelection();
+    const parts = splitRange(segments, start, end);
+    const mention: RichTextSegment = { text: `@${user.name}`, mention: { type: 'user', id: user.id } };
+    const caret = start + mention.text.length;
+
+    apply(
+      [
+        ...parts.filter(p => p.from < start).map(p => p.segment),
+        mention,
+        { text: ' ' },
+        ...parts.filter(p => p.from >= end).map(p => p.segment),
+      ],
+      caret + 1,
+      caret + 1
+    );
+  };
+
+  const handleInput = () => {
+    emit(readEditor(editorRef.current!).segments);
+  };
+
+  // Paste as plain text; formatting is applied with the toolbar
+  const handlePaste = (e: React.ClipboardEvent<HTMLDivElement>) => {
+    e.preventDefault();
+    document.execCommand('insertText', false, e.clipboardData.getData('text/plain'));
+  };
+
+  return (
+    <div className="space-y-1">
+      {!disabled && (
+        <div className="flex flex-wrap items-center gap-1">
+          {STYLE_BUTTONS.map(button => (
+            <button
+              key={button.key}
+              type="button"
+              // Keep the editor's selection when clicking
+              onMouseDown={(e) => e.preventDefault()}
+              onClick={() => toggleStyle(button)}
+              title={button.title}
+              className={`min-w-[1.75rem] h-7 px-1.5 text-sm text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 rounded ${button.className}`}
+            >
+              {button.label}
+            </button>
+          ))}
+          <button
+            type="button"
+            onMouseDown={(e) => e.preventDefault()}
+            onClick={editLink}
+            title="Link"
+            className="h-7 px-1.5 text-sm text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 rounded"
+          >
+            <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M13.828 10.172a4 4 0 00-5.656 0l-4 4a4 4 0 105.656 5.656l1.102-1.101m-.758-4.899a4 4 0 005.656 0l4-4a4 4 0 00-5.656-5.656l-1.1 1.1" />
+            </svg>
+          </button>
+          {users.length > 0 && (
+            <select
+              value=""
+              onChange={(e) => {
+                const user = users.find(u => u.id === e.target.value);
+                if (user) insertMention(user);
+              }}
+              title="Mention a person"
+              className="h-7 px-1 text-sm text-gray-700 dark:text-gray-300 bg-transparent hover:bg-gray-100 dark:hover:bg-gray-700 rounded border-0"
+            >
+              <option value="">@ Mention</option>
+              {users.map(user => (
+                <option key={user.id} value={user.id}>{user.name}</option>
+              ))}
+            </select>
+          )}
+        </div>
+      )}
+      <div className="relative">
+        <div
+          ref={editorRef}
+          role="textbox"
+          aria-multiline="true"
+          contentEditable={!disabled}
+          onInput={handleInput}
+          onPaste={handlePaste}
+          className={`${className} min-h-[80px] whitespace-pre-wrap break-words overflow-y-auto max-h-96`}
+        />
+        {isEmpty && placeholder && (
+          <span className="absolute left-3 top-2 text-gray-400 dark:text-gray-500 pointer-events-none">
+            {placeholder}
+          </span>
+        )}
+      </div>
+    </div>
+  );
+}
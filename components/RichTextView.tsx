@@ -0,0 +1,71 @@
+'use client';
+
+import React from 'react';
+import { RichTextAnnotations, RichTextSegment } from '@/types/form';
+import { toSegments } from '@/lib/rich-text';
+
+// Notion text and background colors
+export const RICH_TEXT_COLORS: Record<string, string> = {
+  gray: 'text-gray-500 dark:text-gray-400',
+  brown: 'text-amber-800 dark:text-amber-600',
+  orange: 'text-orange-600 dark:text-orange-400',
+  yellow: 'text-yellow-600 dark:text-yellow-400',
+  green: 'text-green-600 dark:text-green-400',
+  blue: 'text-blue-600 dark:text-blue-400',
+  purple: 'text-purple-600 dark:text-purple-400',
+  pink: 'text-pink-600 dark:text-pink-400',
+  red: 'text-red-600 dark:text-red-400',
+  gray_background: 'bg-gray-100 dark:bg-gray-700',
+  brown_background: 'bg-amber-100 dark:bg-amber-900/40',
+  orange_background: 'bg-orange-100 dark:bg-orange-900/40',
+  yellow_background: 'bg-yellow-100 dark:bg-yellow-900/40',
+  green_background: 'bg-green-100 dark:bg-green-900/40',
+  blue_background: 'bg-blue-100 dark:bg-blue-900/40',
+  purple_background: 'bg-purple-100 dark:bg-purple-900/40',
+  pink_background: 'bg-pink-100 dark:bg-pink-900/40',
+  red_background: 'bg-red-100 dark:bg-red-900/40',
+};
+
+export const MENTION_CLASSES = 'text-blue-700 dark:text-blue-300 bg-blue-50 dark:bg-blue-900/30 rounded px-0.5';
+export const CODE_CLASSES = 'font-mono text-[0.9em] bg-gray-100 dark:bg-gray-700 text-red-600 dark:text-red-400 rounded px-1';
+
+export function getAnnotationClasses(annotations: RichTextAnnotations | undefined): string {
+  if (!annotations) return '';
+  return [
+    annotations.bold && 'font-bold',
+    annotations.italic && 'italic',
+    annotations.underline && annotations.strikethrough ? 'underline line-through'
+      : annotations.underline ? 'underline'
+      : annotations.strikethrough && 'line-through',
+    annotations.code && CODE_CLASSES,
+    annotations.color && RICH_TEXT_COLORS[annotations.color],
+  ].filter(Boolean).join(' ');
+}
+
+function renderSegment(segment: RichTextSegment, index: number): React.ReactNode {
+  const className = `${getAnnotationClasses(segment.annotations)} ${
+    segment.mention ? MENTION_CLASSES : segment.equation ? 'font-mono' : ''
+  }`.trim() || undefined;
+
+  // Only web, mail and Notion-relative links are followed
+  if (segment.href && /^(https?:|mailto:|\/)/i.test(segment.href)) {
+    return (
+      <a
+        key={index}
+        href={segment.href}
+        target="_blank"
+        rel="noopener noreferrer"
+        onClick={(e) => e.stopPropagation()}
+        className={`${className || ''} text-blue-600 dark:text-blue-400 underline`}
+      >
+        {segment.text}
+      </a>
+    );
+  }
+  return <span key={index} className={className}>{segment.text}</span>;
+}
+
+// Read-only display of a rich text value (string or segments)
+export default function RichTextView({ value }: { value: any }) {
+  return <>{toSegments(value).map(renderSegment)}</>;
+}
@@ -0,0 +1,273 @@
+'use client';
+
+import {
+  DndContext,
+  closestCorners,
+  KeyboardSensor,
+  PointerSensor,
+  useDroppable,
+  useSensor,
+  useSensors,
+  DragOverEvent,
+  DragEndEvent,
+} from '@dnd-kit/core';
+import {
+  arrayMove,
+  SortableContext,
+  sortableKeyboardCoordinates,
+  useSortable,
+  verticalListSortingStrategy,
+} from '@dnd-kit/sortable';
+import { CSS } from '@dnd-kit/utilities';
+import { FormSection } from '@/types/form';
+
+interface SectionField {
+  notionPropertyId: string;
+  label: string;
+}
+
+interface SectionEditorProps {
+  sections: FormSection[];
+  onChange: (sections: FormSection[]) => void;
+  fields: SectionField[];  // enabled fields of the form
+}
+
+const UNASSIGNED = 'unassigned';
+
+function newSectionId(): string {
+  return `section-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`;
+}
+
+// Draggable field chip
+function SectionFieldItem({ id, label }: { id: string; label: string }) {
+  const {
+    attributes,
+    listeners,
+    setNodeRef,
+    transform,
+    transition,
+    isDragging,
+  } = useSortable({ id });
+
+  const style = {
+    transform: CSS.Transform.toString(transform),
+    transition,
+    opacity: isDragging ? 0.5 : 1,
+  };
+
+  return (
+    <div
+      ref={setNodeRef}
+      style={style}
+      {...attributes}
+      {...listeners}
+      className="px-2 py-1.5 text-sm bg-gray-50 dark:bg-gray-700 border dark:border-gray-600 rounded cursor-grab active:cursor-grabbing dark:text-gray-200"
+    >
+      {label}
+    </div>
+  );
+}
+
+// Drop target holding a list of fields
+function FieldContainer({
+  id,
+  fieldIds,
+  labels,
+}: {
+  id: string;
+  fieldIds: string[];
+  labels: Map<string, string>;
+}) {
+  const { setNodeRef, isOver } = useDroppable({ id });
+
+  return (
+    <SortableContext items={fieldIds} strategy={verticalListSortingStrategy}>
+      <div
+        ref={setNodeRef}
+        className={`min-h-[2.5rem] space-y-1 p-1 rounded border border-dashed transition-colors ${
+          isOver ? 'border-blue-400 bg-blue-50 dark:bg-blue-900/20' : 'border-gray-200 dark:border-gray-700'
+        }`}
+      >
+        {fieldIds.map(fieldId => (
+          <SectionFieldItem key={fieldId} id={fieldId} label={labels.get(fieldId) || fieldId} />
+        ))}
+        {fieldIds.length === 0 && (
+          <p className="text-xs text-gray-400 dark:text-gray-500 text-center py-2">Drop fields here</p>
+        )}
+      </div>
+    </SortableContext>
+  );
+}
+
+// Builder UI for grouping fields into wizard steps, with drag-and-drop between sections
+export default function SectionEditor({ sections, onChange, fields }: SectionEditorProps) {
+  const sensors = useSensors(
+    useSensor(PointerSensor),
+    useSensor(KeyboardSensor, {
+      coordinateGetter: sortableKeyboardCoordinates,
+    })
+  );
+
+  const labels = new Map(fields.map(f => [f.notionPropertyId, f.label]));
+  const enabledIds = new Set(fields.map(f => f.notionPropertyId));
+
+  // Drop fields that are no longer part of the form
+  const cleanSections = sections.map(s => ({
+    ...s,
+    fieldIds: s.fieldIds.filter(id => enabledIds.has(id)),
+  }));
+  const assigned = new Set(cleanSections.flatMap(s => s.fieldIds));
+  const unassigned = fields.map(f => f.notionPropertyId).filter(id => !assigned.has(id));
+
+  const containerOf = (id: string): string | null => {
+    if (id === UNASSIGNED || cleanSections.some(s => s.id === id)) return id;
+    if (unassigned.includes(id)) return UNASSIGNED;
+    return cleanSections.find(s => s.fieldIds.includes(id))?.id || null;
+  };
+
+  const idsIn = (container: string): string[] =>
+    container === UNASSIGNED ? unassigned : cleanSections.find(s => s.id === container)?.fieldIds || [];
+
+  const updateSection = (id: string, updates: Partial<FormSection>) => {
+    onChange(cleanSections.map(s => (s.id === id ? { ...s, ...updates } : s)));
+  };
+
+  // Move a field into another container while dragging
+  const handleDragOver = (event: DragOverEvent) => {
+    const { active, over } = event;
+    if (!over) return;
+
+    const activeId = String(active.id);
+    const from = containerOf(activeId);
+    const to = containerOf(String(over.id));
+    if (!from || !to || from === to) return;
+
+    const target = idsIn(to);
+    const overIndex = target.indexOf(String(over.id));
+    const insertAt = overIndex >= 0 ? overIndex : target.length;
+
+    onChange(cleanSections.map(s => {
+      if (s.id === from) {
+        return { ...s, fieldIds: s.fieldIds.filter(id => id !== activeId) };
+      }
+      if (s.id === to) {
+        const next = s.fieldIds.filter(id => id !== activeId);
+        next.splice(insertAt, 0, activeId);
+        return { ...s, fieldIds: next };
+      }
+      return s;
+    }));
+  };
+
+  // Reorder within a section
+  const handleDragEnd = (event: DragEndEvent) => {
+    const { active, over } = event;
+    if (!over || active.id === over.id) return;
+
+    const container = containerOf(String(active.id));
+    if (!container || container === UNASSIGNED || container !== containerOf(String(over.id))) return;
+
+    const ids = idsIn(container);
+    const oldIndex = ids.indexOf(String(active.id));
+    const newIndex = ids.indexOf(String(over.id));
+    if (oldIndex >= 0 && newIndex >= 0) {
+      updateSection(container, { fieldIds: arrayMove(ids, oldIndex, newIndex) });
+    }
+  };
+
+  const addSection = () => {
+    onChange([
+      ...cleanSections,
+      { id: newSectionId(), title: `Step ${cleanSections.length + 1}`, fieldIds: [] },
+    ]);
+  };
+
+  const removeSection = (id: string) => {
+    onChange(cleanSections.filter(s => s.id !== id));
+  };
+
+  const moveSection = (index: number, direction: -1 | 1) => {
+    const target = index + direction;
+    if (target < 0 || target >= cleanSections.length) return;
+    onChange(arrayMove(cleanSections, index, target));
+  };
+
+  const inputClasses = 'w-full px-2 py-1.5 text-sm border dark:border-gray-600 rounded focus:ring-1 focus:ring-blue-500 bg-white dark:bg-gray-700 dark:text-gray-100';
+
+  return (
+    <DndContext
+      sensors={sensors}
+      collisionDetection={closestCorners}
+      onDragOver={handleDragOver}
+      onDragEnd={handleDragEnd}
+    >
+      <div className="space-y-3">
+        {cleanSections.map((section, index) => (
+          <div key={section.id} className="border dark:border-gray-700 rounded-lg p-3 space-y-2">
+            <div className="flex items-center gap-2">
+              <span className="text-xs font-medium text-gray-500 dark:text-gray-400 flex-shrink-0">{index + 1}.</span>
+              <input
+                type="text"
+                value={section.title}
+                onChange={(e) => updateSection(section.id, { title: e.target.value })}
+                placeholder="Section title"
+                className={inputClasses}
+              />
+              <button
+                type="button"
+                onClick={() => moveSection(index, -1)}
+                disabled={index === 0}
+                className="text-gray-400 hover:text-gray-600 dark:hover:text-gray-300 disabled:opacity-30"
+                title="Move up"
+              >
+                ▲
+              </button>
+              <button
+                type="button"
+                onClick={() => moveSection(index, 1)}
+                disabled={index === cleanSections.length - 1}
+                className="text-gray-400 hover:text-gray-600 dark:hover:text-gray-300 disabled:opacity-30"
+                title="Move down"
+              >
+                ▼
+              </button>
+              <button
+                type="button"
+                onClick={() => removeSection(section.id)}
+                className="text-gray-400 hover:text-red-500"
+                title="Remove section"
+              >
+                &times;
+              </button>
+            </div>
+            <input
+              type="text"
+              value={section.description || ''}
+              onChange={(e) => updateSection(section.id, { description: e.target.value || undefined })}
+              placeholder="Description (optional)"
+              className={inputClasses}
+            />
+            <FieldContainer id={section.id} fieldIds={section.fieldIds} labels={labels} />
+          </div>
+        ))}
+
+        <button
+          type="button"
+          onClick={addSection}
+          className="text-sm text-blue-600 dark:text-blue-400 hover:text-blue-800 dark:hover:text-blue-300"
+        >
+          + Add section
+        </button>
+
+        {cleanSections.length > 0 && (
+          <div>
+            <p className="text-xs font-medium text-gray-600 dark:text-gray-400 mb-1">
+              Unassigned fields (shown on the last step)
+            </p>
+            <FieldContainer id={UNASSIGNED} fieldIds={unassigned} labels={labels} />
+          </div>
+        )}
+      </div>
+    </DndContext>
+  );
+}
@@ -0,0 +1,239 @@
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import { formatDateValue } from '@/lib/date-value';
+import { getPlainText, isRichText } from '@/lib/rich-text';
+
+interface Submission {
+  id: string;
+  notionPageId: string;
+  mode: string;
+  values: Record<string, any>;
+  createdAt: string;
+  formUserId: string | null;
+  formUserEmail: string | null;
+  formUserName: string | null;
+  adminUserEmail: string | null;
+  adminUserName: string | null;
+}
+
+interface Submitter {
+  id: string;
+  email: string;
+  name: string | null;
+}
+
+interface SubmissionLogProps {
+  formId: string;
+  fields: { notionPropertyId: string; label: string }[];
+}
+
+const MODE_LABELS: Record<string, string> = {
+  create: 'Created',
+  edit: 'Edited',
+  archive: 'Archived',
+};
+
+// Format a snapshot value for display
+function formatValue(value: any): string {
+  if (value === null || value === undefined || value === '') return '-';
+  if (isRichText(value)) return getPlainText(value);
+  if (Array.isArray(value)) return value.map(formatValue).join(', ');
+  if (typeof value === 'object' && 'start' in value) return formatDateValue(value);
+  if (typeof value === 'object') return value.name || JSON.stringify(value);
+  return String(value);
+}
+
+export default function SubmissionLog({ formId, fields }: SubmissionLogProps) {
+  const [submissions, setSubmissions] = useState<Submission[]>([]);
+  const [submitters, setSubmitters] = useState<Submitter[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+
+  // Filters
+  const [formUserId, setFormUserId] = useState('');
+  const [from, setFrom] = useState('');
+  const [to, setTo] = useState('');
+
+  useEffect(() => {
+    let cancelled = false;
+
+    async function fetchSubmissions() {
+      setLoading(true);
+      setError(null);
+
+      try {
+        const params = new URLSearchParams();
+        if (formUserId) params.set('form_user_id', formUserId);
+        if (from) params.set('from', from);
+        if (to) params.set('to', to);
+
+        const response = await fetch(`/api/forms/${formId}/submissions?${params.toString()}`);
+        const data = await response.json();
+
+        if (!response.ok) {
+          throw new Error(data.error || 'Failed to fetch submissions');
+        }
+
+        if (!cancelled) {
+          setSubmissions(data.submissions);
+          setSubmitters(data.submitters);
+        }
+      } catch (err) {
+        if (!cancelled) {
+          setError(err instanceof Error ? err.message : 'Failed to load submissions');
+        }
+      } finally {
+        if (!cancelled) {
+          setLoading(false);
+        }
+      }
+    }
+
+    fetchSubmissions();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [formId, formUserId, from, to]);
+
+  const labelFor = (propertyId: string) =>
+    fields.find(f => f.notionPropertyId === propertyId)?.label || propertyId;
+
+  const inputClasses = 'px-2 py-1.5 text-sm border dark:border-gray-600 rounded focus:ring-1 focus:ring-blue-500 bg-white dark:bg-gray-700 dark:text-gray-100';
+
+  return (
+    <div className="space-y-4">
+      {/* Filters */}
+      <div className="flex flex-wrap items-end gap-3">
+        <div>
+          <label className="block text-xs text-gray-600 dark:text-gray-400 mb-1">User</label>
+          <select
+            value={formUserId}
+            onChange={(e) => setFormUserId(e.target.value)}
+            className={inputClasses}
+          >
+            <option value="">All users</option>
+            {submitters.map(s => (
+              <option key={s.id} value={s.id}>
+                {s.name ? `${s.name} (${s.email})` : s.email}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label className="block text-xs text-gray-600 dark:text-gray-400 mb-1">From</label>
+          <input type="date" value={from} onChange={(e) => setFrom(e.target.value)} className={inputClasses} />
+        </div>
+        <div>
+          <label className="block text-xs text-gray-600 dark:text-gray-400 mb-1">To</label>
+          <input type="date" value={to} onChange={(e) => setTo(e.target.value)} className={inputClasses} />
+        </div>
+        {(formUserId || from || to) && (
+          <button
+            onClick={() => {
+              setFormUserId('');
+              setFrom('');
+              setTo('');
+            }}
+            className="px-3 py-1.5 text-sm text-blue-600 dark:text-blue-400 hover:text-blue-800 dark:hover:text-blue-300"
+          >
+            Clear filters
+          </button>
+        )}
+      </div>
+
+      {loading ? (
+        <div className="flex items-center justify-center py-12">
+          <div className="text-gray-500 dark:text-gray-400">Loading...</div>
+        </div>
+      ) : error ? (
+        <div className="rounded-lg border border-red-200 dark:border-red-800 bg-red-50 dark:bg-red-900/20 p-4 text-red-700 dark:text-red-400">
+          {error}
+        </div>
+      ) : submissions.length === 0 ? (
+        <div className="text-center py-12 text-gray-500 dark:text-gray-400 border dark:border-gray-700 rounded-lg">
+          No submissions found
+        </div>
+      ) : (
+        <div className="border dark:border-gray-700 rounded-lg overflow-hidden">
+          <table className="w-full divide-y divide-gray-200 dark:divide-gray-700 text-sm">
+            <thead className="bg-gray-50 dark:bg-gray-900">
+              <tr>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">Date</th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">User</th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">Action</th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">Record</th>
+              </tr>
+            </thead>
+            <tbody className="bg-white dark:bg-gray-800 divide-y divide-gray-200 dark:divide-gray-700">
+              {submissions.map(submission => {
+                const isExpanded = expandedId === submission.id;
+                const userLabel = submission.formUserEmail
+                  ? submission.formUserName || submission.formUserEmail
+                  : `${submission.adminUserName || submission.adminUserEmail || 'Unknown'} (admin)`;
+
+                return (
+                  <React.Fragment key={submission.id}>
+                    <tr
+                      onClick={() => setExpandedId(isExpanded ? null : submission.id)}
+                      className="hover:bg-gray-50 dark:hover:bg-gray-700/50 cursor-pointer"
+                    >
+                      <td className="px-4 py-3 text-gray-600 dark:text-gray-400 whitespace-nowrap">
+                        {new Date(submission.createdAt).toLocaleString()}
+                      </td>
+                      <td className="px-4 py-3 text-gray-900 dark:text-gray-100">{userLabel}</td>
+                      <td className="px-4 py-3">
+                        <span className={`inline-flex items-center px-2 py-0.5 rounded text-xs font-medium ${
+                          submission.mode === 'create'
+                            ? 'bg-green-100 dark:bg-green-900/30 text-green-800 dark:text-green-300'
+                            : submission.mode === 'archive'
+                              ? 'bg-red-100 dark:bg-red-900/30 text-red-800 dark:text-red-300'
+                              : 'bg-blue-100 dark:bg-blue-900/30 text-blue-800 dark:text-blue-300'
+                        }`}>
+                          {MODE_LABELS[submission.mode] || submission.mode}
+                        </span>
+                      </td>
+                      <td className="px-4 py-3">
+                        <a
+                          href={`https://www.notion.so/${submission.notionPageId.replace(/-/g, '')}`}
+                          target="_blank"
+                          rel="noopener noreferrer"
+                          onClick={(e) => e.stopPropagation()}
+                          className="text-blue-600 dark:text-blue-400 hover:text-blue-800 dark:hover:text-blue-300"
+                        >
+                          Open in Notion
+                        </a>
+                      </td>
+                    </tr>
+                    {isExpanded && (
+                      <tr className="bg-gray-50 dark:bg-gray-900/50">
+                        <td colSpan={4} className="px-4 py-3">
+                          <dl className="grid grid-cols-1 sm:grid-cols-2 gap-x-6 gap-y-2">
+                            {Object.entries(submission.values).map(([propertyId, value]) => (
+                              <div key={propertyId}>
+                                <dt className="text-xs text-gray-500 dark:text-gray-400">{labelFor(propertyId)}</dt>
+                                <dd className="text-gray-900 dark:text-gray-100 break-words">{formatValue(value)}</dd>
+                              </div>
+                            ))}
+                          </dl>
+                        </td>
+                      </tr>
+                    )}
+                  </React.Fragment>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {!loading && !error && submissions.length > 0 && (
+        <div className="text-sm text-gray-500 dark:text-gray-400 text-center">
+          {submissions.length} submission{submissions.length !== 1 ? 's' : ''}
+        </div>
+      )}
+    </div>
+  );
+}
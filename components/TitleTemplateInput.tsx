@@ -0,0 +1,126 @@
+'use client';
+
+import { useState, useRef } from 'react';
+import { getUnknownReferences, TemplateField } from '@/lib/title-template';
+
+interface TitleTemplateInputProps {
+  value: string;
+  onChange: (value: string) => void;
+  fields: TemplateField[];
+}
+
+const MAX_SUGGESTIONS = 8;
+
+// Open "{{" placeholder right before the cursor, if any
+function findOpenPlaceholder(text: string, cursor: number): { start: number; query: string } | null {
+  const before = text.slice(0, cursor);
+  const start = before.lastIndexOf('{{');
+  if (start < 0) return null;
+
+  const query = before.slice(start + 2);
+  if (query.includes('}') || query.includes('{')) return null;
+  return { start, query: query.trimStart() };
+}
+
+// Template editor for layout.titleTemplate with property autocomplete after "{{"
+export default function TitleTemplateInput({ value, onChange, fields }: TitleTemplateInputProps) {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [cursor, setCursor] = useState<number | null>(null);
+  const [highlighted, setHighlighted] = useState(0);
+
+  const placeholder = cursor !== null ? findOpenPlaceholder(value, cursor) : null;
+  const suggestions = placeholder
+    ? fields
+        .filter(f => f.label.toLowerCase().includes(placeholder.query.toLowerCase()))
+        .slice(0, MAX_SUGGESTIONS)
+    : [];
+  const unknown = value.trim() ? getUnknownReferences(value, fields) : [];
+
+  const insertField = (field: TemplateField) => {
+    if (!placeholder || cursor === null) return;
+
+    // Replace the partial placeholder, including a closing "}}" typed ahead
+    const after = value.slice(cursor).replace(/^[^{}]*\}\}/, '');
+    const inserted = `{{${field.label}}}`;
+    const next = value.slice(0, placeholder.start) + inserted + after;
+    const nextCursor = placeholder.start + inserted.length;
+
+    onChange(next);
+    setCursor(null);
+    setHighlighted(0);
+
+    requestAnimationFrame(() => {
+      inputRef.current?.focus();
+      inputRef.current?.setSelectionRange(nextCursor, nextCursor);
+    });
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (suggestions.length === 0) return;
+
+    if (e.key === 'ArrowDown') {
+      e.preventDefault();
+      setHighlighted(i => (i + 1) % suggestions.length);
+    } else if (e.key === 'ArrowUp') {
+      e.preventDefault();
+      setHighlighted(i => (i - 1 + suggestions.length) % suggestions.length);
+    } else if (e.key === 'Enter' || e.key === 'Tab') {
+      e.preventDefault();
+      insertField(suggestions[Math.min(highlighted, suggestions.length - 1)]);
+    } else if (e.key === 'Escape') {
+      setCursor(null);
+    }
+  };
+
+  return (
+    <div className="relative">
+      <input
+        ref={inputRef}
+        type="text"
+        value={value}
+        onChange={(e) => {
+          onChange(e.target.value);
+          setCursor(e.target.selectionStart);
+          setHighlighted(0);
+        }}
+        onKeyDown={handleKeyDown}
+        onClick={(e) => setCursor(e.currentTarget.selectionStart)}
+        onBlur={() => setCursor(null)}
+        placeholder="e.g. {{Name}} – {{Status}}"
+        className={`w-full px-3 py-2 text-sm font-mono border rounded-md focus:ring-2 bg-white dark:bg-gray-700 dark:text-gray-100 ${
+          unknown.length > 0 ? 'border-yellow-500 focus:ring-yellow-500' : 'border-gray-300 dark:border-gray-600 focus:ring-blue-500'
+        }`}
+      />
+
+      {suggestions.length > 0 && (
+        <ul className="absolute z-10 mt-1 w-full max-h-48 overflow-y-auto bg-white dark:bg-gray-800 border dark:border-gray-600 rounded-md shadow-lg">
+          {suggestions.map((field, index) => (
+            <li key={field.notionPropertyId}>
+              <button
+                type="button"
+                // Keep focus in the input so the cursor position survives
+                onMouseDown={(e) => e.preventDefault()}
+                onClick={() => insertField(field)}
+                className={`w-full px-3 py-1.5 text-left text-sm dark:text-gray-200 ${
+                  index === highlighted ? 'bg-blue-50 dark:bg-blue-900/30' : 'hover:bg-gray-50 dark:hover:bg-gray-700'
+                }`}
+              >
+                {field.label}
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {unknown.length > 0 ? (
+        <p className="text-xs text-yellow-600 dark:text-yellow-400 mt-1">
+          Unknown field{unknown.length === 1 ? '' : 's'}: {unknown.join(', ')}
+        </p>
+      ) : (
+        <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+          Type {'{{'} to insert a field. Used for edit headers and list row labels.
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1 @@
+ALTER TABLE "form_configs" ADD COLUMN "access" text;
\ No newline at end of file
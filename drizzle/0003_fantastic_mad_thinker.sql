@@ -0,0 +1,16 @@
+ALTER TABLE "form_submissions" DROP CONSTRAINT "form_submissions_user_id_users_id_fk";
+--> statement-breakpoint
+ALTER TABLE "form_submissions" ALTER COLUMN "user_id" DROP NOT NULL;--> statement-breakpoint
+ALTER TABLE "form_submissions" ADD COLUMN "form_user_id" uuid;--> statement-breakpoint
+ALTER TABLE "form_submissions" ADD COLUMN "values" text;--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "form_submissions" ADD CONSTRAINT "form_submissions_form_user_id_form_users_id_fk" FOREIGN KEY ("form_user_id") REFERENCES "public"."form_users"("id") ON DELETE set null ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "form_submissions" ADD CONSTRAINT "form_submissions_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE set null ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
@@ -0,0 +1,28 @@
+CREATE TABLE IF NOT EXISTS "mirrored_databases" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"database_id" text NOT NULL,
+	"last_edited_cursor" timestamp,
+	"last_synced_at" timestamp,
+	"last_full_sync_at" timestamp,
+	"sync_error" text,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "mirrored_databases_database_id_unique" UNIQUE("database_id")
+);
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "mirrored_pages" (
+	"page_id" text PRIMARY KEY NOT NULL,
+	"database_id" text NOT NULL,
+	"data" text NOT NULL,
+	"created_time" timestamp NOT NULL,
+	"last_edited_time" timestamp NOT NULL,
+	"synced_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "mirrored_pages" ADD CONSTRAINT "mirrored_pages_database_id_mirrored_databases_database_id_fk" FOREIGN KEY ("database_id") REFERENCES "public"."mirrored_databases"("database_id") ON DELETE cascade ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "mirrored_pages_database_id_idx" ON "mirrored_pages" USING btree ("database_id");
\ No newline at end of file
@@ -0,0 +1,5 @@
+CREATE TABLE IF NOT EXISTS "webhook_verifications" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"token" text NOT NULL,
+	"received_at" timestamp DEFAULT now() NOT NULL
+);
@@ -0,0 +1,5 @@
+ALTER TABLE "mirrored_pages" ADD COLUMN "filter_values" jsonb DEFAULT '{}'::jsonb NOT NULL;--> statement-breakpoint
+ALTER TABLE "mirrored_pages" ADD COLUMN "sort_values" jsonb DEFAULT '{}'::jsonb NOT NULL;--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "mirrored_pages_filter_values_idx" ON "mirrored_pages" USING gin ("filter_values");--> statement-breakpoint
+-- Rows stored before these columns existed have no values yet; a full sync fills them in
+UPDATE "mirrored_databases" SET "last_full_sync_at" = NULL;
\ No newline at end of file
@@ -0,0 +1,91 @@
+// Date helpers for the calendar view. Days are YYYY-MM-DD keys and arithmetic
+// is done in UTC, so daylight saving changes never shift a day.
+
+export type CalendarMode = 'month' | 'week';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function parseDay(day: string): Date {
+  return new Date(`${day}T00:00:00Z`);
+}
+
+function formatDay(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+// Today in the viewer's time zone
+export function getToday(): string {
+  const now = new Date();
+  return formatDay(new Date(Date.UTC(now.getFullYear(), now.getMonth(), now.getDate())));
+}
+
+export function addDays(day: string, days: number): string {
+  return formatDay(new Date(parseDay(day).getTime() + days * DAY_MS));
+}
+
+export function daysBetween(from: string, to: string): number {
+  return Math.round((parseDay(to).getTime() - parseDay(from).getTime()) / DAY_MS);
+}
+
+// The day a Notion date or date-time falls on, as written in Notion
+export function getDay(value: string): string {
+  return value.slice(0, 10);
+}
+
+// Move a date or date-time by whole days, keeping any time and offset
+export function shiftDateValue(value: string, days: number): string {
+  return addDays(getDay(value), days) + value.slice(10);
+}
+
+// Sunday on or before the day, matching Notion's calendar
+function startOfWeek(day: string): string {
+  return addDays(day, -parseDay(day).getUTCDay());
+}
+
+// Days shown for a period: whole weeks covering the anchor's month, or the anchor's week
+export function getCalendarDays(mode: CalendarMode, anchor: string): string[] {
+  let first: string;
+  let count: number;
+
+  if (mode === 'week') {
+    first = startOfWeek(anchor);
+    count = 7;
+  } else {
+    const monthStart = `${anchor.slice(0, 7)}-01`;
+    const date = parseDay(monthStart);
+    const monthEnd = formatDay(new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + 1, 0)));
+    first = startOfWeek(monthStart);
+    count = daysBetween(first, addDays(startOfWeek(monthEnd), 7));
+  }
+
+  return Array.from({ length: count }, (_, i) => addDays(first, i));
+}
+
+// Anchor day of the previous or next period
+export function shiftCalendarPeriod(mode: CalendarMode, anchor: string, direction: 1 | -1): string {
+  if (mode === 'week') {
+    return addDays(anchor, 7 * direction);
+  }
+  const date = parseDay(anchor);
+  return formatDay(new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + direction, 1)));
+}
+
+// Heading for a period, e.g. "October 2026" or "Oct 18 – 24, 2026"
+export function formatCalendarPeriod(mode: CalendarMode, anchor: string): string {
+  if (mode === 'month') {
+    return parseDay(anchor).toLocaleDateString(undefined, { month: 'long', year: 'numeric', timeZone: 'UTC' });
+  }
+
+  const days = getCalendarDays('week', anchor);
+  const start = parseDay(days[0]);
+  const end = parseDay(days[6]);
+  const startText = start.toLocaleDateString(undefined, { month: 'short', day: 'numeric', timeZone: 'UTC' });
+  const endText = start.getUTCMonth() === end.getUTCMonth()
+    ? `${end.getUTCDate()}, ${end.getUTCFullYear()}`
+    : end.toLocaleDateString(undefined, { month: 'short', day: 'numeric', year: 'numeric', timeZone: 'UTC' });
+  return `${startText} – ${endText}`;
+}
+
+export function formatWeekday(day: string): string {
+  return parseDay(day).toLocaleDateString(undefined, { weekday: 'short', timeZone: 'UTC' });
+}
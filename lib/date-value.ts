@@ -0,0 +1,130 @@
+import { DateRangeValue } from '@/types/form';
+
+// Date property values. A plain date is kept as a YYYY-MM-DD string, as date
+// inputs produce. Values with an end or a time zone are DateRangeValue objects;
+// their times are wall-clock times (YYYY-MM-DDTHH:mm) in that zone. Date-times
+// without a zone are ISO timestamps with an offset.
+
+// Normalize a date value (string or object) to its parts
+export function toDateRange(value: any): DateRangeValue | null {
+  if (typeof value === 'string') {
+    return value ? { start: value, end: null, timeZone: null } : null;
+  }
+  if (value && typeof value === 'object' && typeof value.start === 'string' && value.start) {
+    return { start: value.start, end: value.end || null, timeZone: value.timeZone || null };
+  }
+  return null;
+}
+
+// Store parts in the simplest form: a string unless there's an end or a zone
+export function fromDateRange(range: DateRangeValue): string | DateRangeValue {
+  if (!range.end && !range.timeZone) return range.start;
+  return { start: range.start, end: range.end || null, timeZone: range.timeZone || null };
+}
+
+// The start date or date-time of a value, e.g. for comparisons
+export function getDateStart(value: any): string | null {
+  return toDateRange(value)?.start || null;
+}
+
+export function hasTime(part: string): boolean {
+  return part.length > 10;
+}
+
+// Notion returns zoned times with the zone's offset; keep the wall-clock time
+function toWallTime(part: string): string {
+  return hasTime(part) ? part.slice(0, 16) : part;
+}
+
+// Value for a Notion date property object
+export function fromNotionDate(date: any): string | DateRangeValue | null {
+  if (!date?.start) return null;
+
+  const timeZone: string | null = date.time_zone || null;
+  return fromDateRange({
+    start: timeZone ? toWallTime(date.start) : date.start,
+    end: date.end ? (timeZone ? toWallTime(date.end) : date.end) : null,
+    timeZone,
+  });
+}
+
+// Notion date property object for a value. A zone is only sent with times,
+// as Notion rejects it on plain dates.
+export function toNotionDate(value: any): { start: string; end: string | null; time_zone: string | null } | undefined {
+  const range = toDateRange(value);
+  if (!range) return undefined;
+
+  return {
+    start: range.start,
+    end: range.end || null,
+    time_zone: range.timeZone && hasTime(range.start) ? range.timeZone : null,
+  };
+}
+
+// The viewer's time zone
+export function getLocalTimeZone(): string {
+  return Intl.DateTimeFormat().resolvedOptions().timeZone;
+}
+
+// Time zones offered for date fields
+export function getTimeZones(): string[] {
+  try {
+    return Intl.supportedValuesOf('timeZone');
+  } catch {
+    return ['UTC'];
+  }
+}
+
+// Wall-clock time (YYYY-MM-DDTHH:mm) of a date part in a time zone, for
+// datetime inputs. Parts that are already wall-clock times are kept.
+export function toZonedWallTime(part: string, timeZone: string): string {
+  if (!hasTime(part)) return `${part}T00:00`;
+  if (!/(Z|[+-]\d{2}:\d{2})$/.test(part)) return part.slice(0, 16);
+
+  const date = new Date(part);
+  if (isNaN(date.getTime())) return part.slice(0, 16);
+
+  const parts: Record<string, string> = {};
+  new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    hourCycle: 'h23',
+  }).formatToParts(date).forEach(p => {
+    parts[p.type] = p.value;
+  });
+  return `${parts.year}-${parts.month}-${parts.day}T${parts.hour}:${parts.minute}`;
+}
+
+function formatPart(part: string, timeZone: string | null): string {
+  if (!hasTime(part)) {
+    // Dates are calendar days, so format them without shifting to the viewer's zone
+    const date = new Date(`${part}T00:00:00Z`);
+    return isNaN(date.getTime()) ? part : date.toLocaleDateString(undefined, { timeZone: 'UTC' });
+  }
+
+  if (timeZone) {
+    const date = new Date(`${part.slice(0, 16)}:00Z`);
+    return isNaN(date.getTime())
+      ? part
+      : date.toLocaleString(undefined, { dateStyle: 'medium', timeStyle: 'short', timeZone: 'UTC' });
+  }
+
+  const date = new Date(part);
+  return isNaN(date.getTime()) ? part : date.toLocaleString(undefined, { dateStyle: 'medium', timeStyle: 'short' });
+}
+
+// Display text for a date value, e.g. "Oct 19, 2026, 9:00 AM → Oct 20, 2026, 5:00 PM (Europe/Paris)"
+export function formatDateValue(value: any): string {
+  const range = toDateRange(value);
+  if (!range) return '';
+
+  const timeZone = range.timeZone || null;
+  const text = range.end
+    ? `${formatPart(range.start, timeZone)} → ${formatPart(range.end, timeZone)}`
+    : formatPart(range.start, timeZone);
+  return timeZone && hasTime(range.start) ? `${text} (${timeZone})` : text;
+}
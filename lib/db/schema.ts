@@ -1,4 +1,4 @@
-import { pgTable, text, timestamp, uuid, boolean } from 'drizzle-orm/pg-core';
+import { pgTable, text, timestamp, uuid, boolean, index, jsonb } from 'drizzle-orm/pg-core';
 
 // Users table
 export const users = pgTable('users', {
@@ -39,6 +39,7 @@ export const formConfigs = pgTable('form_configs', {
   viewId: text('view_id'),
   mode: text('mode').notNull(), // 'create' | 'edit' | 'view'
   config: text('config').notNull(), // JSON string
+  access: text('access'), // JSON string (FormAccess), null = anyone in workspace
   createdAt: timestamp('created_at').defaultNow().notNull(),
   updatedAt: timestamp('updated_at').defaultNow().notNull(),
 });
@@ -50,10 +51,12 @@ export const formSubmissions = pgTable('form_submissions', {
     .notNull()
     .references(() => formConfigs.id, { onDelete: 'cascade' }),
   userId: uuid('user_id')
-    .notNull()
-    .references(() => users.id),
+    .references(() => users.id, { onDelete: 'set null' }), // Admin user, if submitted by one
+  formUserId: uuid('form_user_id')
+    .references(() => formUsers.id, { onDelete: 'set null' }), // Form user, if submitted by one
   notionPageId: text('notion_page_id').notNull(),
-  mode: text('mode').notNull(),
+  mode: text('mode').notNull(), // 'create' | 'edit' | 'archive'
+  values: text('values'), // JSON snapshot of submitted values, keyed by property ID
   createdAt: timestamp('created_at').defaultNow().notNull(),
 });
 
@@ -80,6 +83,43 @@ export const magicLinkTokens = pgTable('magic_link_tokens', {
   createdAt: timestamp('created_at').defaultNow().notNull(),
 });
 
+// Notion databases mirrored into Postgres for fast list queries
+export const mirroredDatabases = pgTable('mirrored_databases', {
+  id: uuid('id').defaultRandom().primaryKey(),
+  databaseId: text('database_id').notNull().unique(), // Notion ID without dashes, lowercase
+  lastEditedCursor: timestamp('last_edited_cursor'), // Newest last_edited_time synced so far
+  lastSyncedAt: timestamp('last_synced_at'),
+  lastFullSyncAt: timestamp('last_full_sync_at'),
+  syncError: text('sync_error'), // Error from the last sync, if it failed
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+  updatedAt: timestamp('updated_at').defaultNow().notNull(),
+});
+
+// Pages of mirrored databases, as returned by the Notion API
+export const mirroredPages = pgTable('mirrored_pages', {
+  pageId: text('page_id').primaryKey(), // Notion ID without dashes, lowercase
+  databaseId: text('database_id')
+    .notNull()
+    .references(() => mirroredDatabases.databaseId, { onDelete: 'cascade' }),
+  data: text('data').notNull(), // JSON string (Notion page object)
+  filterValues: jsonb('filter_values').notNull().default({}), // Property ID -> value list queries filter on
+  sortValues: jsonb('sort_values').notNull().default({}), // Property ID -> value list queries sort by
+  createdTime: timestamp('created_time').notNull(),
+  lastEditedTime: timestamp('last_edited_time').notNull(),
+  syncedAt: timestamp('synced_at').defaultNow().notNull(),
+}, (table) => ({
+  databaseIdIdx: index('mirrored_pages_database_id_idx').on(table.databaseId),
+  filterValuesIdx: index('mirrored_pages_filter_values_idx').using('gin', table.filterValues),
+}));
+
+// Verification tokens Notion sends when a webhook subscription is created, shown
+// to admins until one is set as NOTION_WEBHOOK_SECRET
+export const webhookVerifications = pgTable('webhook_verifications', {
+  id: uuid('id').defaultRandom().primaryKey(),
+  token: text('token').notNull(),
+  receivedAt: timestamp('received_at').defaultNow().notNull(),
+});
+
 export type User = typeof users.$inferSelect;
 export type NewUser = typeof users.$inferInsert;
 export type OAuthToken = typeof oauthTokens.$inferSelect;
@@ -92,3 +132,5 @@ export type FormUser = typeof formUsers.$inferSelect;
 export type NewFormUser = typeof formUsers.$inferInsert;
 export type MagicLinkToken = typeof magicLinkTokens.$inferSelect;
 export type NewMagicLinkToken = typeof magicLinkTokens.$inferInsert;
+export type MirroredDatabase = typeof mirroredDatabases.$inferSelect;
+export type MirroredPage = typeof mirroredPages.$inferSelect;
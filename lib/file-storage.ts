@@ -0,0 +1,172 @@
+import { createHmac, randomUUID, timingSafeEqual } from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { FileValue } from '@/types/form';
+import { waitForNotionTurn } from './notion';
+
+const NOTION_API_URL = 'https://api.notion.com/v1';
+const NOTION_VERSION = '2022-06-28';
+
+export const UPLOAD_ID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+export interface UploadedFile {
+  name: string;
+  contentType: string;
+  data: Buffer;
+}
+
+// Where uploaded files are stored before being attached to a files property
+export interface FileStorageAdapter {
+  upload(file: UploadedFile): Promise<FileValue>;
+}
+
+// Uploads through Notion's file upload API. The returned upload ID is attached
+// to the page when the form is submitted.
+export class NotionFileStorage implements FileStorageAdapter {
+  constructor(private apiKey: string) {}
+
+  private async request(pathname: string, init: RequestInit): Promise<any> {
+    await waitForNotionTurn();
+    const response = await fetch(`${NOTION_API_URL}${pathname}`, {
+      ...init,
+      headers: {
+        Authorization: `Bearer ${this.apiKey}`,
+        'Notion-Version': NOTION_VERSION,
+        ...init.headers,
+      },
+    });
+
+    const data = await response.json();
+    if (!response.ok) {
+      console.error('Notion file upload error:', JSON.stringify(data));
+      throw new Error(data.message || 'Failed to upload file to Notion');
+    }
+    return data;
+  }
+
+  async upload(file: UploadedFile): Promise<FileValue> {
+    const fileUpload = await this.request('/file_uploads', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        mode: 'single_part',
+        filename: file.name,
+        content_type: file.contentType,
+      }),
+    });
+
+    const form = new FormData();
+    form.append('file', new Blob([new Uint8Array(file.data)], { type: file.contentType }), file.name);
+
+    await this.request(`/file_uploads/${fileUpload.id}/send`, {
+      method: 'POST',
+      body: form,
+    });
+
+    return { name: file.name, type: 'file_upload', fileUploadId: fileUpload.id };
+  }
+}
+
+// Development/test stand-in: stores files on the local filesystem and serves
+// them from /api/uploads/[id], attached to Notion as external files.
+export class LocalFileStorage implements FileStorageAdapter {
+  constructor(private directory: string, private baseUrl: string) {}
+
+  private filePath(id: string): string {
+    return path.join(this.directory, id);
+  }
+
+  async upload(file: UploadedFile): Promise<FileValue> {
+    const id = randomUUID();
+    await fs.mkdir(this.directory, { recursive: true });
+    await fs.writeFile(this.filePath(id), file.data);
+    await fs.writeFile(
+      `${this.filePath(id)}.json`,
+      JSON.stringify({ name: file.name, contentType: file.contentType })
+    );
+
+    return {
+      name: file.name,
+      type: 'external',
+      url: `${this.baseUrl}/api/uploads/${id}`,
+    };
+  }
+
+  // Read a stored file back; null if it does not exist
+  async read(id: string): Promise<UploadedFile | null> {
+    if (!UPLOAD_ID_PATTERN.test(id)) {
+      return null;
+    }
+
+    try {
+      const meta = JSON.parse(await fs.readFile(`${this.filePath(id)}.json`, 'utf-8'));
+      const data = await fs.readFile(this.filePath(id));
+      return { name: meta.name, contentType: meta.contentType, data };
+    } catch {
+      return null;
+    }
+  }
+}
+
+export function isLocalFileStorage(): boolean {
+  return process.env.FILE_STORAGE === 'local';
+}
+
+export function getLocalFileStorage(): LocalFileStorage {
+  return new LocalFileStorage(
+    process.env.UPLOAD_DIR || path.join(process.cwd(), '.uploads'),
+    process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000'
+  );
+}
+
+// Pick the storage adapter from FILE_STORAGE ("notion" by default, or "local")
+export function getFileStorage(): FileStorageAdapter {
+  if (isLocalFileStorage()) {
+    return getLocalFileStorage();
+  }
+
+  const apiKey = process.env.NOTION_API_KEY;
+  if (!apiKey) {
+    throw new Error('NOTION_API_KEY is not configured');
+  }
+  return new NotionFileStorage(apiKey);
+}
+
+function uploadSignature(file: FileValue, formId: string, propertyId: string): string {
+  const secret = process.env.SESSION_SECRET || 'dev-secret';
+  return createHmac('sha256', secret)
+    .update(JSON.stringify([formId, propertyId, file.type, file.fileUploadId ?? file.url, file.name]))
+    .digest('hex');
+}
+
+// Uploads are signed for the form field they were uploaded to (formId is empty
+// for admin uploads), so submissions can only attach files that passed the
+// field's type and size checks
+export function signUpload(file: FileValue, formId: string, propertyId: string): FileValue {
+  return { ...file, signature: uploadSignature(file, formId, propertyId) };
+}
+
+export function isSignedUpload(file: FileValue, formId: string, propertyId: string): boolean {
+  if (typeof file?.signature !== 'string') return false;
+  const expected = uploadSignature(file, formId, propertyId);
+  return expected.length === file.signature.length &&
+    timingSafeEqual(Buffer.from(expected), Buffer.from(file.signature));
+}
+
+// Convert a files form value to Notion's files property format
+export function toNotionFiles(value: any): any[] {
+  const files: FileValue[] = Array.isArray(value) ? value : [];
+
+  return files
+    .filter(f => f && f.name)
+    .map(f => {
+      switch (f.type) {
+        case 'file_upload':
+          return { name: f.name, type: 'file_upload', file_upload: { id: f.fileUploadId } };
+        case 'file':
+          return { name: f.name, type: 'file', file: { url: f.url } };
+        default:
+          return { name: f.name, type: 'external', external: { url: f.url } };
+      }
+    });
+}
@@ -0,0 +1,116 @@
+import { FormAccess, OwnerScope } from '@/types/form';
+import { User } from './db/schema';
+import { getFormById, LoadedForm } from './form-config';
+
+// The parts of a form user the access list is matched against
+export interface FormUserIdentity {
+  email: string;
+  notionUserId?: string | null;
+}
+
+// Result of checking a request against a form's access list
+export type FormAccessCheck =
+  | { allowed: true; form: LoadedForm | null }
+  | { allowed: false; status: number; error: string };
+
+// Check whether a form user matches a form's access list
+export function isFormUserAllowed(
+  access: FormAccess,
+  formUser: FormUserIdentity
+): boolean {
+  if (access.mode === 'workspace') {
+    return true;
+  }
+
+  const email = formUser.email.toLowerCase();
+
+  if (access.allowedEmails.some(e => e.trim().toLowerCase() === email)) {
+    return true;
+  }
+
+  const domain = email.split('@')[1];
+  if (domain && access.allowedDomains.some(d => d.trim().toLowerCase().replace(/^@/, '') === domain)) {
+    return true;
+  }
+
+  if (formUser.notionUserId && access.allowedNotionUserIds.includes(formUser.notionUserId)) {
+    return true;
+  }
+
+  return false;
+}
+
+// Resolve the form a request acts on and check the caller may use it.
+// Form users must always name a form they have access to; admins may omit the
+// form ID (e.g. builder preview), in which case no form is returned.
+export async function checkFormAccess(
+  formId: string | null | undefined,
+  adminUser: User | null,
+  formUser: FormUserIdentity | null
+): Promise<FormAccessCheck> {
+  if (!formId) {
+    if (adminUser) {
+      return { allowed: true, form: null };
+    }
+    return { allowed: false, status: 400, error: 'formId is required' };
+  }
+
+  const form = await getFormById(formId);
+
+  if (!form) {
+    return { allowed: false, status: 404, error: 'Form not found' };
+  }
+
+  if (adminUser) {
+    return { allowed: true, form };
+  }
+
+  if (!formUser) {
+    return { allowed: false, status: 401, error: 'Unauthorized' };
+  }
+
+  if (!isFormUserAllowed(form.access, formUser)) {
+    return { allowed: false, status: 403, error: 'You do not have access to this form' };
+  }
+
+  return { allowed: true, form };
+}
+
+// Build a Notion filter matching rows owned by the form user.
+// Returns null when the user cannot be matched (e.g. no linked Notion user),
+// in which case they own no rows.
+export function buildOwnerFilter(scope: OwnerScope, formUser: FormUserIdentity): any {
+  switch (scope.propertyType) {
+    case 'people':
+      if (!formUser.notionUserId) return null;
+      return { property: scope.propertyId, people: { contains: formUser.notionUserId } };
+    case 'created_by':
+      if (!formUser.notionUserId) return null;
+      return { property: scope.propertyId, created_by: { contains: formUser.notionUserId } };
+    case 'email':
+      return { property: scope.propertyId, email: { equals: formUser.email } };
+    default:
+      return null;
+  }
+}
+
+// Check a retrieved Notion page against the owner scope
+export function isRecordOwner(page: any, scope: OwnerScope, formUser: FormUserIdentity): boolean {
+  const prop: any = Object.values(page?.properties || {}).find(
+    (p: any) => p.id === scope.propertyId
+  );
+
+  if (!prop) return false;
+
+  switch (scope.propertyType) {
+    case 'people':
+      return !!formUser.notionUserId &&
+        (prop.people || []).some((p: any) => p.id === formUser.notionUserId);
+    case 'created_by':
+      return !!formUser.notionUserId && prop.created_by?.id === formUser.notionUserId;
+    case 'email':
+      return !!prop.email && prop.email.toLowerCase() === formUser.email.toLowerCase();
+    default:
+      return false;
+  }
+}
@@ -1,5 +1,5 @@
 import { cookies } from 'next/headers';
-import { Client } from '@notionhq/client';
+import { getNotionClient, getWorkspaceUsers } from './notion';
 import { db } from './db/client-postgres';
 import { formUsers, magicLinkTokens } from './db/schema';
 import { eq, and, gt } from 'drizzle-orm';
@@ -53,27 +53,24 @@ export async function verifyWorkspaceMember(email: string): Promise<{
   name?: string;
   avatarUrl?: string;
 }> {
-  const notionApiKey = process.env.NOTION_API_KEY;
-  if (!notionApiKey) {
+  const notion = getNotionClient();
+  if (!notion) {
     throw new Error('NOTION_API_KEY not configured');
   }
 
-  const notion = new Client({ auth: notionApiKey });
-
   try {
-    // Get all users in the workspace
-    const response = await notion.users.list({});
-
-    // Find user by email
-    for (const user of response.results) {
-      if (user.type === 'person' && user.person?.email === email) {
-        return {
-          isValid: true,
-          notionUserId: user.id,
-          name: user.name || undefined,
-          avatarUrl: user.avatar_url || undefined,
-        };
-      }
+    // Find the user by email. People added since the user list was cached
+    // aren't in it yet, so look again in a fresh list before giving up.
+    const user = (await getWorkspaceUsers(notion)).find(u => u.email === email) ||
+      (await getWorkspaceUsers(notion, { fresh: true })).find(u => u.email === email);
+
+    if (user) {
+      return {
+        isValid: true,
+        notionUserId: user.id,
+        name: user.name || undefined,
+        avatarUrl: user.avatarUrl || undefined,
+      };
     }
 
     return { isValid: false };
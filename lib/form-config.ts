@@ -0,0 +1,196 @@
+import { db } from './db/client-postgres';
+import { formConfigs } from './db/schema';
+import { eq } from 'drizzle-orm';
+import { FieldConfig, FileValue, FormConfigData, FormAccess, FormAccessSchema } from '@/types/form';
+import { isSignedUpload } from './file-storage';
+import { fromNotionProperty } from './property-codec';
+import { FieldErrors, getWritableFields, validateFieldValue, isEmptyValue, isFieldRequired, getHiddenFieldIds, getVisibleData } from './form-validation';
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+export interface LoadedForm {
+  id: string;
+  userId: string;
+  name: string;
+  databaseId: string;
+  config: FormConfigData;
+  access: FormAccess;
+}
+
+// A single property value submitted from a form
+export interface FieldSubmission {
+  propertyId: string;
+  propertyType: string;
+  value: any;
+}
+
+// Notion IDs may come with or without dashes
+export function normalizeNotionId(id: string): string {
+  return id.replace(/-/g, '').toLowerCase();
+}
+
+// Parse the stored access JSON; forms without one are open to the whole workspace
+export function parseFormAccess(raw: string | null): FormAccess {
+  if (!raw) {
+    return FormAccessSchema.parse({});
+  }
+
+  try {
+    return FormAccessSchema.parse(JSON.parse(raw));
+  } catch {
+    // Fail closed if the stored value is corrupt
+    return FormAccessSchema.parse({ mode: 'restricted' });
+  }
+}
+
+// Load a form and its parsed config by ID
+export async function getFormById(formId: string): Promise<LoadedForm | null> {
+  if (!UUID_PATTERN.test(formId)) {
+    return null;
+  }
+
+  const form = await db.query.formConfigs.findFirst({
+    where: eq(formConfigs.id, formId),
+  });
+
+  if (!form) {
+    return null;
+  }
+
+  return {
+    id: form.id,
+    userId: form.userId,
+    name: form.name,
+    databaseId: form.databaseId,
+    config: JSON.parse(form.config) as FormConfigData,
+    access: parseFormAccess(form.access),
+  };
+}
+
+// Check that a retrieved Notion page lives in the form's database
+export function pageBelongsToForm(page: any, form: LoadedForm): boolean {
+  const parentId = page?.parent?.database_id;
+  return !!parentId && normalizeNotionId(parentId) === normalizeNotionId(form.databaseId);
+}
+
+// A page's property values by property ID, as list and edit views read them.
+// With `visibleOnly`, only the form's visible fields are included, so form
+// users never receive values the form doesn't show them.
+export function getPageProperties(
+  page: any,
+  form: LoadedForm | null,
+  visibleOnly: boolean
+): Record<string, { type: string; value: any }> {
+  const visibleIds = form && visibleOnly
+    ? new Set(form.config.fields.filter(f => f.visible !== false).map(f => f.notionPropertyId))
+    : null;
+
+  const properties: Record<string, { type: string; value: any }> = {};
+  Object.values(page.properties || {}).forEach((prop: any) => {
+    if (visibleIds && !visibleIds.has(prop.id)) return;
+    properties[prop.id] = {
+      type: prop.type,
+      value: fromNotionProperty(prop),
+    };
+  });
+  return properties;
+}
+
+// Files property values are only accepted when each file was uploaded through
+// this form field, or is already attached to the record. Files hosted by Notion
+// are matched without their signed URL's query, which changes on every read.
+function checkSubmittedFiles(formId: string, field: FieldConfig, value: any, current: any): string | null {
+  if (!Array.isArray(value)) return null;
+
+  const existing: FileValue[] = Array.isArray(current) ? current : [];
+  const fileKey = (file: FileValue) => `${file.type}:${file.name}:${(file.url || file.fileUploadId || '').split('?')[0]}`;
+
+  for (const file of value) {
+    if (!file || typeof file !== 'object') {
+      return `${field.label} has an invalid file`;
+    }
+    if (!isSignedUpload(file, formId, field.notionPropertyId) && !existing.some(e => fileKey(e) === fileKey(file))) {
+      return `${file.name || 'A file'} was not uploaded through this form`;
+    }
+  }
+
+  return null;
+}
+
+// Check submitted fields against the form config. Every submitted property must be
+// a writable field of the form and pass its required/validation rules, and
+// required fields that are left out must already have a value.
+// Conditional visibility/requiredness rules are evaluated against the record as
+// it will be: `current` (the record's values as the form edits them, on edit)
+// with the submitted values on top.
+// Returned fields take their property type from the config, not from the client.
+export function checkFieldSubmissions(
+  form: LoadedForm,
+  submissions: FieldSubmission[],
+  current: Record<string, any> = {}
+): { fields: FieldSubmission[]; fieldErrors: FieldErrors } {
+  const { config } = form;
+  const writableFields = getWritableFields(config.fields);
+  const fieldMap = new Map(writableFields.map(f => [f.notionPropertyId, f]));
+  const fieldErrors: FieldErrors = {};
+  const fields: FieldSubmission[] = [];
+
+  const data: Record<string, any> = { ...current };
+  const submitted = new Set<string>();
+  submissions.forEach(s => {
+    data[s.propertyId] = s.value;
+    submitted.add(s.propertyId);
+  });
+
+  // Hidden fields' values don't count towards rules, as in FormRenderer
+  const hiddenIds = getHiddenFieldIds(config.fields, data);
+  const visibleData = getVisibleData(config.fields, data);
+
+  const isHidden = (field: FieldConfig) => hiddenIds.has(field.notionPropertyId);
+
+  const isRequired = (field: FieldConfig) => isFieldRequired(field, visibleData);
+
+  for (const submission of submissions) {
+    const field = fieldMap.get(submission.propertyId);
+
+    if (!field) {
+      fieldErrors[submission.propertyId] = 'This property cannot be set through this form';
+      continue;
+    }
+
+    if (isHidden(field)) {
+      // Empty values for hidden fields are dropped; anything else is rejected
+      if (!isEmptyValue(submission.value)) {
+        fieldErrors[field.notionPropertyId] = 'This field is hidden and cannot be set';
+      }
+      continue;
+    }
+
+    const error = validateFieldValue({ ...field, required: isRequired(field) }, submission.value) ||
+      (field.notionPropertyType === 'files'
+        ? checkSubmittedFiles(form.id, field, submission.value, current[field.notionPropertyId])
+        : null);
+    if (error) {
+      fieldErrors[field.notionPropertyId] = error;
+      continue;
+    }
+
+    fields.push({
+      propertyId: field.notionPropertyId,
+      propertyType: field.notionPropertyType,
+      value: submission.value,
+    });
+  }
+
+  // A change to another field can make one that was left out required
+  for (const field of writableFields) {
+    if (!submitted.has(field.notionPropertyId) && !isHidden(field) && isRequired(field)) {
+      const error = validateFieldValue({ ...field, required: true }, data[field.notionPropertyId]);
+      if (error) {
+        fieldErrors[field.notionPropertyId] = error;
+      }
+    }
+  }
+
+  return { fields, fieldErrors };
+}
@@ -0,0 +1,33 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { FieldConfig } from '@/types/form';
+import { validateFieldValue } from './form-validation';
+
+function numberField(validation: FieldConfig['validation']): FieldConfig {
+  return {
+    notionPropertyId: 'n',
+    notionPropertyType: 'number',
+    label: 'Quantity',
+    required: false,
+    editable: true,
+    visible: true,
+    showInList: true,
+    validation,
+  };
+}
+
+describe('validateFieldValue', () => {
+  describe('number limits', () => {
+    it('checks 0 like any other number', () => {
+      assert.equal(validateFieldValue(numberField({ min: 1 }), 0), 'Minimum value is 1');
+      assert.equal(validateFieldValue(numberField({ min: 1 }), '0'), 'Minimum value is 1');
+      assert.equal(validateFieldValue(numberField({ max: -1 }), 0), 'Maximum value is -1');
+      assert.equal(validateFieldValue(numberField({ min: 0, max: 0 }), 0), null);
+    });
+
+    it('leaves empty values to the required check', () => {
+      assert.equal(validateFieldValue(numberField({ min: 1 }), null), null);
+      assert.equal(validateFieldValue(numberField({ min: 1 }), ''), null);
+    });
+  });
+});
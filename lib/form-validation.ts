@@ -0,0 +1,280 @@
+import { FieldConfig, FieldCondition, FieldConflict, FieldRule, FileConfig } from '@/types/form';
+import { getDateStart, toDateRange } from './date-value';
+import { MAX_RICH_TEXT_ITEMS, getPlainText, isRichText, toNotionRichText } from './rich-text';
+
+// Map of property ID -> error message
+export type FieldErrors = Record<string, string>;
+
+// Error carrying per-field messages (e.g. from a server-side validation response)
+export class FieldValidationError extends Error {
+  fieldErrors: FieldErrors;
+
+  constructor(message: string, fieldErrors: FieldErrors) {
+    super(message);
+    this.name = 'FieldValidationError';
+    this.fieldErrors = fieldErrors;
+  }
+}
+
+// Error for an edit that conflicts with changes made since it began. `updates`
+// holds newer values of fields the editor didn't change.
+export class EditConflictError extends Error {
+  conflicts: FieldConflict[];
+  updates: Record<string, any>;
+
+  constructor(message: string, conflicts: FieldConflict[], updates: Record<string, any>) {
+    super(message);
+    this.name = 'EditConflictError';
+    this.conflicts = conflicts;
+    this.updates = updates;
+  }
+}
+
+// Check for empty values - handles the different value shapes we store
+export function isEmptyValue(value: any): boolean {
+  return (
+    value === undefined ||
+    value === null ||
+    value === '' ||
+    (Array.isArray(value) && value.length === 0)
+  );
+}
+
+// A record value as forms edit it: people come back from Notion as users, forms
+// work with their IDs
+export function toFormValue(type: string, value: any): any {
+  return type === 'people' && Array.isArray(value) ? value.map((user: any) => user.id) : value;
+}
+
+// Compare a form value against a condition value. Arrays (multi-select,
+// people, relations) match when any item matches.
+function valueEquals(value: any, expected: any): boolean {
+  if (Array.isArray(value)) {
+    return value.some(v => valueEquals(v, expected));
+  }
+  return String(value) === String(expected ?? '');
+}
+
+function compareValues(value: any, expected: any): number | null {
+  if (isEmptyValue(value) || isEmptyValue(expected)) return null;
+  const a = Number(value);
+  const b = Number(expected);
+  if (!isNaN(a) && !isNaN(b)) return a - b;
+  // Dates (YYYY-MM-DD / ISO) compare correctly as strings
+  return String(value).localeCompare(String(expected));
+}
+
+// Evaluate a single condition against form data
+export function evaluateCondition(condition: FieldCondition, data: Record<string, any>): boolean {
+  const raw = data[condition.propertyId];
+  // Date ranges and date-times with a zone are compared by their start, formatted text by its text
+  const value = isRichText(raw) ? getPlainText(raw)
+    : raw && typeof raw === 'object' && !Array.isArray(raw) && 'start' in raw ? getDateStart(raw)
+    : raw;
+
+  switch (condition.operator) {
+    case 'is_empty':
+      return isEmptyValue(value);
+    case 'is_not_empty':
+      return !isEmptyValue(value);
+    case 'equals':
+      return !isEmptyValue(value) && valueEquals(value, condition.value);
+    case 'does_not_equal':
+      return isEmptyValue(value) || !valueEquals(value, condition.value);
+    case 'contains':
+    case 'does_not_contain': {
+      const needle = String(condition.value ?? '').toLowerCase();
+      const found = Array.isArray(value)
+        ? value.some(v => String(v).toLowerCase() === needle)
+        : !isEmptyValue(value) && String(value).toLowerCase().includes(needle);
+      return condition.operator === 'contains' ? found : !found;
+    }
+    case 'greater_than': {
+      const cmp = compareValues(value, condition.value);
+      return cmp !== null && cmp > 0;
+    }
+    case 'less_than': {
+      const cmp = compareValues(value, condition.value);
+      return cmp !== null && cmp < 0;
+    }
+    default:
+      return false;
+  }
+}
+
+// Evaluate a rule (all/any of its conditions). A rule with no conditions always matches.
+export function evaluateRule(rule: FieldRule, data: Record<string, any>): boolean {
+  if (rule.conditions.length === 0) return true;
+  return rule.match === 'any'
+    ? rule.conditions.some(c => evaluateCondition(c, data))
+    : rule.conditions.every(c => evaluateCondition(c, data));
+}
+
+// Fields a form user may write to: visible in the form and editable
+export function getWritableFields(fields: FieldConfig[]): FieldConfig[] {
+  return fields.filter(f => f.visible !== false && f.editable !== false);
+}
+
+// Whether a field is shown for the current data (static flag and visibleWhen rule)
+export function isFieldVisible(field: FieldConfig, data: Record<string, any>): boolean {
+  if (field.visible === false) return false;
+  return !field.visibleWhen || evaluateRule(field.visibleWhen, data);
+}
+
+// Fields hidden by their visibleWhen rule. A hidden field's value doesn't count
+// towards other rules, so this is repeated until it settles, in case a rule
+// refers to a field that is hidden itself.
+export function getHiddenFieldIds(fields: FieldConfig[], data: Record<string, any>): Set<string> {
+  let hidden = new Set<string>();
+
+  for (let pass = 0; pass <= fields.length; pass++) {
+    const visibleData = omitFields(data, hidden);
+    const next = new Set(
+      fields
+        .filter(f => f.visible !== false && f.visibleWhen && !evaluateRule(f.visibleWhen, visibleData))
+        .map(f => f.notionPropertyId)
+    );
+    const settled = next.size === hidden.size && Array.from(next).every(id => hidden.has(id));
+    hidden = next;
+    if (settled) break;
+  }
+
+  return hidden;
+}
+
+// Form data without the values of fields hidden by a rule: what a form submits,
+// and what visibility and requiredness are evaluated against
+export function getVisibleData(fields: FieldConfig[], data: Record<string, any>): Record<string, any> {
+  return omitFields(data, getHiddenFieldIds(fields, data));
+}
+
+function omitFields(data: Record<string, any>, ids: Set<string>): Record<string, any> {
+  if (ids.size === 0) return data;
+  const result = { ...data };
+  ids.forEach(id => delete result[id]);
+  return result;
+}
+
+// Whether a field is required for the current data (static flag or requiredWhen rule)
+export function isFieldRequired(field: FieldConfig, data: Record<string, any>): boolean {
+  return field.required || (!!field.requiredWhen && evaluateRule(field.requiredWhen, data));
+}
+
+// Notion's limit for single-part file uploads
+export const MAX_UPLOAD_SIZE_MB = 20;
+
+// Check a file against a field's upload limits. Returns an error message or null.
+export function checkFileAllowed(
+  fileConfig: FileConfig | undefined,
+  file: { name: string; type: string; size: number }
+): string | null {
+  const maxSizeMb = Math.min(fileConfig?.maxSizeMb || MAX_UPLOAD_SIZE_MB, MAX_UPLOAD_SIZE_MB);
+  if (file.size > maxSizeMb * 1024 * 1024) {
+    return `${file.name} is larger than ${maxSizeMb} MB`;
+  }
+
+  const allowedTypes = fileConfig?.allowedTypes?.filter(Boolean) || [];
+  if (allowedTypes.length > 0) {
+    const name = file.name.toLowerCase();
+    const type = file.type.toLowerCase();
+    const allowed = allowedTypes.some(t => {
+      const pattern = t.trim().toLowerCase();
+      if (pattern.startsWith('.')) return name.endsWith(pattern);
+      if (pattern.endsWith('/*')) return type.startsWith(pattern.slice(0, -1));
+      return type === pattern;
+    });
+    if (!allowed) {
+      return `${file.name} is not an allowed file type`;
+    }
+  }
+
+  return null;
+}
+
+// Validate a single field value against its required flag and validation rules.
+// Shared between FormRenderer and the pages API routes so both enforce the same rules.
+export function validateFieldValue(field: FieldConfig, value: any): string | null {
+  let error: string | null = null;
+
+  if (field.required && isEmptyValue(value)) {
+    error = `${field.label} is required`;
+  }
+
+  if (
+    field.notionPropertyType === 'files' &&
+    field.fileConfig?.maxFiles &&
+    Array.isArray(value) &&
+    value.length > field.fileConfig.maxFiles
+  ) {
+    error = `At most ${field.fileConfig.maxFiles} file${field.fileConfig.maxFiles === 1 ? '' : 's'} allowed`;
+  }
+
+  // Notion rejects anything but a finite number
+  if (field.notionPropertyType === 'number' && !isEmptyValue(value) && !Number.isFinite(Number(value))) {
+    error = `${field.label} must be a number`;
+  }
+
+  // Date ranges need a start, and can't end before they start
+  if (field.notionPropertyType === 'date' && value && typeof value === 'object') {
+    const range = toDateRange(value);
+    if (!range) {
+      error = `${field.label} needs a start date`;
+    } else if (range.end && range.end.slice(0, 16) < range.start.slice(0, 16)) {
+      error = `${field.label} can't end before it starts`;
+    }
+  }
+
+  // Notion takes at most MAX_RICH_TEXT_ITEMS items, and long text is split into several
+  if (
+    (field.notionPropertyType === 'rich_text' || field.notionPropertyType === 'title') &&
+    value && toNotionRichText(value).length > MAX_RICH_TEXT_ITEMS
+  ) {
+    error = `${field.label} is too long or has too much formatting`;
+  }
+
+  // Type-specific validation. 0 is a value like any other.
+  if (!isEmptyValue(value) && field.validation) {
+    if (field.notionPropertyType === 'number') {
+      const numValue = Number(value);
+      if (field.validation.min !== undefined && numValue < field.validation.min) {
+        error = `Minimum value is ${field.validation.min}`;
+      }
+      if (field.validation.max !== undefined && numValue > field.validation.max) {
+        error = `Maximum value is ${field.validation.max}`;
+      }
+    }
+
+    if (field.validation.pattern) {
+      let regex: RegExp | null = null;
+      try {
+        regex = new RegExp(field.validation.pattern);
+      } catch {
+        // Invalid pattern in config - skip rather than block every submission
+      }
+      if (regex && !regex.test(isRichText(value) ? getPlainText(value) : String(value))) {
+        error = field.validation.message || 'Invalid format';
+      }
+    }
+  }
+
+  return error;
+}
+
+// Validate a set of fields against form data, returning errors keyed by property ID.
+// Fields hidden by a rule are skipped; requiredWhen rules are applied. `data`
+// should already be without hidden fields' values (see getVisibleData).
+export function validateFields(fields: FieldConfig[], data: Record<string, any>): FieldErrors {
+  const errors: FieldErrors = {};
+
+  fields.forEach(field => {
+    if (!isFieldVisible(field, data)) return;
+
+    const required = isFieldRequired(field, data);
+    const error = validateFieldValue({ ...field, required }, data[field.notionPropertyId]);
+    if (error) {
+      errors[field.notionPropertyId] = error;
+    }
+  });
+
+  return errors;
+}
@@ -0,0 +1,28 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { FormulaContext, FormulaError, evaluateFormula, parseFormula, validateFormula } from './formula';
+
+const CONTEXT: FormulaContext = { fields: [], data: {} };
+
+describe('formula parser', () => {
+  it('parses functions and durations', () => {
+    assert.equal(evaluateFormula('upper("ab") + 1', 'rich_text', CONTEXT), 'AB1');
+    assert.equal(evaluateFormula('days(2) + 1w', 'number', CONTEXT), 9);
+  });
+
+  describe('does not take object prototype keys for names', () => {
+    ['toString()', 'constructor(1)', 'hasOwnProperty("x")', '__proto__()'].forEach(expression => {
+      it(expression, () => {
+        assert.throws(() => parseFormula(expression), FormulaError);
+        assert.match(validateFormula(expression, []) || '', /^Unknown function/);
+      });
+    });
+
+    ['1constructor', '2toString', '3__proto__'].forEach(expression => {
+      it(expression, () => {
+        assert.throws(() => parseFormula(expression), FormulaError);
+        assert.match(validateFormula(expression, []) || '', /^Unknown duration unit/);
+      });
+    });
+  });
+});
@@ -0,0 +1,614 @@
+import { getPlainText, isRichText } from './rich-text';
+
+// Formula default values.
+//
+// A small expression language evaluated without `eval`: expressions are
+// tokenized and parsed into a tree, and only the operators and functions
+// below can be used. Supported:
+//   - numbers, 'strings' / "strings", true / false
+//   - durations: 7d, 2w, 3h (days, weeks, hours)
+//   - + - * / % and parentheses; + concatenates when either side is a string
+//   - date math: today() + 7d, prop("Due") - 1w, prop("End") - prop("Start") (days)
+//   - user.name, user.email
+//   - prop("Field label") to reference another field of the form
+//   - functions listed in FUNCTIONS
+
+const MAX_EXPRESSION_LENGTH = 1000;
+const MAX_DEPTH = 50;
+
+const MS_PER_HOUR = 60 * 60 * 1000;
+const MS_PER_DAY = 24 * MS_PER_HOUR;
+
+const DURATION_UNITS: Record<string, number> = {
+  h: MS_PER_HOUR,
+  d: MS_PER_DAY,
+  w: 7 * MS_PER_DAY,
+};
+
+export class FormulaError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'FormulaError';
+  }
+}
+
+interface FormulaDate {
+  kind: 'date';
+  time: number;
+  hasTime: boolean;
+}
+
+interface FormulaDuration {
+  kind: 'duration';
+  ms: number;
+}
+
+export type FormulaValue = number | string | boolean | null | FormulaDate | FormulaDuration;
+
+type FormulaNode =
+  | { type: 'literal'; value: FormulaValue }
+  | { type: 'user'; key: 'name' | 'email' }
+  | { type: 'prop'; name: string }
+  | { type: 'call'; name: string; args: FormulaNode[] }
+  | { type: 'unary'; operator: '-'; operand: FormulaNode }
+  | { type: 'binary'; operator: string; left: FormulaNode; right: FormulaNode };
+
+// The form fields a formula can reference
+export interface FormulaField {
+  notionPropertyId: string;
+  notionPropertyType: string;
+  label: string;
+}
+
+export interface FormulaContext {
+  fields: FormulaField[];
+  data: Record<string, any>;
+  user?: { name?: string; email?: string };
+  now?: Date;
+}
+
+// ---------------------------------------------------------------------------
+// Tokenizer
+// ---------------------------------------------------------------------------
+
+type Token =
+  | { type: 'number'; value: number }
+  | { type: 'duration'; ms: number }
+  | { type: 'string'; value: string }
+  | { type: 'ident'; value: string }
+  | { type: 'op'; value: string };
+
+function tokenize(expression: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < expression.length) {
+    const ch = expression[i];
+
+    if (/\s/.test(ch)) {
+      i++;
+      continue;
+    }
+
+    if (/[0-9.]/.test(ch)) {
+      const match = /^(\d+(?:\.\d+)?|\.\d+)([a-zA-Z_]*)/.exec(expression.slice(i));
+      if (!match) {
+        throw new FormulaError(`Invalid number at position ${i + 1}`);
+      }
+      const value = parseFloat(match[1]);
+      const unit = match[2];
+      if (unit) {
+        if (!Object.prototype.hasOwnProperty.call(DURATION_UNITS, unit)) {
+          throw new FormulaError(`Unknown duration unit "${unit}" (use d, w or h)`);
+        }
+        tokens.push({ type: 'duration', ms: value * DURATION_UNITS[unit] });
+      } else {
+        tokens.push({ type: 'number', value });
+      }
+      i += match[0].length;
+      continue;
+    }
+
+    if (ch === '"' || ch === "'") {
+      let value = '';
+      let j = i + 1;
+      while (j < expression.length && expression[j] !== ch) {
+        if (expression[j] === '\\' && j + 1 < expression.length) {
+          j++;
+        }
+        value += expression[j];
+        j++;
+      }
+      if (j >= expression.length) {
+        throw new FormulaError('Unterminated string');
+      }
+      tokens.push({ type: 'string', value });
+      i = j + 1;
+      continue;
+    }
+
+    if (/[a-zA-Z_]/.test(ch)) {
+      const match = /^[a-zA-Z_][a-zA-Z0-9_]*(?:\.[a-zA-Z_][a-zA-Z0-9_]*)*/.exec(expression.slice(i))!;
+      tokens.push({ type: 'ident', value: match[0] });
+      i += match[0].length;
+      continue;
+    }
+
+    if ('+-*/%(),'.includes(ch)) {
+      tokens.push({ type: 'op', value: ch });
+      i++;
+      continue;
+    }
+
+    throw new FormulaError(`Unexpected character "${ch}"`);
+  }
+
+  return tokens;
+}
+
+// ---------------------------------------------------------------------------
+// Parser
+// ---------------------------------------------------------------------------
+
+// Function name -> [min args, max args]
+const FUNCTIONS: Record<string, [number, number]> = {
+  today: [0, 0],
+  now: [0, 0],
+  prop: [1, 1],
+  upper: [1, 1],
+  lower: [1, 1],
+  trim: [1, 1],
+  concat: [1, Infinity],
+  round: [1, 2],
+  floor: [1, 1],
+  ceil: [1, 1],
+  abs: [1, 1],
+  min: [1, Infinity],
+  max: [1, Infinity],
+  days: [1, 1],
+  weeks: [1, 1],
+  hours: [1, 1],
+};
+
+class Parser {
+  private pos = 0;
+  private depth = 0;
+
+  constructor(private tokens: Token[]) {}
+
+  parse(): FormulaNode {
+    if (this.tokens.length === 0) {
+      throw new FormulaError('Expression is empty');
+    }
+    const node = this.parseAdditive();
+    if (this.pos < this.tokens.length) {
+      throw new FormulaError(`Unexpected "${this.describe(this.tokens[this.pos])}"`);
+    }
+    return node;
+  }
+
+  private describe(token: Token): string {
+    switch (token.type) {
+      case 'number':
+        return String(token.value);
+      case 'duration':
+        return 'duration';
+      case 'string':
+        return `"${token.value}"`;
+      default:
+        return token.value;
+    }
+  }
+
+  private peekOp(...ops: string[]): string | null {
+    const token = this.tokens[this.pos];
+    return token && token.type === 'op' && ops.includes(token.value) ? token.value : null;
+  }
+
+  private expectOp(op: string) {
+    if (!this.peekOp(op)) {
+      throw new FormulaError(`Expected "${op}"`);
+    }
+    this.pos++;
+  }
+
+  private enter() {
+    if (++this.depth > MAX_DEPTH) {
+      throw new FormulaError('Expression is nested too deeply');
+    }
+  }
+
+  private parseAdditive(): FormulaNode {
+    this.enter();
+    let node = this.parseMultiplicative();
+    let op: string | null;
+    while ((op = this.peekOp('+', '-'))) {
+      this.pos++;
+      node = { type: 'binary', operator: op, left: node, right: this.parseMultiplicative() };
+    }
+    this.depth--;
+    return node;
+  }
+
+  private parseMultiplicative(): FormulaNode {
+    let node = this.parseUnary();
+    let op: string | null;
+    while ((op = this.peekOp('*', '/', '%'))) {
+      this.pos++;
+      node = { type: 'binary', operator: op, left: node, right: this.parseUnary() };
+    }
+    return node;
+  }
+
+  private parseUnary(): FormulaNode {
+    if (this.peekOp('-')) {
+      this.pos++;
+      this.enter();
+      const operand = this.parseUnary();
+      this.depth--;
+      return { type: 'unary', operator: '-', operand };
+    }
+    if (this.peekOp('+')) {
+      this.pos++;
+      return this.parseUnary();
+    }
+    return this.parsePrimary();
+  }
+
+  private parsePrimary(): FormulaNode {
+    const token = this.tokens[this.pos];
+    if (!token) {
+      throw new FormulaError('Unexpected end of expression');
+    }
+
+    if (token.type === 'number') {
+      this.pos++;
+      return { type: 'literal', value: token.value };
+    }
+
+    if (token.type === 'duration') {
+      this.pos++;
+      return { type: 'literal', value: { kind: 'duration', ms: token.ms } };
+    }
+
+    if (token.type === 'string') {
+      this.pos++;
+      return { type: 'literal', value: token.value };
+    }
+
+    if (token.type === 'op' && token.value === '(') {
+      this.pos++;
+      const node = this.parseAdditive();
+      this.expectOp(')');
+      return node;
+    }
+
+    if (token.type === 'ident') {
+      this.pos++;
+      const name = token.value;
+
+      if (this.peekOp('(')) {
+        return this.parseCall(name);
+      }
+
+      if (name === 'true' || name === 'false') {
+        return { type: 'literal', value: name === 'true' };
+      }
+      if (name === 'user.name' || name === 'user.email') {
+        return { type: 'user', key: name === 'user.name' ? 'name' : 'email' };
+      }
+      throw new FormulaError(`Unknown name "${name}"`);
+    }
+
+    throw new FormulaError(`Unexpected "${this.describe(token)}"`);
+  }
+
+  private parseCall(name: string): FormulaNode {
+    // Own keys only, so names like "constructor" aren't taken for functions
+    if (!Object.prototype.hasOwnProperty.call(FUNCTIONS, name)) {
+      throw new FormulaError(`Unknown function "${name}"`);
+    }
+    const arity = FUNCTIONS[name];
+
+    this.expectOp('(');
+    const args: FormulaNode[] = [];
+    if (!this.peekOp(')')) {
+      args.push(this.parseAdditive());
+      while (this.peekOp(',')) {
+        this.pos++;
+        args.push(this.parseAdditive());
+      }
+    }
+    this.expectOp(')');
+
+    const [min, max] = arity;
+    if (args.length < min || args.length > max) {
+      const expected = min === max ? `${min}` : max === Infinity ? `at least ${min}` : `${min}-${max}`;
+      throw new FormulaError(`${name}() takes ${expected} argument${expected === '1' ? '' : 's'}`);
+    }
+
+    // Field references must be literal so they can be checked in the builder
+    if (name === 'prop') {
+      const arg = args[0];
+      if (arg.type !== 'literal' || typeof arg.value !== 'string') {
+        throw new FormulaError('prop() takes a field name in quotes');
+      }
+      return { type: 'prop', name: arg.value };
+    }
+
+    return { type: 'call', name, args };
+  }
+}
+
+export function parseFormula(expression: string): FormulaNode {
+  if (expression.length > MAX_EXPRESSION_LENGTH) {
+    throw new FormulaError(`Expression is longer than ${MAX_EXPRESSION_LENGTH} characters`);
+  }
+  return new Parser(tokenize(expression)).parse();
+}
+
+// ---------------------------------------------------------------------------
+// Evaluation
+// ---------------------------------------------------------------------------
+
+function isDate(value: FormulaValue): value is FormulaDate {
+  return typeof value === 'object' && value !== null && value.kind === 'date';
+}
+
+function isDuration(value: FormulaValue): value is FormulaDuration {
+  return typeof value === 'object' && value !== null && value.kind === 'duration';
+}
+
+function formatDate(value: FormulaDate): string {
+  const iso = new Date(value.time).toISOString();
+  return value.hasTime ? iso : iso.split('T')[0];
+}
+
+function toText(value: FormulaValue): string {
+  if (value === null) return '';
+  if (isDate(value)) return formatDate(value);
+  if (isDuration(value)) return `${value.ms / MS_PER_DAY}d`;
+  return String(value);
+}
+
+function toNumber(value: FormulaValue, fn: string): number {
+  if (typeof value === 'number') return value;
+  if (isDuration(value)) return value.ms / MS_PER_DAY;
+  throw new FormulaError(`${fn} expects a number`);
+}
+
+function findField(fields: FormulaField[], name: string): FormulaField | undefined {
+  const lower = name.toLowerCase();
+  return fields.find(f => f.label.toLowerCase() === lower) ||
+    fields.find(f => f.notionPropertyId === name);
+}
+
+// Convert a form value into a formula value based on the field type
+function fromFieldValue(field: FormulaField, value: any): FormulaValue {
+  if (value === undefined || value === null || value === '') return null;
+
+  if (field.notionPropertyType === 'date') {
+    const raw = typeof value === 'object' && !Array.isArray(value) ? value.start : value;
+    if (typeof raw !== 'string' || !raw) return null;
+    const hasTime = raw.includes('T');
+    const time = new Date(hasTime ? raw : `${raw}T00:00:00.000Z`).getTime();
+    return isNaN(time) ? null : { kind: 'date', time, hasTime };
+  }
+
+  if (field.notionPropertyType === 'number') {
+    const num = typeof value === 'number' ? value : parseFloat(value);
+    return isNaN(num) ? null : num;
+  }
+
+  if (typeof value === 'boolean' || typeof value === 'number') return value;
+  if (isRichText(value)) return getPlainText(value);
+  if (Array.isArray(value)) return value.join(', ');
+  return String(value);
+}
+
+function addValues(left: FormulaValue, right: FormulaValue): FormulaValue {
+  if (typeof left === 'string' || typeof right === 'string') {
+    return toText(left) + toText(right);
+  }
+  if (left === null || right === null) return null;
+  if (isDate(left) && isDuration(right)) {
+    return { kind: 'date', time: left.time + right.ms, hasTime: left.hasTime || right.ms % MS_PER_DAY !== 0 };
+  }
+  if (isDuration(left) && isDate(right)) {
+    return addValues(right, left);
+  }
+  if (isDuration(left) && isDuration(right)) {
+    return { kind: 'duration', ms: left.ms + right.ms };
+  }
+  if (typeof left === 'number' && typeof right === 'number') {
+    return left + right;
+  }
+  throw new FormulaError('Cannot add these values');
+}
+
+function subtractValues(left: FormulaValue, right: FormulaValue): FormulaValue {
+  if (left === null || right === null) return null;
+  if (isDate(left) && isDuration(right)) {
+    return addValues(left, { kind: 'duration', ms: -right.ms });
+  }
+  if (isDate(left) && isDate(right)) {
+    return (left.time - right.time) / MS_PER_DAY;
+  }
+  if (isDuration(left) && isDuration(right)) {
+    return { kind: 'duration', ms: left.ms - right.ms };
+  }
+  if (typeof left === 'number' && typeof right === 'number') {
+    return left - right;
+  }
+  throw new FormulaError('Cannot subtract these values');
+}
+
+function multiplyValues(operator: string, left: FormulaValue, right: FormulaValue): FormulaValue {
+  if (left === null || right === null) return null;
+
+  if (operator === '*') {
+    if (isDuration(left) && typeof right === 'number') return { kind: 'duration', ms: left.ms * right };
+    if (typeof left === 'number' && isDuration(right)) return { kind: 'duration', ms: left * right.ms };
+  }
+  if (operator === '/' && isDuration(left) && typeof right === 'number') {
+    if (right === 0) throw new FormulaError('Division by zero');
+    return { kind: 'duration', ms: left.ms / right };
+  }
+
+  if (typeof left !== 'number' || typeof right !== 'number') {
+    throw new FormulaError(`"${operator}" expects numbers`);
+  }
+
+  switch (operator) {
+    case '*':
+      return left * right;
+    case '/':
+      if (right === 0) throw new FormulaError('Division by zero');
+      return left / right;
+    default:
+      if (right === 0) throw new FormulaError('Division by zero');
+      return left % right;
+  }
+}
+
+function callFunction(name: string, args: FormulaValue[], context: FormulaContext): FormulaValue {
+  const now = context.now || new Date();
+
+  switch (name) {
+    case 'today':
+      return { kind: 'date', time: new Date(now.toISOString().split('T')[0] + 'T00:00:00.000Z').getTime(), hasTime: false };
+    case 'now':
+      return { kind: 'date', time: now.getTime(), hasTime: true };
+    case 'upper':
+      return args[0] === null ? null : toText(args[0]).toUpperCase();
+    case 'lower':
+      return args[0] === null ? null : toText(args[0]).toLowerCase();
+    case 'trim':
+      return args[0] === null ? null : toText(args[0]).trim();
+    case 'concat':
+      return args.map(toText).join('');
+    case 'round': {
+      if (args[0] === null) return null;
+      const digits = args.length > 1 ? toNumber(args[1], 'round()') : 0;
+      const factor = Math.pow(10, digits);
+      return Math.round(toNumber(args[0], 'round()') * factor) / factor;
+    }
+    case 'floor':
+      return args[0] === null ? null : Math.floor(toNumber(args[0], 'floor()'));
+    case 'ceil':
+      return args[0] === null ? null : Math.ceil(toNumber(args[0], 'ceil()'));
+    case 'abs':
+      return args[0] === null ? null : Math.abs(toNumber(args[0], 'abs()'));
+    case 'min':
+    case 'max': {
+      const numbers = args.filter(a => a !== null).map(a => toNumber(a, `${name}()`));
+      if (numbers.length === 0) return null;
+      return name === 'min' ? Math.min(...numbers) : Math.max(...numbers);
+    }
+    case 'days':
+    case 'weeks':
+    case 'hours': {
+      if (args[0] === null) return null;
+      const unit = name === 'days' ? 'd' : name === 'weeks' ? 'w' : 'h';
+      return { kind: 'duration', ms: toNumber(args[0], `${name}()`) * DURATION_UNITS[unit] };
+    }
+    default:
+      throw new FormulaError(`Unknown function "${name}"`);
+  }
+}
+
+function evaluateNode(node: FormulaNode, context: FormulaContext): FormulaValue {
+  switch (node.type) {
+    case 'literal':
+      return node.value;
+    case 'user':
+      return context.user?.[node.key] || null;
+    case 'prop': {
+      const field = findField(context.fields, node.name);
+      if (!field) {
+        throw new FormulaError(`Unknown field "${node.name}"`);
+      }
+      return fromFieldValue(field, context.data[field.notionPropertyId]);
+    }
+    case 'call':
+      return callFunction(node.name, node.args.map(arg => evaluateNode(arg, context)), context);
+    case 'unary': {
+      const value = evaluateNode(node.operand, context);
+      if (value === null) return null;
+      if (typeof value === 'number') return -value;
+      if (isDuration(value)) return { kind: 'duration', ms: -value.ms };
+      throw new FormulaError('"-" expects a number');
+    }
+    case 'binary': {
+      const left = evaluateNode(node.left, context);
+      const right = evaluateNode(node.right, context);
+      if (node.operator === '+') return addValues(left, right);
+      if (node.operator === '-') return subtractValues(left, right);
+      return multiplyValues(node.operator, left, right);
+    }
+  }
+}
+
+// Evaluate an expression and convert the result to a value for a field
+// of the given type. Returns undefined when there is no result (e.g. a
+// referenced field is empty).
+export function evaluateFormula(
+  expression: string,
+  fieldType: string,
+  context: FormulaContext
+): any {
+  const result = evaluateNode(parseFormula(expression), context);
+
+  if (result === null) return undefined;
+
+  if (typeof result === 'number' && !isFinite(result)) {
+    throw new FormulaError('Result is not a number');
+  }
+
+  switch (fieldType) {
+    case 'number': {
+      const num = typeof result === 'number' ? result
+        : isDuration(result) ? result.ms / MS_PER_DAY
+        : parseFloat(toText(result));
+      return isNaN(num) ? undefined : num;
+    }
+    case 'checkbox':
+      return typeof result === 'boolean' ? result : toText(result) === 'true';
+    default:
+      return toText(result);
+  }
+}
+
+// Collect the field names referenced with prop()
+function collectProps(node: FormulaNode, names: string[]) {
+  switch (node.type) {
+    case 'prop':
+      names.push(node.name);
+      break;
+    case 'call':
+      node.args.forEach(arg => collectProps(arg, names));
+      break;
+    case 'unary':
+      collectProps(node.operand, names);
+      break;
+    case 'binary':
+      collectProps(node.left, names);
+      collectProps(node.right, names);
+      break;
+  }
+}
+
+// Check an expression in the builder. Returns an error message or null.
+export function validateFormula(expression: string, fields: FormulaField[]): string | null {
+  try {
+    const names: string[] = [];
+    collectProps(parseFormula(expression), names);
+    const unknown = names.find(name => !findField(fields, name));
+    return unknown ? `Unknown field "${unknown}"` : null;
+  } catch (error) {
+    if (error instanceof FormulaError) {
+      return error.message;
+    }
+    throw error;
+  }
+}
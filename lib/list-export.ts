@@ -0,0 +1,161 @@
+import { createZip } from './zip';
+import { getPlainText, isRichText } from './rich-text';
+
+// Formatting of list rows for CSV and XLSX export. Values come from the rows
+// API's fromNotionProperty output.
+
+export type ExportFormat = 'csv' | 'xlsx';
+
+export type ExportCell = string | number | boolean | null;
+
+export interface ExportColumn {
+  propertyId: string;
+  label: string;
+}
+
+// Best-effort text for nested values (formula results, rollup items)
+function formatUnknown(value: any): string {
+  if (value === null || value === undefined) return '';
+  if (isRichText(value)) return getPlainText(value);
+  if (Array.isArray(value)) {
+    return value.map(formatUnknown).filter(Boolean).join(', ');
+  }
+  if (typeof value === 'object') {
+    if (value.start !== undefined) {
+      return value.end ? `${value.start} → ${value.end}` : String(value.start);
+    }
+    return String(value.name || value.title || value.url || value.id || '');
+  }
+  return String(value);
+}
+
+// Convert an extracted property value to a single spreadsheet cell.
+// Relation IDs are replaced by titles when `relationTitles` knows them.
+export function formatExportValue(
+  type: string,
+  value: any,
+  relationTitles: Map<string, string> = new Map()
+): ExportCell {
+  if (value === null || value === undefined) return null;
+
+  switch (type) {
+    case 'number':
+      return typeof value === 'number' ? value : null;
+    case 'checkbox':
+      return !!value;
+    case 'date':
+      // Zoned times are wall-clock times, so keep their zone next to them
+      return typeof value === 'object' && value.timeZone
+        ? `${formatUnknown(value)} (${value.timeZone})`
+        : formatUnknown(value);
+    case 'multi_select':
+      return Array.isArray(value) ? value.join(', ') : String(value);
+    case 'people':
+      return Array.isArray(value)
+        ? value.map((p: any) => p.name || p.email || p.id).join(', ')
+        : null;
+    case 'created_by':
+    case 'last_edited_by':
+      return value.name || value.id || null;
+    case 'files':
+      return Array.isArray(value)
+        ? value.map((f: any) => f.url || f.name).filter(Boolean).join(', ')
+        : null;
+    case 'relation':
+      return Array.isArray(value)
+        ? value.map((id: string) => relationTitles.get(id) || id).join(', ')
+        : null;
+    case 'formula':
+      return typeof value === 'number' || typeof value === 'boolean' ? value : formatUnknown(value);
+    case 'rollup':
+      return typeof value === 'number' ? value : formatUnknown(value);
+    default:
+      return formatUnknown(value);
+  }
+}
+
+// Spreadsheet apps run cells starting with these characters as formulas
+const FORMULA_PREFIXES = ['=', '+', '-', '@', '\t', '\r'];
+
+function escapeCsvCell(cell: ExportCell): string {
+  if (cell === null) return '';
+  let text = String(cell);
+  if (typeof cell === 'string' && FORMULA_PREFIXES.includes(text.charAt(0))) {
+    text = `'${text}`;
+  }
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function toCsvLine(cells: ExportCell[]): string {
+  return cells.map(escapeCsvCell).join(',') + '\r\n';
+}
+
+function escapeXml(text: string): string {
+  return text
+    // Control characters aren't allowed in XML
+    .replace(/[\u0000-\u0008\u000b\u000c\u000e-\u001f]/g, '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+// Column letters for a zero-based index (0 -> A, 26 -> AA)
+function columnName(index: number): string {
+  let name = '';
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    name = String.fromCharCode(65 + ((n - 1) % 26)) + name;
+  }
+  return name;
+}
+
+function toXlsxCell(cell: ExportCell, ref: string): string {
+  if (cell === null || cell === '') return '';
+  if (typeof cell === 'number') return `<c r="${ref}"><v>${cell}</v></c>`;
+  if (typeof cell === 'boolean') return `<c r="${ref}" t="b"><v>${cell ? 1 : 0}</v></c>`;
+  return `<c r="${ref}" t="inlineStr"><is><t xml:space="preserve">${escapeXml(cell)}</t></is></c>`;
+}
+
+const XML_HEADER = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n';
+
+// Build a single-sheet XLSX workbook. The first row is the header.
+export function buildXlsx(rows: ExportCell[][], sheetName: string = 'Export'): ArrayBuffer {
+  const encoder = new TextEncoder();
+  const safeSheetName = escapeXml(sheetName.replace(/[\[\]:*?/\\]/g, ' ').slice(0, 31).trim() || 'Export');
+
+  const sheetRows = rows.map((cells, rowIndex) => {
+    const r = rowIndex + 1;
+    const cellXml = cells.map((cell, colIndex) => toXlsxCell(cell, `${columnName(colIndex)}${r}`)).join('');
+    return `<row r="${r}">${cellXml}</row>`;
+  }).join('');
+
+  const files: Record<string, string> = {
+    '[Content_Types].xml':
+      `${XML_HEADER}<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">` +
+      '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>' +
+      '<Default Extension="xml" ContentType="application/xml"/>' +
+      '<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>' +
+      '<Override PartName="/xl/worksheets/sheet1.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>' +
+      '</Types>',
+    '_rels/.rels':
+      `${XML_HEADER}<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">` +
+      '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/>' +
+      '</Relationships>',
+    'xl/workbook.xml':
+      `${XML_HEADER}<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships">` +
+      `<sheets><sheet name="${safeSheetName}" sheetId="1" r:id="rId1"/></sheets>` +
+      '</workbook>',
+    'xl/_rels/workbook.xml.rels':
+      `${XML_HEADER}<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">` +
+      '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet1.xml"/>' +
+      '</Relationships>',
+    'xl/worksheets/sheet1.xml':
+      `${XML_HEADER}<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">` +
+      `<sheetData>${sheetRows}</sheetData>` +
+      '</worksheet>',
+  };
+
+  return createZip(
+    Object.entries(files).map(([name, content]) => ({ name, data: encoder.encode(content) }))
+  );
+}
@@ -0,0 +1,153 @@
+import { z } from 'zod';
+import { DesignTimeFilter, DesignTimeFilterSchema, FilterGroup, FilterNode, FilterOperator } from '@/types/form';
+
+// Shared helpers for list filters: the operators each property type supports
+// (matching the rows route's Notion filter mapping) and the URL format for
+// ad-hoc filters added by list viewers.
+
+export const FILTER_OPERATOR_LABELS: Record<FilterOperator, string> = {
+  equals: 'is',
+  does_not_equal: 'is not',
+  contains: 'contains',
+  does_not_contain: 'does not contain',
+  starts_with: 'starts with',
+  ends_with: 'ends with',
+  greater_than: 'greater than',
+  less_than: 'less than',
+  greater_than_or_equal_to: 'at least',
+  less_than_or_equal_to: 'at most',
+  is_empty: 'is empty',
+  is_not_empty: 'is not empty',
+  past_week: 'is in the past week',
+  past_month: 'is in the past month',
+  past_year: 'is in the past year',
+  this_week: 'is this week',
+  next_week: 'is in the next week',
+  next_month: 'is in the next month',
+  next_year: 'is in the next year',
+  in_past_days: 'is in the past N days',
+  in_next_days: 'is in the next N days',
+  is_me: 'is me',
+};
+
+// Operators that take a number of days as their value
+export const DAY_COUNT_OPERATORS: FilterOperator[] = ['in_past_days', 'in_next_days'];
+
+// Operators that need no value
+const VALUELESS_OPERATORS: FilterOperator[] = [
+  'is_empty',
+  'is_not_empty',
+  'past_week',
+  'past_month',
+  'past_year',
+  'this_week',
+  'next_week',
+  'next_month',
+  'next_year',
+  'is_me',
+];
+
+const DATE_OPERATOR_LABELS: Partial<Record<FilterOperator, string>> = {
+  greater_than: 'is after',
+  less_than: 'is before',
+  greater_than_or_equal_to: 'is on or after',
+  less_than_or_equal_to: 'is on or before',
+};
+
+// Text-like property types, which also make up the list's full-text search
+export const TEXT_PROPERTY_TYPES = ['title', 'rich_text', 'url', 'email', 'phone_number'];
+
+// Operators supported for a property type (empty when it can't be filtered)
+export function getFilterOperators(propertyType: string): FilterOperator[] {
+  if (TEXT_PROPERTY_TYPES.includes(propertyType)) {
+    return ['contains', 'does_not_contain', 'equals', 'does_not_equal', 'starts_with', 'ends_with', 'is_empty', 'is_not_empty'];
+  }
+
+  switch (propertyType) {
+    case 'number':
+      return ['equals', 'does_not_equal', 'greater_than', 'less_than', 'greater_than_or_equal_to', 'less_than_or_equal_to', 'is_empty', 'is_not_empty'];
+    case 'select':
+    case 'status':
+      return ['equals', 'does_not_equal', 'is_empty', 'is_not_empty'];
+    case 'multi_select':
+      return ['contains', 'does_not_contain', 'is_empty', 'is_not_empty'];
+    case 'people':
+      return ['is_me', 'contains', 'does_not_contain', 'is_empty', 'is_not_empty'];
+    case 'checkbox':
+      return ['equals'];
+    case 'date':
+      return [
+        'equals', 'less_than', 'greater_than', 'less_than_or_equal_to', 'greater_than_or_equal_to',
+        'this_week', 'past_week', 'past_month', 'past_year', 'next_week', 'next_month', 'next_year',
+        'in_past_days', 'in_next_days', 'is_empty', 'is_not_empty',
+      ];
+    default:
+      return [];
+  }
+}
+
+export function getOperatorLabel(propertyType: string, operator: FilterOperator): string {
+  if (propertyType === 'date' && DATE_OPERATOR_LABELS[operator]) {
+    return DATE_OPERATOR_LABELS[operator] as string;
+  }
+  return FILTER_OPERATOR_LABELS[operator];
+}
+
+export function operatorNeedsValue(operator: FilterOperator): boolean {
+  return !VALUELESS_OPERATORS.includes(operator);
+}
+
+export function isFilterGroup(node: FilterNode): node is FilterGroup {
+  return (node as FilterGroup).type === 'group';
+}
+
+// Depth of group nesting in a filter tree (a flat list is 0)
+export function getFilterDepth(nodes: FilterNode[]): number {
+  return nodes.reduce((depth, node) => (
+    isFilterGroup(node) ? Math.max(depth, 1 + getFilterDepth(node.filters)) : depth
+  ), 0);
+}
+
+// A filter can be sent once it has a value (or its operator doesn't need one)
+export function isFilterComplete(filter: DesignTimeFilter): boolean {
+  if (!operatorNeedsValue(filter.operator)) return true;
+  if (filter.value === undefined || filter.value === null || filter.value === '') return false;
+  if (DAY_COUNT_OPERATORS.includes(filter.operator)) {
+    return Number.isInteger(Number(filter.value)) && Number(filter.value) > 0;
+  }
+  return true;
+}
+
+// Full-text search as an OR of "contains" filters across text properties
+export function buildSearchGroup(search: string, properties: { id: string; type: string }[]): FilterGroup {
+  return {
+    type: 'group',
+    operator: 'or',
+    filters: properties
+      .filter(p => TEXT_PROPERTY_TYPES.includes(p.type))
+      .map(p => ({ propertyId: p.id, propertyType: p.type, operator: 'contains' as const, value: search })),
+  };
+}
+
+const FilterListSchema = z.array(DesignTimeFilterSchema);
+
+// Parse filters from a URL or query parameter. Returns null when the
+// parameter is malformed so callers can decide how strict to be.
+export function parseFiltersParam(param: string | null): DesignTimeFilter[] | null {
+  if (!param) return [];
+
+  try {
+    const result = FilterListSchema.safeParse(JSON.parse(param));
+    return result.success ? result.data : null;
+  } catch {
+    return null;
+  }
+}
+
+export function serializeFilters(filters: DesignTimeFilter[]): string {
+  return JSON.stringify(filters.map(({ propertyId, propertyType, operator, value }) => (
+    operatorNeedsValue(operator)
+      ? { propertyId, propertyType, operator, value }
+      : { propertyId, propertyType, operator }
+  )));
+}
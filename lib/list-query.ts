@@ -0,0 +1,427 @@
+import { Client } from '@notionhq/client';
+import { User } from './db/schema';
+import { checkFormAccess, buildOwnerFilter, FormUserIdentity } from './form-access';
+import { normalizeNotionId, LoadedForm } from './form-config';
+import { FilterNode, FilterOperator } from '@/types/form';
+import { parseFiltersParam, isFilterComplete, isFilterGroup, buildSearchGroup } from './list-filters';
+import { getDatabase } from './notion';
+
+// Turns a list request (form, design-time and ad-hoc filters, search and sort)
+// into a Notion database query. Shared by the rows and export routes so both
+// see exactly the same records.
+
+// Notion allows compound filters to nest two levels below the top-level group
+const MAX_NOTION_FILTER_DEPTH = 3;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Date ranges can start before a calendar's window and run into it. Filters
+// only see a date's start, so rows starting up to this long before the window
+// are fetched too, and kept if their range reaches into it (see isInDateWindow).
+const DATE_RANGE_LOOKBACK_DAYS = 90;
+
+// Days a calendar view shows, by the date property it places rows on
+export interface DateWindow {
+  propertyId: string;
+  from: string;
+  to: string;
+}
+
+// Values resolved when the list is queried
+interface FilterContext {
+  notionUserId: string | null;  // The viewer's Notion user, for "is me"
+  now: Date;
+}
+
+// A built filter node: a Notion filter, null when the node adds no condition,
+// or false when no row can match (e.g. "is me" for a viewer without a Notion user)
+type BuiltFilter = Record<string, any> | null | false;
+
+function toDateString(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+// Convert one of our filters (or a group of them) to Notion's filter format
+function buildFilterNode(node: FilterNode, context: FilterContext): BuiltFilter {
+  if (isFilterGroup(node)) {
+    return buildFilterGroup(node.operator, node.filters, context);
+  }
+
+  // Filters still missing a value add no condition
+  if (!isFilterComplete(node)) return null;
+
+  const { propertyId, propertyType, operator, value } = node;
+
+  if (operator === 'is_me') {
+    if (!context.notionUserId) return false;
+    return { property: propertyId, [propertyType]: { contains: context.notionUserId } };
+  }
+
+  // "In the past/next N days" is a range, so it needs two date conditions
+  if (operator === 'in_past_days' || operator === 'in_next_days') {
+    const days = Number(value);
+    if (!Number.isInteger(days) || days <= 0) return null;
+
+    const offset = new Date(context.now.getTime() + (operator === 'in_past_days' ? -days : days) * DAY_MS);
+    const [start, end] = operator === 'in_past_days' ? [offset, context.now] : [context.now, offset];
+
+    return {
+      and: [
+        { property: propertyId, date: { on_or_after: toDateString(start) } },
+        { property: propertyId, date: { on_or_before: toDateString(end) } },
+      ],
+    };
+  }
+
+  // Map our operators to Notion's filter conditions
+  const condition = mapOperatorToCondition(propertyType, operator, value);
+  if (!condition) return null;
+
+  return {
+    property: propertyId,
+    [propertyType]: condition,
+  };
+}
+
+function buildFilterGroup(operator: 'and' | 'or', nodes: FilterNode[], context: FilterContext): BuiltFilter {
+  const built = nodes
+    .map(node => buildFilterNode(node, context))
+    .filter((filter): filter is Record<string, any> | false => filter !== null);
+
+  let conditions: Record<string, any>[];
+  if (operator === 'and') {
+    if (built.includes(false)) return false;
+    conditions = built as Record<string, any>[];
+  } else {
+    conditions = built.filter((filter): filter is Record<string, any> => filter !== false);
+    if (built.length > 0 && conditions.length === 0) return false;
+  }
+
+  if (conditions.length === 0) return null;
+  if (conditions.length === 1) return conditions[0];
+
+  // Merge nested groups with the same operator to keep nesting shallow
+  return {
+    [operator]: conditions.flatMap(condition => (
+      Array.isArray(condition[operator]) && Object.keys(condition).length === 1
+        ? condition[operator]
+        : [condition]
+    )),
+  };
+}
+
+// Levels of compound (and/or) nesting in a Notion filter
+function getNotionFilterDepth(filter: Record<string, any>): number {
+  const children = filter.and || filter.or;
+  if (!Array.isArray(children)) return 0;
+  return 1 + Math.max(0, ...children.map(getNotionFilterDepth));
+}
+
+// AND a condition into a Notion filter without another level of nesting: it
+// joins a top-level and group, or each branch of a top-level or group
+function addAndCondition(filter: Record<string, any>, condition: Record<string, any>): Record<string, any> {
+  const isGroup = (f: Record<string, any>, operator: 'and' | 'or') =>
+    Array.isArray(f[operator]) && Object.keys(f).length === 1;
+  const addToBranch = (branch: Record<string, any>) =>
+    isGroup(branch, 'and') ? { and: [...branch.and, condition] } : { and: [branch, condition] };
+
+  if (isGroup(filter, 'and')) return addToBranch(filter);
+  if (isGroup(filter, 'or')) return { or: filter.or.map(addToBranch) };
+  return { and: [filter, condition] };
+}
+
+// Map our operators to Notion's filter conditions based on property type
+function mapOperatorToCondition(
+  propertyType: string,
+  operator: FilterOperator,
+  value: any
+): any {
+  // Handle empty/not empty for all types
+  if (operator === 'is_empty') return { is_empty: true };
+  if (operator === 'is_not_empty') return { is_not_empty: true };
+
+  // Relative dates map directly to Notion's date conditions
+  if (propertyType === 'date') {
+    switch (operator) {
+      case 'past_week':
+      case 'past_month':
+      case 'past_year':
+      case 'this_week':
+      case 'next_week':
+      case 'next_month':
+      case 'next_year':
+        return { [operator]: {} };
+    }
+  }
+
+  // Text-based types (title, rich_text, url, email, phone_number)
+  if (['title', 'rich_text', 'url', 'email', 'phone_number'].includes(propertyType)) {
+    switch (operator) {
+      case 'equals': return { equals: value };
+      case 'does_not_equal': return { does_not_equal: value };
+      case 'contains': return { contains: value };
+      case 'does_not_contain': return { does_not_contain: value };
+      case 'starts_with': return { starts_with: value };
+      case 'ends_with': return { ends_with: value };
+    }
+  }
+
+  // Number type
+  if (propertyType === 'number') {
+    switch (operator) {
+      case 'equals': return { equals: Number(value) };
+      case 'does_not_equal': return { does_not_equal: Number(value) };
+      case 'greater_than': return { greater_than: Number(value) };
+      case 'less_than': return { less_than: Number(value) };
+      case 'greater_than_or_equal_to': return { greater_than_or_equal_to: Number(value) };
+      case 'less_than_or_equal_to': return { less_than_or_equal_to: Number(value) };
+    }
+  }
+
+  // Select and status
+  if (['select', 'status'].includes(propertyType)) {
+    switch (operator) {
+      case 'equals': return { equals: value };
+      case 'does_not_equal': return { does_not_equal: value };
+    }
+  }
+
+  // Multi-select
+  if (propertyType === 'multi_select') {
+    switch (operator) {
+      case 'contains': return { contains: value };
+      case 'does_not_contain': return { does_not_contain: value };
+    }
+  }
+
+  // Checkbox
+  if (propertyType === 'checkbox') {
+    return { equals: value === true || value === 'true' };
+  }
+
+  // Date
+  if (propertyType === 'date') {
+    switch (operator) {
+      case 'equals': return { equals: value };
+      case 'greater_than': return { after: value };
+      case 'less_than': return { before: value };
+      case 'greater_than_or_equal_to': return { on_or_after: value };
+      case 'less_than_or_equal_to': return { on_or_before: value };
+    }
+  }
+
+  // People
+  if (propertyType === 'people') {
+    switch (operator) {
+      case 'contains': return { contains: value };
+      case 'does_not_contain': return { does_not_contain: value };
+    }
+  }
+
+  return null;
+}
+
+// Result of resolving a list request. `query` is null when no row can match.
+export type ListQueryCheck =
+  | {
+      allowed: true;
+      form: LoadedForm | null;
+      query: Record<string, any> | null;
+      dateWindow: DateWindow | null;  // Results must also pass isInDateWindow
+      databaseTitle: string;
+      propertyIdToName: Record<string, string>;
+      propertyIdToType: Record<string, string>;
+    }
+  | { allowed: false; status: number; error: string };
+
+// Whether a page's date, or date range, overlaps a calendar window
+export function isInDateWindow(page: any, window: DateWindow | null): boolean {
+  if (!window) return true;
+
+  const prop: any = Object.values(page.properties || {}).find((p: any) => p.id === window.propertyId);
+  const start: string | undefined = prop?.date?.start?.slice(0, 10);
+  if (!start || start > window.to) return false;
+
+  const end: string | undefined = prop.date.end?.slice(0, 10);
+  return (end || start) >= window.from;
+}
+
+// Check the caller may list the database and build the Notion query (without
+// paging) from the request's search params
+export async function buildListQuery(
+  notion: Client,
+  databaseId: string,
+  searchParams: URLSearchParams,
+  adminUser: User | null,
+  formUser: FormUserIdentity | null
+): Promise<ListQueryCheck> {
+  // Form users can only list the database of a list-enabled form they can access
+  const access = await checkFormAccess(searchParams.get('form_id'), adminUser, formUser);
+
+  if (!access.allowed) {
+    return access;
+  }
+
+  const { form } = access;
+
+  if (form) {
+    if (normalizeNotionId(form.databaseId) !== normalizeNotionId(databaseId)) {
+      return { allowed: false, status: 403, error: 'Database does not belong to this form' };
+    }
+
+    if (!form.config.permissions?.allowList) {
+      return { allowed: false, status: 403, error: 'This form does not allow listing records' };
+    }
+  }
+
+  const filtersParam = searchParams.get('filters');
+  const sortProperty = searchParams.get('sort_property') || undefined;
+  const sortDirection = searchParams.get('sort_direction') as 'ascending' | 'descending' | undefined;
+  const search = (searchParams.get('search') || '').trim();
+  const searchPropertyIds = searchParams.get('search_properties')?.split(',').filter(Boolean) || null;
+  const dateProperty = searchParams.get('date_property');
+  const dateFrom = searchParams.get('date_from');
+  const dateTo = searchParams.get('date_to');
+
+  // Calendar views only load the days they show
+  if (dateProperty && ![dateFrom, dateTo].every(day => day && /^\d{4}-\d{2}-\d{2}$/.test(day))) {
+    return { allowed: false, status: 400, error: 'Invalid date range' };
+  }
+
+  let filters: FilterNode[] = [];
+  if (filtersParam) {
+    try {
+      filters = JSON.parse(filtersParam);
+    } catch {
+      return { allowed: false, status: 400, error: 'Invalid filters parameter' };
+    }
+  }
+
+  // Ad-hoc filters added by the list viewer, ANDed with the design-time filters
+  const userFilters = parseFiltersParam(searchParams.get('user_filters'));
+  if (!userFilters) {
+    return { allowed: false, status: 400, error: 'Invalid user_filters parameter' };
+  }
+
+  if (form) {
+    // Design-time filters always come from the form config, so viewers can only narrow the list
+    filters = form.config.listConfig?.filters || [];
+
+    // Viewers may only filter on properties the form shows them
+    const visibleIds = new Set(
+      form.config.fields.filter(f => f.visible !== false).map(f => f.notionPropertyId)
+    );
+    if (userFilters.some(f => !visibleIds.has(f.propertyId))) {
+      return { allowed: false, status: 403, error: 'Filtering on this property is not allowed' };
+    }
+
+    if (searchPropertyIds?.some(id => !visibleIds.has(id))) {
+      return { allowed: false, status: 403, error: 'Searching this property is not allowed' };
+    }
+
+    if (dateProperty && !visibleIds.has(dateProperty)) {
+      return { allowed: false, status: 403, error: 'Filtering on this property is not allowed' };
+    }
+  }
+
+  // Fetch the database schema for property names and types
+  const database = await getDatabase(notion, databaseId);
+
+  const dbProperties = (database as any).properties;
+  const propertyIdToName: Record<string, string> = {};
+  const propertyIdToType: Record<string, string> = {};
+
+  Object.entries(dbProperties).forEach(([name, prop]: [string, any]) => {
+    propertyIdToName[prop.id] = name;
+    propertyIdToType[prop.id] = prop.type;
+  });
+
+  const databaseTitle = ((database as any).title || []).map((t: any) => t.plain_text).join('');
+
+  const dateWindow = dateProperty && dateFrom && dateTo ? { propertyId: dateProperty, from: dateFrom, to: dateTo } : null;
+  const result = { allowed: true as const, form, dateWindow, databaseTitle, propertyIdToName, propertyIdToType };
+
+  // Full-text search matches any of the requested (or, by default, all visible) text properties
+  const searchNodes: FilterNode[] = [];
+  if (search) {
+    const candidateIds = searchPropertyIds
+      || (form
+        ? form.config.fields.filter(f => f.visible !== false).map(f => f.notionPropertyId)
+        : Object.keys(propertyIdToType));
+    const searchGroup = buildSearchGroup(
+      search,
+      candidateIds
+        .filter(id => propertyIdToType[id])
+        .map(id => ({ id, type: propertyIdToType[id] }))
+    );
+
+    if (searchGroup.filters.length === 0) {
+      return { ...result, query: null };
+    }
+
+    searchNodes.push(searchGroup);
+  }
+
+  const dateRangeNodes: FilterNode[] = [];
+  if (dateProperty) {
+    if (propertyIdToType[dateProperty] !== 'date') {
+      return { allowed: false, status: 400, error: 'Date range property must be a date' };
+    }
+
+    const lookbackFrom = toDateString(new Date(Date.parse(dateFrom!) - DATE_RANGE_LOOKBACK_DAYS * DAY_MS));
+    dateRangeNodes.push(
+      { propertyId: dateProperty, propertyType: 'date', operator: 'greater_than_or_equal_to', value: lookbackFrom },
+      { propertyId: dateProperty, propertyType: 'date', operator: 'less_than_or_equal_to', value: dateTo }
+    );
+  }
+
+  let notionFilter = buildFilterGroup('and', [...filters, ...userFilters, ...searchNodes, ...dateRangeNodes], {
+    notionUserId: formUser?.notionUserId || adminUser?.notionUserId || null,
+    now: new Date(),
+  });
+
+  // Checked before the owner condition is added, which doesn't deepen the filter
+  if (notionFilter && getNotionFilterDepth(notionFilter) > MAX_NOTION_FILTER_DEPTH) {
+    return { allowed: false, status: 400, error: 'Filter groups are nested too deeply' };
+  }
+
+  // Form users of an owner-scoped form only see their own rows
+  if (form?.config.ownerScope && !adminUser && formUser) {
+    const ownerFilter = buildOwnerFilter(form.config.ownerScope, formUser);
+
+    if (!ownerFilter) {
+      return { ...result, query: null };
+    }
+
+    if (notionFilter === null) {
+      notionFilter = ownerFilter;
+    } else if (notionFilter !== false) {
+      notionFilter = addAndCondition(notionFilter, ownerFilter);
+    }
+  }
+
+  // Nothing can match (e.g. "is me" for a viewer without a Notion user)
+  if (notionFilter === false) {
+    return { ...result, query: null };
+  }
+
+  const query: Record<string, any> = {
+    database_id: databaseId,
+  };
+
+  if (notionFilter) {
+    query.filter = notionFilter;
+  }
+
+  // Add sorting if specified
+  if (sortProperty && sortDirection) {
+    query.sorts = [
+      {
+        property: sortProperty,
+        direction: sortDirection,
+      },
+    ];
+  }
+
+  return { ...result, query };
+}
@@ -0,0 +1,325 @@
+import { SQL, sql } from 'drizzle-orm';
+import { mirroredPages } from './db/schema';
+
+// Evaluates Notion database queries (as built by buildListQuery) in Postgres
+// against mirrored pages, so mirrored lists filter, search and sort the way
+// Notion would without calling it. Each stored page keeps the values queries
+// use, by property ID (see getMirrorValues); filters and sorts become SQL over
+// them. Conditions the mirror doesn't know throw MirrorQueryError; callers then
+// query Notion instead.
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const TEXT_TYPES = ['title', 'rich_text', 'url', 'email', 'phone_number'];
+
+// Property types list queries can sort a mirrored database by
+const SORTABLE_TYPES = [
+  ...TEXT_TYPES,
+  'number', 'checkbox', 'select', 'status', 'multi_select', 'date', 'created_time', 'last_edited_time',
+  'people', 'created_by', 'last_edited_by', 'unique_id', 'formula',
+];
+
+export class MirrorQueryError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'MirrorQueryError';
+  }
+}
+
+export interface MirrorQuery {
+  filter?: Record<string, any>;
+  sorts?: { property: string; direction: 'ascending' | 'descending' }[];
+}
+
+export interface MirrorValues {
+  filterValues: Record<string, any>;
+  sortValues: Record<string, string | number>;
+}
+
+function toDay(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+function addMonths(date: Date, months: number): Date {
+  const result = new Date(date);
+  result.setUTCMonth(result.getUTCMonth() + months);
+  return result;
+}
+
+function getText(property: any): string {
+  if (property.type === 'title' || property.type === 'rich_text') {
+    return (property[property.type] || []).map((item: any) => item.plain_text ?? '').join('');
+  }
+  const value = property[property.type];
+  return typeof value === 'string' ? value : '';
+}
+
+// Filter value of a property: text, number, boolean, option name, list of
+// names or IDs, or the start of a date. Undefined when empty.
+function getFilterValue(property: any): any {
+  const type = property.type;
+  if (TEXT_TYPES.includes(type)) return getText(property) || undefined;
+
+  switch (type) {
+    case 'number':
+      return property.number ?? undefined;
+    case 'checkbox':
+      return !!property.checkbox;
+    case 'select':
+    case 'status':
+      return property[type]?.name || undefined;
+    case 'multi_select':
+      return (property.multi_select || []).map((option: any) => option.name);
+    case 'people':
+    case 'relation':
+      return (property[type] || []).map((item: any) => item.id);
+    case 'created_by':
+    case 'last_edited_by':
+      return property[type]?.id ? [property[type].id] : [];
+    case 'date':
+      return property.date?.start || undefined;
+    case 'created_time':
+    case 'last_edited_time':
+      return property[type] || undefined;
+    default:
+      return undefined;
+  }
+}
+
+// Value a property sorts by. Text sorts case-insensitively; select and status
+// options keep their name, as they sort in the database's option order.
+function getSortValue(property: any): string | number | undefined {
+  const type = property.type;
+  if (TEXT_TYPES.includes(type)) return getText(property).toLowerCase() || undefined;
+
+  switch (type) {
+    case 'number':
+      return property.number ?? undefined;
+    case 'checkbox':
+      return property.checkbox ? 1 : 0;
+    case 'select':
+    case 'status':
+      return property[type]?.name || undefined;
+    case 'multi_select':
+      return (property.multi_select || []).map((option: any) => option.name.toLowerCase()).join(', ') || undefined;
+    case 'date':
+      return property.date?.start || undefined;
+    case 'created_time':
+    case 'last_edited_time':
+      return property[type] || undefined;
+    case 'people':
+      return (property.people || []).map((user: any) => (user.name || '').toLowerCase()).join(', ') || undefined;
+    case 'created_by':
+    case 'last_edited_by':
+      return property[type]?.name?.toLowerCase() || undefined;
+    case 'unique_id':
+      return property.unique_id?.number ?? undefined;
+    case 'formula': {
+      const result = property.formula;
+      const value = result?.type === 'date' ? result.date?.start : result?.[result?.type];
+      return typeof value === 'boolean' ? Number(value) : value ?? undefined;
+    }
+    default:
+      return undefined;
+  }
+}
+
+// The values a page is filtered and sorted by, stored alongside it
+export function getMirrorValues(page: any): MirrorValues {
+  const filterValues: Record<string, any> = {};
+  const sortValues: Record<string, string | number> = {};
+
+  Object.values(page.properties || {}).forEach((property: any) => {
+    const filterValue = getFilterValue(property);
+    if (filterValue !== undefined) filterValues[property.id] = filterValue;
+
+    const sortValue = getSortValue(property);
+    if (sortValue !== undefined) sortValues[property.id] = sortValue;
+  });
+
+  return { filterValues, sortValues };
+}
+
+function getCondition(condition: Record<string, any>): [string, any] {
+  const [operator, expected] = Object.entries(condition || {})[0] || [];
+  return [operator, expected];
+}
+
+function textCondition(id: string, condition: Record<string, any>): SQL {
+  const [operator, expected] = getCondition(condition);
+  const text = sql`coalesce(${mirroredPages.filterValues} ->> ${id}::text, '')`;
+  const needle = sql`lower(${String(expected ?? '')}::text)`;
+  switch (operator) {
+    case 'equals': return sql`${text} = ${String(expected)}::text`;
+    case 'does_not_equal': return sql`${text} <> ${String(expected)}::text`;
+    case 'contains': return sql`strpos(lower(${text}), ${needle}) > 0`;
+    case 'does_not_contain': return sql`strpos(lower(${text}), ${needle}) = 0`;
+    case 'starts_with': return sql`starts_with(lower(${text}), ${needle})`;
+    case 'ends_with': return sql`right(lower(${text}), char_length(${needle})) = ${needle}`;
+    case 'is_empty': return sql`${text} = ''`;
+    case 'is_not_empty': return sql`${text} <> ''`;
+    default: throw new MirrorQueryError(`Unsupported text condition: ${operator}`);
+  }
+}
+
+function numberCondition(id: string, condition: Record<string, any>): SQL {
+  const [operator, expected] = getCondition(condition);
+  const value = sql`(${mirroredPages.filterValues} ->> ${id}::text)::numeric`;
+  const target = sql`${Number(expected)}::numeric`;
+  switch (operator) {
+    case 'is_empty': return sql`${value} IS NULL`;
+    case 'is_not_empty': return sql`${value} IS NOT NULL`;
+    case 'equals': return sql`${value} = ${target}`;
+    case 'does_not_equal': return sql`${value} IS DISTINCT FROM ${target}`;
+    case 'greater_than': return sql`${value} > ${target}`;
+    case 'less_than': return sql`${value} < ${target}`;
+    case 'greater_than_or_equal_to': return sql`${value} >= ${target}`;
+    case 'less_than_or_equal_to': return sql`${value} <= ${target}`;
+    default: throw new MirrorQueryError(`Unsupported number condition: ${operator}`);
+  }
+}
+
+// Select and status: one option name or none
+function optionCondition(id: string, condition: Record<string, any>): SQL {
+  const [operator, expected] = getCondition(condition);
+  const name = sql`${mirroredPages.filterValues} ->> ${id}::text`;
+  switch (operator) {
+    case 'equals': return sql`${mirroredPages.filterValues} @> jsonb_build_object(${id}::text, ${String(expected)}::text)`;
+    case 'does_not_equal': return sql`${name} IS DISTINCT FROM ${String(expected)}::text`;
+    case 'is_empty': return sql`${name} IS NULL`;
+    case 'is_not_empty': return sql`${name} IS NOT NULL`;
+    default: throw new MirrorQueryError(`Unsupported select condition: ${operator}`);
+  }
+}
+
+// Multi-select names, people and relation IDs
+function listCondition(id: string, condition: Record<string, any>): SQL {
+  const [operator, expected] = getCondition(condition);
+  const contains = sql`${mirroredPages.filterValues} @> jsonb_build_object(${id}::text, jsonb_build_array(${String(expected)}::text))`;
+  const length = sql`jsonb_array_length(coalesce(${mirroredPages.filterValues} -> ${id}::text, '[]'::jsonb))`;
+  switch (operator) {
+    case 'contains': return contains;
+    case 'does_not_contain': return sql`NOT (${contains})`;
+    case 'is_empty': return sql`${length} = 0`;
+    case 'is_not_empty': return sql`${length} > 0`;
+    default: throw new MirrorQueryError(`Unsupported condition: ${operator}`);
+  }
+}
+
+// Relative date conditions as [first, last] days
+function getRelativeRange(operator: string, now: Date): [string, string] | null {
+  const today = toDay(now);
+  switch (operator) {
+    case 'past_week': return [toDay(new Date(now.getTime() - 7 * DAY_MS)), today];
+    case 'past_month': return [toDay(addMonths(now, -1)), today];
+    case 'past_year': return [toDay(addMonths(now, -12)), today];
+    case 'next_week': return [today, toDay(new Date(now.getTime() + 7 * DAY_MS))];
+    case 'next_month': return [today, toDay(addMonths(now, 1))];
+    case 'next_year': return [today, toDay(addMonths(now, 12))];
+    case 'this_week': {
+      // Weeks start on Sunday, as in Notion
+      const start = new Date(now.getTime() - now.getUTCDay() * DAY_MS);
+      return [toDay(start), toDay(new Date(start.getTime() + 6 * DAY_MS))];
+    }
+    default: return null;
+  }
+}
+
+// Dates compare by the day they start on. `start` is the start as text, null when empty.
+function dateCondition(start: SQL, condition: Record<string, any>, now: Date): SQL {
+  const [operator, expected] = getCondition(condition);
+  if (operator === 'is_empty') return sql`${start} IS NULL`;
+  if (operator === 'is_not_empty') return sql`${start} IS NOT NULL`;
+
+  const day = sql`left(${start}, 10)`;
+  const range = getRelativeRange(operator, now);
+  if (range) return sql`${day} BETWEEN ${range[0]}::text AND ${range[1]}::text`;
+
+  const target = sql`${String(expected).slice(0, 10)}::text`;
+  switch (operator) {
+    case 'equals': return sql`${day} = ${target}`;
+    case 'before': return sql`${day} < ${target}`;
+    case 'after': return sql`${day} > ${target}`;
+    case 'on_or_before': return sql`${day} <= ${target}`;
+    case 'on_or_after': return sql`${day} >= ${target}`;
+    default: throw new MirrorQueryError(`Unsupported date condition: ${operator}`);
+  }
+}
+
+function propertyCondition(id: string, type: string, condition: Record<string, any>, now: Date): SQL {
+  if (TEXT_TYPES.includes(type)) return textCondition(id, condition);
+
+  switch (type) {
+    case 'number':
+      return numberCondition(id, condition);
+    case 'checkbox':
+      if (!('equals' in condition)) throw new MirrorQueryError('Unsupported checkbox condition');
+      return sql`coalesce((${mirroredPages.filterValues} ->> ${id}::text)::boolean, false) = ${!!condition.equals}::boolean`;
+    case 'select':
+    case 'status':
+      return optionCondition(id, condition);
+    case 'multi_select':
+    case 'people':
+    case 'relation':
+    case 'created_by':
+    case 'last_edited_by':
+      return listCondition(id, condition);
+    case 'date':
+    case 'created_time':
+    case 'last_edited_time':
+      return dateCondition(sql`${mirroredPages.filterValues} ->> ${id}::text`, condition, now);
+    default:
+      throw new MirrorQueryError(`Unsupported filter type: ${type}`);
+  }
+}
+
+// SQL condition for a Notion filter
+export function buildMirrorFilter(filter: Record<string, any>, now: Date = new Date()): SQL {
+  if (Array.isArray(filter.and) || Array.isArray(filter.or)) {
+    const children: SQL[] = (filter.and || filter.or).map((child: any) => buildMirrorFilter(child, now));
+    if (children.length === 0) return filter.and ? sql`true` : sql`false`;
+    return sql`(${sql.join(children, filter.and ? sql` AND ` : sql` OR `)})`;
+  }
+  if (filter.timestamp === 'created_time' || filter.timestamp === 'last_edited_time') {
+    const column = filter.timestamp === 'created_time' ? mirroredPages.createdTime : mirroredPages.lastEditedTime;
+    return dateCondition(sql`to_char(${column}, 'YYYY-MM-DD')`, filter[filter.timestamp], now);
+  }
+
+  const type = Object.keys(filter).find(key => key !== 'property');
+  if (!filter.property || !type) throw new MirrorQueryError('Unsupported filter');
+  return propertyCondition(filter.property, type, filter[type], now);
+}
+
+// SQL sort order for Notion sorts; empty values sort last in both directions.
+// Select and status options sort in the database's option order, as in Notion.
+// Without sorts, newest pages come first. `schema` is the database's
+// properties, keyed by name.
+export function buildMirrorOrder(sorts: MirrorQuery['sorts'], schema: Record<string, any>): SQL[] {
+  const schemaById = new Map<string, any>();
+  Object.values(schema).forEach((property: any) => schemaById.set(property.id, property));
+
+  const order: SQL[] = [];
+  (sorts || []).forEach(sort => {
+    const property = schemaById.get(sort.property);
+    if (!property || !SORTABLE_TYPES.includes(property.type)) {
+      throw new MirrorQueryError(`Unsupported sort type: ${property?.type}`);
+    }
+
+    const direction = sort.direction === 'descending' ? sql.raw('DESC NULLS LAST') : sql.raw('ASC NULLS LAST');
+    const value = sql`(${mirroredPages.sortValues} -> ${sort.property}::text)`;
+
+    if (property.type === 'select' || property.type === 'status') {
+      const options: SQL[] = (property[property.type]?.options || []).map((option: any) => sql`${option.name}::text`);
+      if (options.length > 0) {
+        order.push(sql`array_position(ARRAY[${sql.join(options, sql`, `)}], ${value} #>> '{}') ${direction}`);
+      }
+    }
+
+    // Numbers before text, as a formula may give either
+    order.push(sql`(CASE WHEN jsonb_typeof(${value}) = 'number' THEN (${value} #>> '{}')::numeric END) ${direction}`);
+    order.push(sql`(CASE WHEN jsonb_typeof(${value}) = 'string' THEN lower(${value} #>> '{}') END) ${direction}`);
+  });
+
+  order.push(sql`${mirroredPages.createdTime} DESC`);
+  return order;
+}
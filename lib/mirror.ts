@@ -0,0 +1,295 @@
+import { Client, APIErrorCode, isNotionClientError } from '@notionhq/client';
+import { SQL, and, eq, lt, sql } from 'drizzle-orm';
+import { db } from './db/client-postgres';
+import { mirroredDatabases, mirroredPages, MirroredDatabase } from './db/schema';
+import { normalizeNotionId } from './form-config';
+import { getDatabase } from './notion';
+import { buildMirrorFilter, buildMirrorOrder, getMirrorValues, MirrorQuery, MirrorQueryError } from './mirror-query';
+
+// Optional Postgres mirror of Notion databases, enabled per database. List
+// queries on a mirrored database are answered from Postgres. The mirror is kept
+// current by incremental syncs (pages edited since the last sync), periodic
+// full syncs (which also drop deleted pages), Notion webhooks, and by writing
+// through pages created, edited or archived here.
+
+// A list is synced before it's served when the last sync is older than this
+const MIRROR_MAX_AGE_MS = 30 * 1000;
+// Full syncs catch deletions when webhooks aren't set up
+const FULL_SYNC_INTERVAL_MS = 6 * 60 * 60 * 1000;
+
+// Cursors of mirrored lists are offsets, told apart from Notion's cursors by this prefix
+const MIRROR_CURSOR_PREFIX = 'mirror:';
+
+export interface MirrorStatus {
+  enabled: boolean;
+  pageCount: number;
+  lastSyncedAt: Date | null;
+  lastFullSyncAt: Date | null;
+  syncError: string | null;
+}
+
+export interface MirrorQueryResult {
+  results: any[];
+  hasMore: boolean;
+  nextCursor: string | null;
+}
+
+// Syncs in progress by database, so concurrent requests share one
+const runningSyncs = new Map<string, Promise<void>>();
+
+async function getMirroredDatabase(databaseId: string): Promise<MirroredDatabase | null> {
+  const [mirror] = await db
+    .select()
+    .from(mirroredDatabases)
+    .where(eq(mirroredDatabases.databaseId, normalizeNotionId(databaseId)))
+    .limit(1);
+  return mirror || null;
+}
+
+// Store pages of a mirrored database. A stored copy is only replaced by one at
+// least as recent, so a slow sync or write response can't undo a newer webhook
+// update (or the other way round).
+async function upsertPages(databaseId: string, pages: any[], syncedAt: Date) {
+  if (pages.length === 0) return;
+
+  await db
+    .insert(mirroredPages)
+    .values(pages.map(page => ({
+      pageId: normalizeNotionId(page.id),
+      databaseId,
+      data: JSON.stringify(page),
+      ...getMirrorValues(page),
+      createdTime: new Date(page.created_time),
+      lastEditedTime: new Date(page.last_edited_time),
+      syncedAt,
+    })))
+    .onConflictDoUpdate({
+      target: mirroredPages.pageId,
+      set: {
+        databaseId: sql`excluded.database_id`,
+        data: sql`excluded.data`,
+        filterValues: sql`excluded.filter_values`,
+        sortValues: sql`excluded.sort_values`,
+        lastEditedTime: sql`excluded.last_edited_time`,
+        syncedAt: sql`excluded.synced_at`,
+      },
+      setWhere: sql`${mirroredPages.lastEditedTime} <= excluded.last_edited_time`,
+    });
+}
+
+async function runSync(notion: Client, mirror: MirroredDatabase, full: boolean) {
+  const startedAt = new Date();
+  let newest = full ? null : mirror.lastEditedCursor;
+
+  try {
+    const query: any = {
+      database_id: mirror.databaseId,
+      sorts: [{ timestamp: 'last_edited_time', direction: 'ascending' }],
+      page_size: 100,
+    };
+
+    // Notion's edit times are rounded to the minute, so pages edited in the
+    // cursor's minute are fetched again; storing them twice is harmless
+    if (!full && mirror.lastEditedCursor) {
+      query.filter = {
+        timestamp: 'last_edited_time',
+        last_edited_time: { on_or_after: mirror.lastEditedCursor.toISOString() },
+      };
+    }
+
+    do {
+      const response = await notion.databases.query(query);
+      const pages = response.results.filter((page: any) => page.object === 'page' && page.properties);
+      await upsertPages(mirror.databaseId, pages, startedAt);
+
+      pages.forEach((page: any) => {
+        const editedAt = new Date(page.last_edited_time);
+        if (!newest || editedAt > newest) newest = editedAt;
+      });
+      query.start_cursor = response.has_more ? response.next_cursor || undefined : undefined;
+    } while (query.start_cursor);
+
+    // Pages a full sync didn't see were deleted or archived in Notion
+    if (full) {
+      await db
+        .delete(mirroredPages)
+        .where(and(eq(mirroredPages.databaseId, mirror.databaseId), lt(mirroredPages.syncedAt, startedAt)));
+    }
+
+    await db
+      .update(mirroredDatabases)
+      .set({
+        lastEditedCursor: newest,
+        lastSyncedAt: startedAt,
+        ...(full && { lastFullSyncAt: startedAt }),
+        syncError: null,
+        updatedAt: new Date(),
+      })
+      .where(eq(mirroredDatabases.id, mirror.id));
+  } catch (error) {
+    await db
+      .update(mirroredDatabases)
+      .set({ syncError: error instanceof Error ? error.message : 'Sync failed', updatedAt: new Date() })
+      .where(eq(mirroredDatabases.id, mirror.id));
+    throw error;
+  }
+}
+
+// Bring a mirrored database up to date: pages edited since the last sync, or
+// every page for a full sync (always the first time). Joins a sync already running.
+export function syncMirror(notion: Client, mirror: MirroredDatabase, options: { full?: boolean } = {}): Promise<void> {
+  const running = runningSyncs.get(mirror.databaseId);
+  if (running) return running;
+
+  const sync = runSync(notion, mirror, !!options.full || !mirror.lastFullSyncAt)
+    .finally(() => runningSyncs.delete(mirror.databaseId));
+  runningSyncs.set(mirror.databaseId, sync);
+  return sync;
+}
+
+export function isMirrorCursor(cursor: string): boolean {
+  return cursor.startsWith(MIRROR_CURSOR_PREFIX);
+}
+
+// A page of results for a list query from the mirror, or null when the
+// database isn't mirrored or the query needs Notion (e.g. a filter the mirror
+// can't evaluate, or a Notion cursor from before the mirror was enabled)
+export async function queryMirror(
+  notion: Client,
+  databaseId: string,
+  query: MirrorQuery,
+  options: { pageSize: number; startCursor?: string }
+): Promise<MirrorQueryResult | null> {
+  if (options.startCursor && !isMirrorCursor(options.startCursor)) return null;
+
+  const mirror = await getMirroredDatabase(databaseId);
+  if (!mirror) return null;
+
+  const age = mirror.lastSyncedAt ? Date.now() - mirror.lastSyncedAt.getTime() : Infinity;
+
+  if (!mirror.lastFullSyncAt) {
+    // Nothing to serve until the first full sync is done
+    await syncMirror(notion, mirror);
+  } else if (Date.now() - mirror.lastFullSyncAt.getTime() > FULL_SYNC_INTERVAL_MS) {
+    syncMirror(notion, mirror, { full: true }).catch(error => {
+      console.error('Error syncing mirrored database:', error);
+    });
+  } else if (age > MIRROR_MAX_AGE_MS && !runningSyncs.has(mirror.databaseId)) {
+    // A failed sync still leaves the last synced rows to serve
+    await syncMirror(notion, mirror).catch(error => {
+      console.error('Error syncing mirrored database:', error);
+    });
+  }
+
+  const database = await getDatabase(notion, databaseId);
+
+  let where: SQL | undefined;
+  let orderBy: SQL[];
+  try {
+    where = query.filter ? buildMirrorFilter(query.filter) : undefined;
+    orderBy = buildMirrorOrder(query.sorts, database.properties || {});
+  } catch (error) {
+    if (error instanceof MirrorQueryError) return null;
+    throw error;
+  }
+
+  const offset = options.startCursor ? parseInt(options.startCursor.slice(MIRROR_CURSOR_PREFIX.length)) || 0 : 0;
+
+  // One row past the page tells whether there are more
+  const rows = await db
+    .select({ data: mirroredPages.data })
+    .from(mirroredPages)
+    .where(and(eq(mirroredPages.databaseId, mirror.databaseId), where))
+    .orderBy(...orderBy)
+    .limit(options.pageSize + 1)
+    .offset(offset);
+
+  const hasMore = rows.length > options.pageSize;
+  const end = offset + options.pageSize;
+
+  return {
+    results: rows.slice(0, options.pageSize).map(row => JSON.parse(row.data)),
+    hasMore,
+    nextCursor: hasMore ? `${MIRROR_CURSOR_PREFIX}${end}` : null,
+  };
+}
+
+// Write a page created or edited here (or fetched for a webhook) through to
+// the mirror, if its database is mirrored. Mirror errors never fail the write.
+export async function mirrorPage(page: any): Promise<void> {
+  const databaseId = page?.parent?.database_id;
+  if (!databaseId) return;
+
+  try {
+    if (page.archived || page.in_trash) {
+      await removeMirroredPage(page.id);
+      return;
+    }
+
+    const mirror = await getMirroredDatabase(databaseId);
+    if (mirror) {
+      await upsertPages(mirror.databaseId, [page], new Date());
+    }
+  } catch (error) {
+    console.error('Error updating mirrored page:', error);
+  }
+}
+
+export async function removeMirroredPage(pageId: string): Promise<void> {
+  try {
+    await db.delete(mirroredPages).where(eq(mirroredPages.pageId, normalizeNotionId(pageId)));
+  } catch (error) {
+    console.error('Error removing mirrored page:', error);
+  }
+}
+
+// Re-read a page from Notion into the mirror (webhook events only name the page)
+export async function refreshMirroredPage(notion: Client, pageId: string): Promise<void> {
+  try {
+    await mirrorPage(await notion.pages.retrieve({ page_id: pageId }));
+  } catch (error) {
+    if (isNotionClientError(error) && error.code === APIErrorCode.ObjectNotFound) {
+      await removeMirroredPage(pageId);
+      return;
+    }
+    throw error;
+  }
+}
+
+export async function getMirrorStatus(databaseId: string): Promise<MirrorStatus> {
+  const mirror = await getMirroredDatabase(databaseId);
+  if (!mirror) {
+    return { enabled: false, pageCount: 0, lastSyncedAt: null, lastFullSyncAt: null, syncError: null };
+  }
+
+  const [{ count }] = await db
+    .select({ count: sql<number>`count(*)::int` })
+    .from(mirroredPages)
+    .where(eq(mirroredPages.databaseId, mirror.databaseId));
+
+  return {
+    enabled: true,
+    pageCount: count,
+    lastSyncedAt: mirror.lastSyncedAt,
+    lastFullSyncAt: mirror.lastFullSyncAt,
+    syncError: mirror.syncError,
+  };
+}
+
+// Start mirroring a database (if it isn't already) and run a full sync
+export async function enableMirror(notion: Client, databaseId: string): Promise<void> {
+  await db
+    .insert(mirroredDatabases)
+    .values({ databaseId: normalizeNotionId(databaseId) })
+    .onConflictDoNothing();
+
+  const mirror = await getMirroredDatabase(databaseId);
+  if (mirror) {
+    await syncMirror(notion, mirror, { full: true });
+  }
+}
+
+// Stop mirroring a database; its mirrored pages are deleted with it
+export async function disableMirror(databaseId: string): Promise<void> {
+  await db.delete(mirroredDatabases).where(eq(mirroredDatabases.databaseId, normalizeNotionId(databaseId)));
+}
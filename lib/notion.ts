@@ -0,0 +1,197 @@
+import { APIErrorCode, Client, ClientErrorCode, isNotionClientError } from '@notionhq/client';
+import { NextResponse } from 'next/server';
+
+// Shared Notion API access for server routes: one client whose requests are
+// paced to Notion's rate limit and retried when rate-limited, cached database
+// schemas and workspace users, and consistent HTTP responses for Notion errors.
+
+// Notion allows an average of three requests per second per integration
+const REQUEST_INTERVAL_MS = 340;
+const MAX_RETRIES = 3;
+const MAX_RETRY_DELAY_MS = 30 * 1000;
+
+const DATABASE_TTL_MS = 60 * 1000;
+const USERS_TTL_MS = 5 * 60 * 1000;
+
+export interface WorkspaceUser {
+  id: string;
+  name: string | null;
+  email: string | null;
+  avatarUrl: string | null;
+}
+
+interface CacheEntry<T> {
+  value: Promise<T>;
+  expiresAt: number;
+}
+
+type RequestArgs = Parameters<Client['request']>[0];
+
+// Earliest time the next request may start
+let nextRequestAt = 0;
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+// Wait for a request's turn. Requests start at most once per REQUEST_INTERVAL_MS
+// across the server, in the order they asked. Exported for calls made without
+// the client (file uploads).
+export function waitForNotionTurn(): Promise<void> {
+  const now = Date.now();
+  const startAt = Math.max(now, nextRequestAt);
+  nextRequestAt = startAt + REQUEST_INTERVAL_MS;
+  return startAt > now ? sleep(startAt - now) : Promise.resolve();
+}
+
+function getRetryAfter(error: any): string | null {
+  return error?.headers?.get?.('retry-after') || null;
+}
+
+// Delay before retrying a rate-limited request: Notion's Retry-After, else exponential backoff
+function getRetryDelay(error: any, attempt: number): number {
+  const seconds = Number(getRetryAfter(error));
+  const delay = seconds > 0 ? seconds * 1000 : 1000 * 2 ** attempt;
+  return Math.min(delay, MAX_RETRY_DELAY_MS);
+}
+
+// Every endpoint method goes through `request`, so pacing and retries apply to all of them
+class PacedClient extends Client {
+  async request<ResponseBody>(args: RequestArgs): Promise<ResponseBody> {
+    for (let attempt = 0; ; attempt++) {
+      await waitForNotionTurn();
+      try {
+        return await super.request<ResponseBody>(args);
+      } catch (error) {
+        if (!isNotionClientError(error) || error.code !== APIErrorCode.RateLimited || attempt >= MAX_RETRIES) {
+          throw error;
+        }
+        const delay = getRetryDelay(error, attempt);
+        // Hold back every queued request, not just this one
+        nextRequestAt = Math.max(nextRequestAt, Date.now() + delay);
+        await sleep(delay);
+      }
+    }
+  }
+}
+
+let shared: { apiKey: string; client: Client } | null = null;
+
+// The server's Notion client, or null when NOTION_API_KEY isn't set
+export function getNotionClient(): Client | null {
+  const apiKey = process.env.NOTION_API_KEY;
+  if (!apiKey) return null;
+  if (shared?.apiKey !== apiKey) {
+    shared = { apiKey, client: new PacedClient({ auth: apiKey }) };
+  }
+  return shared.client;
+}
+
+const databaseCache = new Map<string, CacheEntry<any>>();
+let usersCache: CacheEntry<WorkspaceUser[]> | null = null;
+
+function databaseKey(databaseId: string): string {
+  return databaseId.replace(/-/g, '').toLowerCase();
+}
+
+// A database with its properties, cached for DATABASE_TTL_MS. `fresh` skips
+// the cache (and refreshes it), e.g. for the form builder.
+export function getDatabase(notion: Client, databaseId: string, options: { fresh?: boolean } = {}): Promise<any> {
+  const key = databaseKey(databaseId);
+  const entry = databaseCache.get(key);
+  if (!options.fresh && entry && entry.expiresAt > Date.now()) {
+    return entry.value;
+  }
+
+  // Pending requests are cached too, so concurrent callers share one request
+  const value = notion.databases.retrieve({ database_id: databaseId });
+  databaseCache.set(key, { value, expiresAt: Date.now() + DATABASE_TTL_MS });
+  value.catch(() => {
+    if (databaseCache.get(key)?.value === value) databaseCache.delete(key);
+  });
+  return value;
+}
+
+// Drop a cached schema, e.g. after writes that can add select options
+export function invalidateDatabase(databaseId: string) {
+  databaseCache.delete(databaseKey(databaseId));
+}
+
+async function fetchWorkspaceUsers(notion: Client): Promise<WorkspaceUser[]> {
+  const users: WorkspaceUser[] = [];
+  let cursor: string | undefined;
+
+  do {
+    const response = await notion.users.list({ start_cursor: cursor, page_size: 100 });
+    response.results.forEach((user: any) => {
+      if (user.type !== 'person') return;
+      users.push({
+        id: user.id,
+        name: user.name || null,
+        email: user.person?.email || null,
+        avatarUrl: user.avatar_url || null,
+      });
+    });
+    cursor = response.has_more ? response.next_cursor || undefined : undefined;
+  } while (cursor);
+
+  return users;
+}
+
+// People in the workspace (bots excluded), cached for USERS_TTL_MS
+export function getWorkspaceUsers(notion: Client, options: { fresh?: boolean } = {}): Promise<WorkspaceUser[]> {
+  if (!options.fresh && usersCache && usersCache.expiresAt > Date.now()) {
+    return usersCache.value;
+  }
+  const value = fetchWorkspaceUsers(notion);
+  usersCache = { value, expiresAt: Date.now() + USERS_TTL_MS };
+  value.catch(() => {
+    if (usersCache?.value === value) usersCache = null;
+  });
+  return value;
+}
+
+export function invalidateWorkspaceUsers() {
+  usersCache = null;
+}
+
+// Status and default message for each Notion error code
+const NOTION_ERRORS: Record<string, { status: number; message: (error: any) => string }> = {
+  [APIErrorCode.ValidationError]: { status: 400, message: error => `Validation error: ${error.message}` },
+  [APIErrorCode.InvalidJSON]: { status: 400, message: error => `Invalid request: ${error.message}` },
+  [APIErrorCode.InvalidRequest]: { status: 400, message: error => `Invalid request: ${error.message}` },
+  [APIErrorCode.InvalidRequestURL]: { status: 400, message: error => `Invalid request: ${error.message}` },
+  [APIErrorCode.ObjectNotFound]: { status: 404, message: () => 'Not found in Notion, or not shared with the integration' },
+  [APIErrorCode.RestrictedResource]: { status: 403, message: () => 'The integration does not have access to this resource' },
+  [APIErrorCode.Unauthorized]: { status: 502, message: () => 'Notion rejected the integration token' },
+  [APIErrorCode.ConflictError]: { status: 409, message: () => 'Notion could not save a conflicting change, please retry' },
+  [APIErrorCode.RateLimited]: { status: 429, message: () => 'Notion rate limit reached, please retry shortly' },
+  [APIErrorCode.InternalServerError]: { status: 502, message: () => 'Notion returned an error, please retry' },
+  [APIErrorCode.ServiceUnavailable]: { status: 503, message: () => 'Notion is temporarily unavailable, please retry' },
+  [ClientErrorCode.ResponseError]: { status: 502, message: () => 'Notion returned an unexpected response' },
+  [ClientErrorCode.RequestTimeout]: { status: 504, message: () => 'Notion did not respond in time' },
+};
+
+// JSON error response for an error thrown while calling Notion. Notion errors
+// get the status for their code, worded by `messages` when the route has its
+// own text for that code; other errors are a 500 with `fallback`.
+export function notionErrorResponse(
+  error: unknown,
+  fallback: string,
+  messages: Partial<Record<string, string>> = {}
+): NextResponse {
+  const mapped = isNotionClientError(error) ? NOTION_ERRORS[error.code] : undefined;
+  if (!isNotionClientError(error) || !mapped) {
+    return NextResponse.json({ error: fallback }, { status: 500 });
+  }
+
+  // Let callers (e.g. the CSV import) back off and retry
+  const headers = error.code === APIErrorCode.RateLimited
+    ? { 'Retry-After': getRetryAfter(error) || '1' }
+    : undefined;
+
+  return NextResponse.json(
+    { error: messages[error.code] || mapped.message(error) },
+    { status: mapped.status, headers }
+  );
+}
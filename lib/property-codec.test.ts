@@ -0,0 +1,186 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import fixtures from './__fixtures__/notion-properties.json';
+import { fromNotionProperty, isSameValue, toNotionProperty } from './property-codec';
+
+// Property objects recorded from Notion API page responses
+const FIXTURES: Record<string, any> = fixtures;
+
+// Notion echoes a written payload back as a property of the same type
+function writeAndRead(type: string, value: any): any {
+  const payload = toNotionProperty(type, value);
+  assert.ok(payload, `${type} should write a payload`);
+  return fromNotionProperty({ type, ...payload });
+}
+
+describe('property codec', () => {
+  describe('round-trips writable properties', () => {
+    const cases = [
+      'title',
+      'rich_text_plain',
+      'rich_text_formatted',
+      'number',
+      'checkbox',
+      'select',
+      'status',
+      'multi_select',
+      'date',
+      'date_time',
+      'date_range_zoned',
+      'url',
+      'email',
+      'phone_number',
+      'relation',
+      'files',
+    ];
+
+    cases.forEach(name => {
+      it(name, () => {
+        const property = FIXTURES[name];
+        const value = fromNotionProperty(property);
+        assert.deepEqual(writeAndRead(property.type, value), value);
+      });
+    });
+
+    // Written people only carry IDs; Notion fills in names and emails
+    it('people', () => {
+      const value = fromNotionProperty(FIXTURES.people);
+      const ids = value.map((user: any) => user.id);
+      assert.deepEqual(writeAndRead('people', value).map((user: any) => user.id), ids);
+      assert.deepEqual(writeAndRead('people', ids).map((user: any) => user.id), ids);
+    });
+
+    it('mentions are written back by ID', () => {
+      const value = fromNotionProperty(FIXTURES.rich_text_mention);
+      assert.deepEqual(toNotionProperty('rich_text', value).rich_text[1], {
+        type: 'mention',
+        mention: { type: 'user', user: { id: '6794760a-1f15-45cd-9c65-0dfe42f5135a' } },
+      });
+    });
+  });
+
+  describe('reads values', () => {
+    const expected: Record<string, any> = {
+      title: 'Quarterly report',
+      rich_text_plain: 'Call the supplier before Friday',
+      rich_text_formatted: [
+        { text: 'See ' },
+        { text: 'the spec', annotations: { italic: true }, href: 'https://example.com/spec' },
+        { text: ' for ', annotations: { color: 'red' } },
+        { text: 'E = mc^2', equation: true },
+      ],
+      number: 1250.5,
+      checkbox: true,
+      select: 'High',
+      status: 'In progress',
+      multi_select: ['Finance', 'Q3'],
+      date: '2024-05-14',
+      date_time: '2024-05-14T09:30:00.000+00:00',
+      date_range_zoned: { start: '2024-05-14T09:30', end: '2024-05-16T17:00', timeZone: 'Europe/Berlin' },
+      people: [
+        { id: '6794760a-1f15-45cd-9c65-0dfe42f5135a', name: 'Ada Lovelace', email: 'ada@example.com' },
+        { id: '92a680bb-6970-4726-952b-4f4c03bff617', name: 'Charles Babbage', email: 'charles@example.com' },
+      ],
+      relation: ['dd456007-6c66-4bba-957e-ea501dcda3a6', '0c1f7cb2-8090-4f18-924e-d92965055e32'],
+      files: [
+        {
+          name: 'invoice-1042.pdf',
+          type: 'file',
+          url: 'https://prod-files-secure.s3.us-west-2.amazonaws.com/7b8b0713/invoice-1042.pdf?X-Amz-Algorithm=AWS4-HMAC-SHA256&X-Amz-Expires=3600',
+        },
+        { name: 'Brief', type: 'external', url: 'https://example.com/brief.docx' },
+      ],
+      formula_string: 'Quarterly report (High)',
+      formula_number: 42,
+      formula_boolean: false,
+      formula_date: '2024-06-01',
+      rollup_number: 3,
+      rollup_date: { start: '2024-04-02', end: '2024-04-30', timeZone: null },
+      rollup_array: ['High', 7],
+      created_time: '2024-05-10T08:12:00.000Z',
+      last_edited_time: '2024-05-14T09:41:00.000Z',
+      created_by: { id: '6794760a-1f15-45cd-9c65-0dfe42f5135a', name: 'Ada Lovelace' },
+      last_edited_by: { id: '92a680bb-6970-4726-952b-4f4c03bff617', name: 'Charles Babbage' },
+      unique_id: 'INV-1042',
+      unique_id_no_prefix: '17',
+      verification: 'verified',
+      button: null,
+    };
+
+    Object.entries(expected).forEach(([name, value]) => {
+      it(name, () => {
+        assert.deepEqual(fromNotionProperty(FIXTURES[name]), value);
+      });
+    });
+  });
+
+  it('writes nothing for read-only types', () => {
+    ['formula', 'rollup', 'created_time', 'last_edited_time', 'created_by', 'last_edited_by', 'unique_id', 'verification', 'button']
+      .forEach(type => {
+        const property = Object.values(FIXTURES).find(p => p.type === type);
+        assert.equal(toNotionProperty(type, fromNotionProperty(property) ?? 'x'), undefined, type);
+      });
+  });
+
+  describe('clearing', () => {
+    const clears: Record<string, any> = {
+      title: { title: [] },
+      rich_text: { rich_text: [] },
+      number: { number: null },
+      checkbox: { checkbox: false },
+      select: { select: null },
+      multi_select: { multi_select: [] },
+      date: { date: null },
+      url: { url: null },
+      email: { email: null },
+      phone_number: { phone_number: null },
+      people: { people: [] },
+      relation: { relation: [] },
+      files: { files: [] },
+    };
+
+    Object.entries(clears).forEach(([type, payload]) => {
+      it(type, () => {
+        [undefined, null, '', []].forEach(empty => {
+          assert.deepEqual(toNotionProperty(type, empty, { clear: true }), payload);
+          assert.equal(toNotionProperty(type, empty), undefined);
+        });
+      });
+    });
+
+    it('status and read-only types have no clear payload', () => {
+      ['status', 'formula', 'unique_id', 'verification', 'button'].forEach(type => {
+        assert.equal(toNotionProperty(type, null, { clear: true }), undefined, type);
+      });
+    });
+  });
+
+  describe('isSameValue', () => {
+    it('treats all empty values alike', () => {
+      assert.ok(isSameValue('rich_text', '', null));
+      assert.ok(isSameValue('multi_select', [], undefined));
+      assert.ok(!isSameValue('rich_text', '', 'text'));
+    });
+
+    it('compares what would be written', () => {
+      assert.ok(isSameValue('number', '5', 5));
+      assert.ok(isSameValue('rich_text', 'Call the supplier', [{ text: 'Call the supplier' }]));
+      assert.ok(!isSameValue('rich_text', 'Call the supplier', [{ text: 'Call the supplier', annotations: { bold: true } }]));
+      assert.ok(isSameValue('date', '2024-05-14', { start: '2024-05-14', end: null, timeZone: null }));
+      assert.ok(!isSameValue('select', 'High', 'Low'));
+    });
+
+    it('compares people by ID', () => {
+      const people = fromNotionProperty(FIXTURES.people);
+      assert.ok(isSameValue('people', people, people.map((user: any) => user.id)));
+      assert.ok(!isSameValue('people', people, [people[0].id]));
+    });
+
+    it('compares files by name, as their URLs expire', () => {
+      const files = fromNotionProperty(FIXTURES.files);
+      const refreshed = files.map((file: any) => ({ ...file, url: `${file.url}&refreshed=1` }));
+      assert.ok(isSameValue('files', files, refreshed));
+      assert.ok(!isSameValue('files', files, files.slice(1)));
+    });
+  });
+});
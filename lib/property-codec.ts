@@ -0,0 +1,223 @@
+import { NotionPropertyType } from '@/types/form';
+import { toNotionFiles } from './file-storage';
+import { fromNotionRichText, getPlainText, toNotionRichText } from './rich-text';
+import { fromNotionDate, toNotionDate } from './date-value';
+
+// Conversion between Notion property values and the values forms, lists and
+// exports work with. Each property type has one codec: `read` turns a Notion
+// property into a value, and `write` (absent for read-only types) turns a
+// value back into the Notion property payload, so write(read(p)) reproduces p.
+//
+// Values by type:
+// - title: plain text
+// - rich_text: string, or RichTextSegment[] when formatted
+// - select, status: option name; multi_select: option names
+// - date: 'YYYY-MM-DD' / ISO string, or DateRangeValue
+// - people: { id, name, email }[] (writes also take user IDs)
+// - created_by, last_edited_by: { id, name }
+// - relation: page IDs; files: FileValue[]
+// - unique_id: display string such as 'TASK-12'
+// - verification: 'verified', 'unverified' or 'expired'
+
+interface PropertyCodec {
+  read: (property: any) => any;
+  // Undefined when there is nothing to write
+  write?: (value: any) => any;
+  // Payload that empties the property, for types that can be emptied
+  clear?: any;
+}
+
+// Values arrive as a single item, an array or comma-separated text (CSV import)
+function toList(value: any): any[] {
+  if (Array.isArray(value)) return value;
+  return String(value).split(',').map(item => item.trim()).filter(Boolean);
+}
+
+// User IDs from user objects or IDs
+function toUserIds(value: any): string[] {
+  const users = Array.isArray(value) ? value : [value];
+  return users.map(user => (user && typeof user === 'object' ? user.id : user)).filter(Boolean);
+}
+
+function readUser(user: any): { id: string; name: string | null } | null {
+  return user ? { id: user.id, name: user.name || null } : null;
+}
+
+// Formula and rollup results of type date use the date property's value shape
+function readComputed(result: any): any {
+  if (!result?.type) return null;
+  if (result.type === 'date') return fromNotionDate(result.date);
+  return result[result.type] ?? null;
+}
+
+const CODECS: Record<NotionPropertyType, PropertyCodec> = {
+  title: {
+    read: property => getPlainText(fromNotionRichText(property.title)),
+    write: value => ({ title: toNotionRichText(value) }),
+    clear: { title: [] },
+  },
+  rich_text: {
+    read: property => fromNotionRichText(property.rich_text),
+    // Long text is split into Notion-sized items
+    write: value => ({ rich_text: toNotionRichText(value) }),
+    clear: { rich_text: [] },
+  },
+  number: {
+    read: property => property.number ?? null,
+    write: value => ({ number: Number(value) }),
+    clear: { number: null },
+  },
+  checkbox: {
+    read: property => !!property.checkbox,
+    write: value => ({ checkbox: Boolean(value) }),
+    clear: { checkbox: false },
+  },
+  select: {
+    read: property => property.select?.name || null,
+    write: value => ({ select: { name: String(value) } }),
+    clear: { select: null },
+  },
+  status: {
+    read: property => property.status?.name || null,
+    write: value => ({ status: { name: String(value) } }),
+  },
+  multi_select: {
+    read: property => property.multi_select?.map((option: any) => option.name) || [],
+    write: value => ({
+      multi_select: (Array.isArray(value) ? value : [value]).map(name => ({ name: String(name) })),
+    }),
+    clear: { multi_select: [] },
+  },
+  date: {
+    read: property => fromNotionDate(property.date),
+    write: value => {
+      const date = toNotionDate(value);
+      return date ? { date } : undefined;
+    },
+    clear: { date: null },
+  },
+  url: {
+    read: property => property.url ?? null,
+    write: value => ({ url: String(value) }),
+    clear: { url: null },
+  },
+  email: {
+    read: property => property.email ?? null,
+    write: value => ({ email: String(value) }),
+    clear: { email: null },
+  },
+  phone_number: {
+    read: property => property.phone_number ?? null,
+    write: value => ({ phone_number: String(value) }),
+    clear: { phone_number: null },
+  },
+  people: {
+    read: property => property.people?.map((user: any) => ({
+      id: user.id,
+      name: user.name || null,
+      email: user.person?.email || null,
+    })) || [],
+    write: value => ({
+      people: toUserIds(value).map(id => ({ object: 'user', id })),
+    }),
+    clear: { people: [] },
+  },
+  relation: {
+    read: property => property.relation?.map((page: any) => page.id) || [],
+    write: value => ({
+      relation: toList(value).map(page => ({ id: typeof page === 'object' ? page.id : page })),
+    }),
+    clear: { relation: [] },
+  },
+  files: {
+    read: property => property.files?.map((file: any) => ({
+      name: file.name,
+      type: file.type,
+      url: file.file?.url || file.external?.url,
+    })) || [],
+    // Existing files and new uploads
+    write: value => ({ files: toNotionFiles(value) }),
+    clear: { files: [] },
+  },
+
+  // Read-only types
+  formula: {
+    read: property => readComputed(property.formula),
+  },
+  rollup: {
+    read: property => {
+      const rollup = property.rollup;
+      if (rollup?.type === 'array') {
+        return rollup.array?.map(fromNotionProperty) || [];
+      }
+      return readComputed(rollup);
+    },
+  },
+  created_time: {
+    read: property => property.created_time ?? null,
+  },
+  last_edited_time: {
+    read: property => property.last_edited_time ?? null,
+  },
+  created_by: {
+    read: property => readUser(property.created_by),
+  },
+  last_edited_by: {
+    read: property => readUser(property.last_edited_by),
+  },
+  unique_id: {
+    read: property => {
+      const uniqueId = property.unique_id;
+      if (!uniqueId || uniqueId.number === null || uniqueId.number === undefined) return null;
+      return uniqueId.prefix ? `${uniqueId.prefix}-${uniqueId.number}` : String(uniqueId.number);
+    },
+  },
+  verification: {
+    read: property => property.verification?.state || null,
+  },
+  button: {
+    read: () => null,
+  },
+};
+
+function getCodec(type: string): PropertyCodec | undefined {
+  return Object.prototype.hasOwnProperty.call(CODECS, type) ? CODECS[type as NotionPropertyType] : undefined;
+}
+
+// Value of a Notion property (from a page, or a rollup array item)
+export function fromNotionProperty(property: any): any {
+  if (!property?.type) return null;
+  const codec = getCodec(property.type);
+  return codec ? codec.read(property) : null;
+}
+
+function isEmpty(value: any): boolean {
+  return value === undefined || value === null || value === '' || (Array.isArray(value) && value.length === 0);
+}
+
+// Whether two values of a property type write the same thing to Notion, e.g.
+// to tell which properties changed. Files compare by name, as their URLs expire.
+export function isSameValue(type: string, a: any, b: any): boolean {
+  const normalize = (value: any) => {
+    if (isEmpty(value)) return null;
+    if (type === 'files') return Array.isArray(value) ? value.map(file => file?.name) : null;
+    return toNotionProperty(type, value) ?? null;
+  };
+  return JSON.stringify(normalize(a)) === JSON.stringify(normalize(b));
+}
+
+// Notion property payload for a value, or undefined when there is nothing to
+// write (e.g. a read-only type). Empty values write nothing, unless `clear` is
+// set (edits), where they empty the property.
+export function toNotionProperty(type: string, value: any, options: { clear?: boolean } = {}): any {
+  if (isEmpty(value)) {
+    return options.clear ? getCodec(type)?.clear : undefined;
+  }
+
+  const codec = getCodec(type);
+  if (!codec) {
+    // For unknown types, try as rich_text
+    return { rich_text: toNotionRichText(String(value)) };
+  }
+  return codec.write ? codec.write(value) : undefined;
+}
@@ -0,0 +1,197 @@
+import { FieldConfig } from '@/types/form';
+import { FieldErrors, getVisibleData, getWritableFields, isEmptyValue, isFieldVisible, validateFields } from './form-validation';
+
+// Turning CSV rows into form submissions for the import wizard. Values are
+// converted to the shapes FormRenderer holds, then checked with the same
+// validateFields rules the form enforces.
+
+// Property types a CSV column can be imported into
+export const IMPORTABLE_TYPES = [
+  'title',
+  'rich_text',
+  'number',
+  'select',
+  'multi_select',
+  'status',
+  'date',
+  'checkbox',
+  'url',
+  'email',
+  'phone_number',
+  'relation',
+  'people',
+];
+
+export interface ImportUser {
+  id: string;
+  name: string;
+  email: string | null;
+}
+
+// Lookups needed to convert cells: select options by property ID and workspace users
+export interface ImportContext {
+  options: Record<string, { name: string }[]>;
+  users: ImportUser[];
+}
+
+export interface ImportRow {
+  line: number;  // Row number in the CSV file (the header is row 1)
+  data: Record<string, any>;
+  errors: FieldErrors;
+}
+
+const TRUE_VALUES = ['true', 'yes', 'y', '1', 'x', 'checked'];
+const FALSE_VALUES = ['false', 'no', 'n', '0', 'unchecked'];
+
+// Fields a CSV column can be mapped to
+export function getImportableFields(fields: FieldConfig[]): FieldConfig[] {
+  return getWritableFields(fields).filter(f => IMPORTABLE_TYPES.includes(f.notionPropertyType));
+}
+
+function normalizeHeader(text: string): string {
+  return text.toLowerCase().replace(/[^a-z0-9]/g, '');
+}
+
+// Suggest a field for each CSV column by matching headers to field labels
+export function guessColumnMapping(headers: string[], fields: FieldConfig[]): (string | null)[] {
+  const used = new Set<string>();
+  return headers.map(header => {
+    const key = normalizeHeader(header);
+    const field = fields.find(f => !used.has(f.notionPropertyId) && normalizeHeader(f.label) === key);
+    if (!field) return null;
+    used.add(field.notionPropertyId);
+    return field.notionPropertyId;
+  });
+}
+
+function splitList(text: string): string[] {
+  return text.split(',').map(item => item.trim()).filter(Boolean);
+}
+
+function findOption(options: { name: string }[], text: string): string | undefined {
+  return options.find(o => o.name.toLowerCase() === text.toLowerCase())?.name;
+}
+
+// Convert a CSV cell to the field's form value, or explain why it can't be
+export function parseImportValue(
+  field: FieldConfig,
+  raw: string,
+  context: ImportContext
+): { value: any; error?: string } {
+  const text = raw.trim();
+  const type = field.notionPropertyType;
+
+  if (text === '') {
+    if (type === 'checkbox') return { value: false };
+    if (type === 'multi_select' || type === 'relation' || type === 'people') return { value: [] };
+    return { value: '' };
+  }
+
+  switch (type) {
+    case 'number': {
+      const value = Number(text.replace(/,/g, ''));
+      return isNaN(value) ? { value: text, error: `"${text}" is not a number` } : { value };
+    }
+
+    case 'checkbox': {
+      const lower = text.toLowerCase();
+      if (TRUE_VALUES.includes(lower)) return { value: true };
+      if (FALSE_VALUES.includes(lower)) return { value: false };
+      return { value: text, error: `"${text}" is not yes/no` };
+    }
+
+    case 'date': {
+      // Keep plain dates as they are; anything else must parse as a date.
+      // Fields with times keep the time as a timestamp.
+      if (/^\d{4}-\d{2}-\d{2}$/.test(text)) return { value: text };
+      const date = new Date(text);
+      if (isNaN(date.getTime())) return { value: text, error: `"${text}" is not a date` };
+      return { value: field.dateConfig?.includeTime ? date.toISOString() : date.toISOString().slice(0, 10) };
+    }
+
+    case 'select':
+    case 'status': {
+      const options = context.options[field.notionPropertyId] || [];
+      const name = findOption(options, text);
+      if (name) return { value: name };
+      if (type === 'status') return { value: text, error: `"${text}" is not a status option` };
+      // Notion adds new select options when a page uses them
+      return { value: text };
+    }
+
+    case 'multi_select': {
+      const options = context.options[field.notionPropertyId] || [];
+      return { value: splitList(text).map(item => findOption(options, item) || item) };
+    }
+
+    case 'relation':
+      return { value: splitList(text) };
+
+    case 'people': {
+      const ids: string[] = [];
+      for (const item of splitList(text)) {
+        const lower = item.toLowerCase();
+        const user = context.users.find(u =>
+          u.id === item || u.email?.toLowerCase() === lower || u.name.toLowerCase() === lower
+        );
+        if (!user) return { value: text, error: `No workspace user matches "${item}"` };
+        ids.push(user.id);
+      }
+      return { value: ids };
+    }
+
+    default:
+      return { value: text };
+  }
+}
+
+// Convert CSV data rows (without the header) using a column -> property ID
+// mapping, and validate each row as the form would
+export function buildImportRows(
+  rows: string[][],
+  mapping: (string | null)[],
+  fields: FieldConfig[],
+  context: ImportContext
+): ImportRow[] {
+  const writableFields = getWritableFields(fields);
+  const fieldMap = new Map(getImportableFields(fields).map(f => [f.notionPropertyId, f]));
+
+  return rows.map((cells, index) => {
+    const data: Record<string, any> = {};
+    const parseErrors: FieldErrors = {};
+
+    mapping.forEach((propertyId, column) => {
+      const field = propertyId ? fieldMap.get(propertyId) : undefined;
+      if (!field) return;
+
+      const { value, error } = parseImportValue(field, cells[column] ?? '', context);
+      data[field.notionPropertyId] = value;
+      if (error) {
+        parseErrors[field.notionPropertyId] = error;
+      }
+    });
+
+    return {
+      line: index + 2,
+      data,
+      errors: { ...validateFields(writableFields, getVisibleData(fields, data)), ...parseErrors },
+    };
+  });
+}
+
+// Fields to submit for a row: mapped, non-empty values of fields the row's
+// data doesn't hide (as FormRenderer drops values of hidden fields)
+export function toImportSubmission(
+  row: ImportRow,
+  fields: FieldConfig[]
+): { propertyId: string; propertyType: string; value: any }[] {
+  const data = getVisibleData(fields, row.data);
+
+  return fields
+    .filter(f => f.notionPropertyId in data && isFieldVisible(f, data) && !isEmptyValue(data[f.notionPropertyId]))
+    .map(f => ({
+      propertyId: f.notionPropertyId,
+      propertyType: f.notionPropertyType,
+      value: data[f.notionPropertyId],
+    }));
+}
@@ -0,0 +1,169 @@
+import { RichTextAnnotations, RichTextMention, RichTextSegment } from '@/types/form';
+
+// Rich text property values. Text without any formatting is kept as a plain
+// string; anything else is an array of RichTextSegment, converted to and from
+// Notion rich text arrays here so edits keep styles, links and mentions.
+
+// Notion's limits: characters per text item and items per rich text array
+export const MAX_TEXT_CONTENT_LENGTH = 2000;
+export const MAX_RICH_TEXT_ITEMS = 100;
+
+const ANNOTATION_KEYS: (keyof RichTextAnnotations)[] = ['bold', 'italic', 'strikethrough', 'underline', 'code', 'color'];
+
+// Mention kinds the Notion API accepts when writing rich text
+const WRITABLE_MENTIONS = ['user', 'page', 'database', 'date'];
+
+export function isRichText(value: any): value is RichTextSegment[] {
+  return Array.isArray(value) && value.length > 0 &&
+    value.every(item => item && typeof item === 'object' && typeof item.text === 'string');
+}
+
+// Plain text of a rich text value (string or segments)
+export function getPlainText(value: any): string {
+  if (typeof value === 'string') return value;
+  if (isRichText(value)) return value.map(segment => segment.text).join('');
+  return '';
+}
+
+// Annotations without the default (off) values
+function cleanAnnotations(annotations: any): RichTextAnnotations | undefined {
+  if (!annotations) return undefined;
+  const result: RichTextAnnotations = {};
+  ANNOTATION_KEYS.forEach(key => {
+    const value = annotations[key];
+    if (key === 'color' ? value && value !== 'default' : value === true) {
+      (result as any)[key] = value;
+    }
+  });
+  return Object.keys(result).length > 0 ? result : undefined;
+}
+
+export function sameAnnotations(a: RichTextAnnotations | undefined, b: RichTextAnnotations | undefined): boolean {
+  return ANNOTATION_KEYS.every(key => (a?.[key] || undefined) === (b?.[key] || undefined));
+}
+
+function isPlainSegment(segment: RichTextSegment): boolean {
+  return !segment.annotations && !segment.href && !segment.mention && !segment.equation;
+}
+
+// Merge neighbouring text segments with the same styles and drop empty ones
+export function normalizeSegments(segments: RichTextSegment[]): RichTextSegment[] {
+  const result: RichTextSegment[] = [];
+  segments.forEach(segment => {
+    if (!segment.text) return;
+    const clean: RichTextSegment = { text: segment.text };
+    const annotations = cleanAnnotations(segment.annotations);
+    if (annotations) clean.annotations = annotations;
+    if (segment.href) clean.href = segment.href;
+    if (segment.mention) clean.mention = segment.mention;
+    if (segment.equation) clean.equation = true;
+
+    const last = result[result.length - 1];
+    if (
+      last && !last.mention && !last.equation && !clean.mention && !clean.equation &&
+      (last.href || null) === (clean.href || null) && sameAnnotations(last.annotations, clean.annotations)
+    ) {
+      last.text += clean.text;
+    } else {
+      result.push(clean);
+    }
+  });
+  return result;
+}
+
+// Store segments in the simplest form: a string unless something is formatted
+export function toRichTextValue(segments: RichTextSegment[]): string | RichTextSegment[] {
+  const normalized = normalizeSegments(segments);
+  if (normalized.every(isPlainSegment)) {
+    return normalized.map(segment => segment.text).join('');
+  }
+  return normalized;
+}
+
+// Segments of a rich text value, for editing
+export function toSegments(value: any): RichTextSegment[] {
+  if (isRichText(value)) return value;
+  const text = value === null || value === undefined ? '' : String(value);
+  return text ? [{ text }] : [];
+}
+
+function fromNotionMention(mention: any): RichTextMention | undefined {
+  if (!mention?.type) return undefined;
+  if (mention.type === 'date') {
+    return { type: 'date', date: mention.date };
+  }
+  const target = mention[mention.type];
+  return { type: mention.type, id: target?.id };
+}
+
+// Value for a Notion rich text array
+export function fromNotionRichText(items: any[] | undefined): string | RichTextSegment[] {
+  const segments: RichTextSegment[] = (items || []).map((item: any) => {
+    const segment: RichTextSegment = {
+      text: item.plain_text ?? item.text?.content ?? '',
+      annotations: cleanAnnotations(item.annotations),
+    };
+    if (item.type === 'mention') {
+      segment.mention = fromNotionMention(item.mention);
+      if (!WRITABLE_MENTIONS.includes(item.mention?.type)) segment.href = item.href || null;
+    } else if (item.type === 'equation') {
+      segment.text = item.equation?.expression ?? segment.text;
+      segment.equation = true;
+    } else if (item.text?.link?.url) {
+      segment.href = item.text.link.url;
+    }
+    return segment;
+  });
+  return toRichTextValue(segments);
+}
+
+// Split text into pieces Notion accepts, without splitting surrogate pairs
+function chunkText(text: string): string[] {
+  const chunks: string[] = [];
+  let rest = text;
+  while (rest.length > MAX_TEXT_CONTENT_LENGTH) {
+    let size = MAX_TEXT_CONTENT_LENGTH;
+    const code = rest.charCodeAt(size - 1);
+    if (code >= 0xd800 && code <= 0xdbff) size--;
+    chunks.push(rest.slice(0, size));
+    rest = rest.slice(size);
+  }
+  if (rest) chunks.push(rest);
+  return chunks;
+}
+
+function toNotionMention(mention: RichTextMention): any {
+  if (mention.type === 'date') return mention.date ? { type: 'date', date: mention.date } : null;
+  return mention.id ? { type: mention.type, [mention.type]: { id: mention.id } } : null;
+}
+
+// Notion rich text array for a value (string or segments). Long text is split
+// into items of at most MAX_TEXT_CONTENT_LENGTH characters.
+export function toNotionRichText(value: any): any[] {
+  const items: any[] = [];
+
+  toSegments(value).forEach(segment => {
+    const annotations = segment.annotations ? { annotations: segment.annotations } : {};
+
+    if (segment.mention && WRITABLE_MENTIONS.includes(segment.mention.type)) {
+      const mention = toNotionMention(segment.mention);
+      if (mention) {
+        items.push({ type: 'mention', mention, ...annotations });
+        return;
+      }
+    }
+
+    if (segment.equation) {
+      items.push({ type: 'equation', equation: { expression: segment.text }, ...annotations });
+      return;
+    }
+
+    // Mentions Notion won't take back (e.g. link previews) are kept as linked text
+    const link = segment.href ? { url: segment.href } : null;
+    chunkText(segment.text).forEach(content => {
+      items.push({ type: 'text', text: { content, link }, ...annotations });
+    });
+  });
+
+  return items;
+}
@@ -0,0 +1,96 @@
+import { db } from './db/client-postgres';
+import { formSubmissions, formUsers, users } from './db/schema';
+import { eq, and, gte, lte, desc } from 'drizzle-orm';
+import { FieldSubmission } from './form-config';
+
+interface RecordSubmissionInput {
+  formId: string;
+  adminUserId?: string | null;
+  formUserId?: string | null;
+  notionPageId: string;
+  mode: 'create' | 'edit' | 'archive';
+  fields: FieldSubmission[];
+}
+
+export interface SubmissionFilters {
+  formUserId?: string;
+  from?: Date;
+  to?: Date;
+}
+
+// Record a create/edit/archive made through a form. Logging must never fail the
+// submission itself, so errors are only reported.
+export async function recordSubmission(input: RecordSubmissionInput): Promise<void> {
+  const values: Record<string, any> = {};
+  input.fields.forEach(field => {
+    values[field.propertyId] = field.value;
+  });
+
+  try {
+    await db.insert(formSubmissions).values({
+      formConfigId: input.formId,
+      userId: input.adminUserId || null,
+      formUserId: input.formUserId || null,
+      notionPageId: input.notionPageId,
+      mode: input.mode,
+      values: JSON.stringify(values),
+    });
+  } catch (error) {
+    console.error('Error recording form submission:', error);
+  }
+}
+
+// List submissions for a form, newest first, with the acting user
+export async function listSubmissions(formId: string, filters: SubmissionFilters = {}) {
+  const conditions = [eq(formSubmissions.formConfigId, formId)];
+
+  if (filters.formUserId) {
+    conditions.push(eq(formSubmissions.formUserId, filters.formUserId));
+  }
+  if (filters.from) {
+    conditions.push(gte(formSubmissions.createdAt, filters.from));
+  }
+  if (filters.to) {
+    conditions.push(lte(formSubmissions.createdAt, filters.to));
+  }
+
+  const rows = await db
+    .select({
+      id: formSubmissions.id,
+      notionPageId: formSubmissions.notionPageId,
+      mode: formSubmissions.mode,
+      values: formSubmissions.values,
+      createdAt: formSubmissions.createdAt,
+      adminUserId: formSubmissions.userId,
+      formUserId: formSubmissions.formUserId,
+      formUserEmail: formUsers.email,
+      formUserName: formUsers.name,
+      adminUserEmail: users.email,
+      adminUserName: users.name,
+    })
+    .from(formSubmissions)
+    .leftJoin(formUsers, eq(formSubmissions.formUserId, formUsers.id))
+    .leftJoin(users, eq(formSubmissions.userId, users.id))
+    .where(and(...conditions))
+    .orderBy(desc(formSubmissions.createdAt))
+    .limit(500);
+
+  return rows.map(row => ({
+    ...row,
+    values: row.values ? JSON.parse(row.values) : {},
+  }));
+}
+
+// Form users who have submitted through a form (for filtering the log)
+export async function listSubmitters(formId: string) {
+  return db
+    .selectDistinct({
+      id: formUsers.id,
+      email: formUsers.email,
+      name: formUsers.name,
+    })
+    .from(formSubmissions)
+    .innerJoin(formUsers, eq(formSubmissions.formUserId, formUsers.id))
+    .where(eq(formSubmissions.formConfigId, formId))
+    .orderBy(formUsers.email);
+}
@@ -0,0 +1,66 @@
+import { getPlainText, isRichText } from './rich-text';
+
+// Title templates, e.g. "{{Name}} – {{Status}}". Placeholders reference form
+// fields by label (case-insensitive) or by Notion property ID.
+
+const PLACEHOLDER_PATTERN = /\{\{\s*([^{}]+?)\s*\}\}/g;
+
+export interface TemplateField {
+  notionPropertyId: string;
+  label: string;
+}
+
+function findField(fields: TemplateField[], name: string): TemplateField | undefined {
+  const lower = name.toLowerCase();
+  return fields.find(f => f.label.toLowerCase() === lower) ||
+    fields.find(f => f.notionPropertyId === name);
+}
+
+// Format a record value (as returned by the pages/rows APIs) as plain text
+export function formatTemplateValue(value: any): string {
+  if (value === null || value === undefined) return '';
+  if (typeof value === 'boolean') return value ? 'Yes' : 'No';
+  if (isRichText(value)) return getPlainText(value);
+  if (Array.isArray(value)) {
+    return value.map(formatTemplateValue).filter(Boolean).join(', ');
+  }
+  if (typeof value === 'object') {
+    if ('number' in value && 'prefix' in value) {
+      return value.prefix ? `${value.prefix}-${value.number}` : String(value.number);
+    }
+    if ('start' in value) {
+      return value.end ? `${value.start} → ${value.end}` : String(value.start || '');
+    }
+    return value.title || value.name || '';
+  }
+  return String(value);
+}
+
+// Names referenced by a template's placeholders
+export function getTemplateReferences(template: string): string[] {
+  return Array.from(template.matchAll(PLACEHOLDER_PATTERN), m => m[1]);
+}
+
+// Placeholders that don't match any field
+export function getUnknownReferences(template: string, fields: TemplateField[]): string[] {
+  return getTemplateReferences(template).filter(name => !findField(fields, name));
+}
+
+// Render a template against record values keyed by property ID. Returns an
+// empty string when every placeholder is empty, so callers can fall back.
+export function renderTitleTemplate(
+  template: string,
+  fields: TemplateField[],
+  values: Record<string, any>
+): string {
+  let hasValue = false;
+
+  const rendered = template.replace(PLACEHOLDER_PATTERN, (_, name: string) => {
+    const field = findField(fields, name);
+    const text = field ? formatTemplateValue(values[field.notionPropertyId]) : '';
+    if (text) hasValue = true;
+    return text;
+  });
+
+  return hasValue ? rendered.trim() : '';
+}
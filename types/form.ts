@@ -21,6 +21,99 @@ export const DefaultValueSchema = z.discriminatedUnion('type', [
 
 export type DefaultValue = z.infer<typeof DefaultValueSchema>;
 
+// Conditional rules: a field's visibility/requiredness can depend on other fields' values
+export const ConditionOperatorSchema = z.enum([
+  'equals',
+  'does_not_equal',
+  'contains',
+  'does_not_contain',
+  'greater_than',
+  'less_than',
+  'is_empty',
+  'is_not_empty',
+]);
+
+export type ConditionOperator = z.infer<typeof ConditionOperatorSchema>;
+
+export const FieldConditionSchema = z.object({
+  propertyId: z.string(),  // the field whose value is checked
+  operator: ConditionOperatorSchema,
+  value: z.any().optional(),  // optional for is_empty/is_not_empty
+});
+
+export type FieldCondition = z.infer<typeof FieldConditionSchema>;
+
+export const FieldRuleSchema = z.object({
+  match: z.enum(['all', 'any']).default('all'),
+  conditions: z.array(FieldConditionSchema),
+});
+
+export type FieldRule = z.infer<typeof FieldRuleSchema>;
+
+// Upload limits for files properties
+export const FileConfigSchema = z.object({
+  maxSizeMb: z.number().optional(),             // per file, capped at the Notion upload limit
+  allowedTypes: z.array(z.string()).optional(), // MIME types ("image/*", "application/pdf") or extensions (".pdf")
+  maxFiles: z.number().optional(),
+});
+
+export type FileConfig = z.infer<typeof FileConfigSchema>;
+
+// Options for date properties
+export const DateConfigSchema = z.object({
+  includeTime: z.boolean().optional(),  // Date and time instead of date only
+  range: z.boolean().optional(),        // Ask for an optional end date
+  timeZone: z.string().optional(),      // IANA zone times are entered in (default: the submitter's zone)
+});
+
+export type DateConfig = z.infer<typeof DateConfigSchema>;
+
+// A date property value with an end or a time zone. Plain dates stay YYYY-MM-DD strings.
+export interface DateRangeValue {
+  start: string;
+  end?: string | null;
+  timeZone?: string | null;  // When set, start and end are wall-clock times in this zone
+}
+
+// Text styles of a rich text segment. Unset styles are off; color is a Notion
+// color such as "red" or "red_background".
+export interface RichTextAnnotations {
+  bold?: boolean;
+  italic?: boolean;
+  strikethrough?: boolean;
+  underline?: boolean;
+  code?: boolean;
+  color?: string;
+}
+
+// A mention in rich text. User, page, database and date mentions can be
+// written back to Notion; other kinds are saved as linked text.
+export interface RichTextMention {
+  type: string;
+  id?: string;
+  date?: { start: string; end?: string | null; time_zone?: string | null };
+}
+
+// A run of rich text with the same styles. Rich text with formatting, links or
+// mentions is an array of segments; plain text stays a string.
+export interface RichTextSegment {
+  text: string;  // For mentions, the text Notion shows (e.g. "@Ada"); for equations, the expression
+  annotations?: RichTextAnnotations;
+  href?: string | null;
+  mention?: RichTextMention;
+  equation?: boolean;
+}
+
+// A file in a files property value: existing Notion-hosted or external files,
+// or a new upload waiting to be attached
+export interface FileValue {
+  name: string;
+  type: 'file' | 'external' | 'file_upload';
+  url?: string;
+  fileUploadId?: string;
+  signature?: string;  // Set by /api/uploads for the form field the file was uploaded to
+}
+
 // Field configuration
 export const FieldConfigSchema = z.object({
   notionPropertyId: z.string(),
@@ -32,10 +125,15 @@ export const FieldConfigSchema = z.object({
   editable: z.boolean().default(true),
   visible: z.boolean().default(true),
   showInList: z.boolean().default(true),  // Show as column in list view (default: shown)
+  columnSpan: z.number().optional(),  // Grid columns the field spans when layout.columns > 1
   defaultValue: DefaultValueSchema.optional(),
+  visibleWhen: FieldRuleSchema.optional(),   // shown only when the rule matches (and visible is true)
+  requiredWhen: FieldRuleSchema.optional(),  // required when the rule matches (in addition to required)
   relationPath: z.array(z.string()).optional(),
   // For relation fields - the ID of the related database
   relationDatabaseId: z.string().optional(),
+  fileConfig: FileConfigSchema.optional(),
+  dateConfig: DateConfigSchema.optional(),
   validation: z.object({
     min: z.number().optional(),
     max: z.number().optional(),
@@ -69,6 +167,18 @@ export const FilterOperatorSchema = z.enum([
   'less_than_or_equal_to',
   'is_empty',
   'is_not_empty',
+  // Relative dates, resolved when the list is queried
+  'past_week',
+  'past_month',
+  'past_year',
+  'this_week',
+  'next_week',
+  'next_month',
+  'next_year',
+  'in_past_days',  // value: number of days
+  'in_next_days',  // value: number of days
+  // People: the user viewing the list
+  'is_me',
 ]);
 
 export type FilterOperator = z.infer<typeof FilterOperatorSchema>;
@@ -82,6 +192,27 @@ export const DesignTimeFilterSchema = z.object({
 
 export type DesignTimeFilter = z.infer<typeof DesignTimeFilterSchema>;
 
+// Filters combined with and/or; groups can be nested
+export interface FilterGroup {
+  type: 'group';
+  operator: 'and' | 'or';
+  filters: FilterNode[];
+}
+
+export type FilterNode = DesignTimeFilter | FilterGroup;
+
+export const FilterGroupSchema: z.ZodType<FilterGroup> = z.lazy(() =>
+  z.object({
+    type: z.literal('group'),
+    operator: z.enum(['and', 'or']),
+    filters: z.array(FilterNodeSchema),
+  })
+);
+
+export const FilterNodeSchema: z.ZodType<FilterNode> = z.lazy(() =>
+  z.union([FilterGroupSchema, DesignTimeFilterSchema])
+);
+
 // Notion sort
 export const NotionSortSchema = z.object({
   property: z.string(),
@@ -107,15 +238,51 @@ export const DefaultSortSchema = z.object({
 
 export type DefaultSort = z.infer<typeof DefaultSortSchema>;
 
+// Board (kanban) view: rows grouped into columns by a select or status property
+export const BoardConfigSchema = z.object({
+  groupByPropertyId: z.string(),
+  cardFieldIds: z.array(z.string()).default([]),  // Fields shown on each card, in order
+});
+
+export type BoardConfig = z.infer<typeof BoardConfigSchema>;
+
+// Calendar view: rows placed on the days of a date property
+export const CalendarConfigSchema = z.object({
+  datePropertyId: z.string(),
+});
+
+export type CalendarConfig = z.infer<typeof CalendarConfigSchema>;
+
 // List configuration for list-enabled forms
 export const ListConfigSchema = z.object({
   pageSize: z.number().default(20),
-  filters: z.array(DesignTimeFilterSchema).default([]),
+  filters: z.array(FilterNodeSchema).default([]),  // ANDed together
   defaultSort: DefaultSortSchema.optional(),
+  view: z.enum(['table', 'board', 'calendar']).default('table'),  // Default view; viewers can switch to the others set up
+  board: BoardConfigSchema.optional(),
+  calendar: CalendarConfigSchema.optional(),
 });
 
 export type ListConfig = z.infer<typeof ListConfigSchema>;
 
+// Row-level scoping: form users only see and edit rows where this property matches them
+export const OwnerScopeSchema = z.object({
+  propertyId: z.string(),
+  propertyType: z.enum(['people', 'created_by', 'email']),
+});
+
+export type OwnerScope = z.infer<typeof OwnerScopeSchema>;
+
+// A titled group of fields; forms with sections are shown as a multi-step wizard
+export const FormSectionSchema = z.object({
+  id: z.string(),
+  title: z.string(),
+  description: z.string().optional(),
+  fieldIds: z.array(z.string()).default([]),  // property IDs, in display order
+});
+
+export type FormSection = z.infer<typeof FormSectionSchema>;
+
 // Form configuration
 export const FormConfigDataSchema = z.object({
   databaseId: z.string(),
@@ -126,8 +293,9 @@ export const FormConfigDataSchema = z.object({
   pageSize: z.number().default(20),  // legacy, keeping for compatibility
   layout: z.object({
     showTitle: z.boolean().default(true),
-    titleTemplate: z.string().optional(),
-    columns: z.number().optional(),
+    titleTemplate: z.string().optional(),  // e.g. "{{Name}} – {{Status}}", for edit headers and list row labels
+    columns: z.number().optional(),        // grid columns for fields (1-4)
+    sections: z.array(FormSectionSchema).optional(),  // multi-step wizard when set
   }).default({}),
   permissions: z.object({
     allowCreate: z.boolean().default(true),
@@ -136,11 +304,22 @@ export const FormConfigDataSchema = z.object({
     allowList: z.boolean().default(false),  // Enable list view
   }).default({}),
   listConfig: ListConfigSchema.optional(),  // Config for list view
+  ownerScope: OwnerScopeSchema.optional(),  // Limit list/edit to the user's own records
   displayTitles: DisplayTitlesSchema.optional(),  // Custom titles for views
 });
 
 export type FormConfigData = z.infer<typeof FormConfigDataSchema>;
 
+// Access control for form users (admins can always access their forms)
+export const FormAccessSchema = z.object({
+  mode: z.enum(['workspace', 'restricted']).default('workspace'),  // workspace = anyone in the Notion workspace
+  allowedEmails: z.array(z.string()).default([]),
+  allowedDomains: z.array(z.string()).default([]),  // e.g. "example.com"
+  allowedNotionUserIds: z.array(z.string()).default([]),
+});
+
+export type FormAccess = z.infer<typeof FormAccessSchema>;
+
 // Complete form configuration (with metadata)
 export interface FormConfiguration {
   id: string;
@@ -175,7 +354,11 @@ export type NotionPropertyType =
   | 'created_time'
   | 'created_by'
   | 'last_edited_time'
-  | 'last_edited_by';
+  | 'last_edited_by'
+  | 'status'
+  | 'unique_id'
+  | 'verification'
+  | 'button';
 
 // Notion database schema
 export interface NotionDatabase {
@@ -205,8 +388,25 @@ export interface NotionPage {
 export interface FormSubmission {
   id: string;
   formConfigId: string;
-  userId: string;
+  userId?: string;      // Admin user, if submitted by one
+  formUserId?: string;  // Form user, if submitted by one
   notionPageId: string;
   mode: FormMode;
+  values: Record<string, any>;  // Snapshot of submitted values, keyed by property ID
   createdAt: Date;
 }
+
+// Record values an edit started from, sent with the edit so the server can
+// tell which properties someone else changed in the meantime
+export interface EditBase {
+  lastEditedTime: string;
+  values: Record<string, any>;  // Form values keyed by property ID
+}
+
+// A property both the editor and someone else changed since the edit began
+export interface FieldConflict {
+  propertyId: string;
+  base: any;    // Value when the edit began
+  theirs: any;  // Value now in Notion
+  yours: any;   // Value submitted
+}